@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -13,20 +13,89 @@ import {
 import { Image } from 'expo-image';
 import * as MediaLibrary from 'expo-media-library';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { ChevronRight, Clock, Hash, Search, Pause, Play, Crown } from 'lucide-react-native';
+import { ChevronRight, Clock, Hash, Search, Pause, Play, Crown, Trash2, Sparkles } from 'lucide-react-native';
 import { PhotoDetail } from '@/components/PhotoDetail';
 import { MatchResultsModal } from '@/components/MatchResultsModal';
 import { ViewCounterDisplay } from '@/components/ViewCounterDisplay';
 import { UpgradePrompt } from '@/components/UpgradePrompt';
-import { calculatePHash, calculateHammingDistance } from '@/utils/pHash';
+import { TimeWindowStrategyPicker } from '@/components/TimeWindowStrategyPicker';
+import { SessionSummaryList } from '@/components/SessionSummaryList';
+import { PendingRemovalModal } from '@/components/PendingRemovalModal';
+import { AutoCleanModal } from '@/components/AutoCleanModal';
+import {
+  compareRegionalHashes,
+  HashIndex,
+  hammingDistance,
+  minOrientationDistance,
+  REFERENCE_HASH_BITS,
+} from '@/utils/pHash';
+import { HashAlgorithmName, HashSet, OrientationHashSet, PHashSize, REGION_TILES } from '@/utils/hashAlgorithms';
+import { getOrCalculateDigest, getOrCalculateHashes, hashCache } from '@/utils/hashCache';
+import { librarySync, LibraryDelta } from '@/utils/librarySync';
 import { viewCounter, ViewCounterState } from '@/utils/viewCounter';
 import { userProfileManager } from '@/utils/userProfile';
-import { processMatchesWithDeduplication } from '@/utils/matchDeduplication';
+import { MatchDeduplicator } from '@/utils/matchDeduplication';
+import { ClusterLinkage, MatchGraph } from '@/utils/matchClustering';
+import { computeMatchMetrics, MatchMetrics } from '@/utils/matchMetrics';
+import { getMaxMatchDistance, getSimilarityScore } from '@/utils/similarityModel';
+import { matchingSettings } from '@/utils/matchingSettings';
+import { reviewDecisions, ReviewStatus } from '@/utils/reviewDecisions';
+import { exclusionRules } from '@/utils/exclusionRules';
+import { pendingRemoval } from '@/utils/pendingRemoval';
+import { autoCleanJobs } from '@/utils/autoClean';
+import {
+  createTimeWindowResolver,
+  DEFAULT_TIME_WINDOW_STRATEGY,
+  getTimeWindowStrategyInfo,
+  TimeWindow,
+  TimeWindowStrategy,
+} from '@/utils/timeWindow';
+import { countSessionDuplicates, resolveSessionLocations, segmentSessions, Session } from '@/utils/sessions';
+import { getOrReadLocation } from '@/utils/photoLocation';
 
 const { width } = Dimensions.get('window');
 const numColumns = 2;
 const imageSize = (width - 60) / numColumns;
 
+// pHash block size: 8 (64-bit), 16 (256-bit) or 32 (1024-bit). Larger hashes keep finer
+// detail, which tells apart burst shots that collapse into one group at 64 bits.
+const PHASH_SIZE: PHashSize = 8;
+const PHASH_BITS = PHASH_SIZE * PHASH_SIZE;
+
+// Maximum pHash distance for two photos to be considered a match: the furthest a
+// pair can be and still pass validation (19 of 64 bits), scaled to PHASH_BITS
+const MATCH_THRESHOLD = getMaxMatchDistance(PHASH_BITS);
+
+// Second algorithm that must also agree before two photos are grouped,
+// cutting false positives at the pHash threshold. Set to null to match on pHash alone.
+const CONFIRMATION_HASH: { algorithm: HashAlgorithmName; threshold: number } | null = {
+  algorithm: 'dhash',
+  threshold: 16,
+};
+
+// Also match rotated and mirrored copies using the minimum distance across orientations
+const MATCH_ROTATED_COPIES = true;
+
+// Also look for cropped copies using pHashes of overlapping tiles. Costs an extra
+// REGION_TILES.length hashes per photo and a much larger index, so it is off by default.
+// Tiles are 64-bit pHashes compared with whole-image pHashes, so this needs PHASH_SIZE 8.
+const MATCH_CROPPED_COPIES = false;
+
+// Maximum tile distance for a crop match (64-bit tiles); tighter than MATCH_THRESHOLD
+// since small tiles of unrelated photos agree more often than whole images
+const CROP_MATCH_THRESHOLD = 10;
+
+// How match edges are grouped: 'complete' only groups photos that all match each
+// other, 'single' also groups chains (A~B, B~C) that can drift far apart
+const CLUSTER_LINKAGE: ClusterLinkage = 'complete';
+
+// Minimum time between match list refreshes while a scan is running
+const MATCH_REFRESH_INTERVAL_MS = 1000;
+
+const SCAN_ALGORITHMS: HashAlgorithmName[] = CONFIRMATION_HASH
+  ? ['phash', CONFIRMATION_HASH.algorithm]
+  : ['phash'];
+
 interface Photo {
   id: string;
   uri: string;
@@ -34,10 +103,14 @@ interface Photo {
   creationTime: number;
   width: number;
   height: number;
+  modificationTime?: number;
 }
 
 interface PhotoWithHash extends Photo {
   pHash?: string;
+  hashes?: HashSet;
+  orientationHashes?: OrientationHashSet;
+  regionHashes?: string[];
 }
 
 interface MatchResult {
@@ -50,6 +123,10 @@ interface MatchResult {
   };
   status: 'pending' | 'approved' | 'rejected';
   hammingDistance: number;
+  // Pairwise distances and medoid of the group
+  metrics?: MatchMetrics;
+  matchType?: 'similar' | 'cropped' | 'exact';
+  sessionId?: string;
 }
 
 interface MatchGroup {
@@ -76,6 +153,13 @@ export default function GalleryTab() {
   const [loadingPhotos, setLoadingPhotos] = useState(false);
   const [showMatchResults, setShowMatchResults] = useState(false);
   const [processingPaused, setProcessingPaused] = useState(false);
+  const [timeWindowStrategy, setTimeWindowStrategy] = useState<TimeWindowStrategy>(DEFAULT_TIME_WINDOW_STRATEGY);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [pendingRemovalCount, setPendingRemovalCount] = useState(0);
+  const [showPendingRemoval, setShowPendingRemoval] = useState(false);
+  const [showAutoClean, setShowAutoClean] = useState(false);
+  // An auto-clean job was cut short and can be resumed
+  const [hasAutoCleanJob, setHasAutoCleanJob] = useState(false);
   
   // View counter state
   const [viewCounterState, setViewCounterState] = useState<ViewCounterState | null>(null);
@@ -85,21 +169,79 @@ export default function GalleryTab() {
   // Processing control refs
   const processingCancelledRef = useRef(false);
   const processingPausedRef = useRef(false);
+  const scanInProgressRef = useRef(false);
+  const scanAbortControllerRef = useRef<AbortController | null>(null);
+
+  // Matching state kept across scans so library changes can be applied incrementally
+  const hashIndexRef = useRef(new HashIndex<PhotoWithHash>());
+  // Tile hashes keyed `${photoId}#${tileIndex}`, only filled when MATCH_CROPPED_COPIES is on
+  const regionIndexRef = useRef(new HashIndex<PhotoWithHash>());
+  // Byte-identical photos by content digest; the first photo of each group is the one matched perceptually
+  const digestGroupsRef = useRef(new Map<string, PhotoWithHash[]>());
+  // Pairs under the match threshold; match groups are the clusters of these graphs
+  const similarGraphRef = useRef(new MatchGraph());
+  const cropGraphRef = useRef(new MatchGraph());
+  const photosByIdRef = useRef(new Map<string, PhotoWithHash>());
+  const pendingDeltasRef = useRef<LibraryDelta[]>([]);
+  // Latest delta handler for the library subscription, which outlives renders
+  const libraryDeltaHandlerRef = useRef<(delta: LibraryDelta) => void>(() => {});
+  const timeWindowStrategyRef = useRef<TimeWindowStrategy>(DEFAULT_TIME_WINDOW_STRATEGY);
+  const timeWindowResolverRef = useRef(createTimeWindowResolver(DEFAULT_TIME_WINDOW_STRATEGY, []));
+
+  const sessionSummaries = useMemo(
+    () => countSessionDuplicates(sessions, matchResults),
+    [sessions, matchResults]
+  );
 
   useEffect(() => {
     initializeApp();
+
+    return () => {
+      processingCancelledRef.current = true;
+      scanAbortControllerRef.current?.abort();
+    };
+  }, []);
+
+  useEffect(() => {
+    libraryDeltaHandlerRef.current = handleLibraryDelta;
+  });
+
+  useEffect(() => {
+    if (Platform.OS === 'web' || !hasPermission) return;
+    return librarySync.subscribe(delta => libraryDeltaHandlerRef.current(delta));
+  }, [hasPermission]);
+
+  useEffect(() => {
+    // Every later flush fails the same way, so tell the user once
+    let warned = false;
+    return hashCache.subscribeToSaveErrors(() => {
+      if (warned) return;
+      warned = true;
+      Alert.alert(
+        'Could Not Save Scan Progress',
+        'Your device storage is full, so photos will be analyzed again on the next scan. Free up some space to keep scan results.'
+      );
+    });
   }, []);
 
   const initializeApp = async () => {
     try {
-      // Initialize view counter and user profile
-      const [counterState, userProfile] = await Promise.all([
+      // Initialize view counter and user profile; review decisions and exclusion
+      // rules must be loaded before the first scan
+      const [counterState, userProfile, settings, autoCleanJob] = await Promise.all([
         viewCounter.getCurrentState(),
         userProfileManager.getCurrentProfile(),
+        matchingSettings.getCurrentSettings(),
+        autoCleanJobs.getCurrentJob(),
+        reviewDecisions.getCurrentDecisions(),
+        exclusionRules.getCurrentRules(),
       ]);
       
       setViewCounterState(counterState);
+      setHasAutoCleanJob(!!autoCleanJob);
       setIsPaidAccount(userProfile.isPaidAccount);
+      setTimeWindowStrategy(settings.timeWindowStrategy);
+      timeWindowStrategyRef.current = settings.timeWindowStrategy;
 
       // Request photo permissions and load photos
       await requestPermission();
@@ -120,12 +262,32 @@ export default function GalleryTab() {
     setHasPermission(status === 'granted');
     
     if (status === 'granted') {
+      await preparePendingRemoval();
       loadAllPhotos();
     } else {
       setLoading(false);
     }
   };
 
+  /**
+   * Sync the manifest with the "Pending removal" album and delete the photos whose
+   * retention period ran out, before the library is listed
+   */
+  const preparePendingRemoval = async () => {
+    try {
+      await pendingRemoval.reconcile();
+      await pendingRemoval.purgeExpired();
+    } catch (error) {
+      console.error('Error purging pending removals:', error);
+    }
+    await refreshPendingRemovalCount();
+  };
+
+  const refreshPendingRemovalCount = async () => {
+    const { entries } = await pendingRemoval.getCurrentState();
+    setPendingRemovalCount(entries.length);
+  };
+
   const handlePurchase = async (plan: 'monthly' | 'yearly' | 'lifetime') => {
     try {
       // Simulate purchase process
@@ -199,40 +361,12 @@ export default function GalleryTab() {
     setLoading(true);
     
     try {
-      let allAssets: MediaLibrary.Asset[] = [];
-      let hasNextPage = true;
-      let endCursor: string | undefined;
-      let loadedCount = 0;
-
-      while (hasNextPage) {
-        const result = await MediaLibrary.getAssetsAsync({
-          mediaType: 'photo',
-          first: 1000,
-          sortBy: 'creationTime',
-          after: endCursor,
-        });
-
-        allAssets = [...allAssets, ...result.assets];
-        loadedCount += result.assets.length;
-        
+      const photoData: PhotoWithHash[] = await librarySync.loadAllPhotos((loadedCount) => {
         setTotalCount(loadedCount);
-        
-        hasNextPage = result.hasNextPage;
-        endCursor = result.endCursor;
-
         console.log(`Loaded ${loadedCount} photos...`);
-      }
-
-      console.log(`Total photos loaded: ${allAssets.length}`);
+      });
 
-      const photoData: PhotoWithHash[] = allAssets.map((asset) => ({
-        id: asset.id,
-        uri: asset.uri,
-        filename: asset.filename,
-        creationTime: asset.creationTime,
-        width: asset.width,
-        height: asset.height,
-      }));
+      console.log(`Total photos loaded: ${photoData.length}`);
 
       setAllPhotos(photoData);
       setTotalCount(photoData.length);
@@ -254,12 +388,33 @@ export default function GalleryTab() {
     setMatchResults([]);
     processingCancelledRef.current = false;
     processingPausedRef.current = false;
+    scanInProgressRef.current = true;
+    scanAbortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    scanAbortControllerRef.current = abortController;
     
     try {
-      const sortedPhotos = [...photos].sort((a, b) => b.creationTime - a.creationTime);
+      // Photos in excluded albums are not hashed or matched. Photos kept forever
+      // are, so their near-duplicates still show up; they are just never removed.
+      if (Platform.OS !== 'web') {
+        await exclusionRules.refreshExcludedAlbumPhotos();
+      }
+      const sortedPhotos = photos
+        .filter(photo => !exclusionRules.isExcluded(photo.id))
+        .sort((a, b) => b.creationTime - a.creationTime);
       const photosWithHashes: PhotoWithHash[] = [];
-      const rawMatches: MatchResult[] = [];
       const batchSize = 5;
+      let lastPublishedAt = 0;
+
+      const timelinePhotos = await resolveSessionLocations(photos, getOrReadLocation);
+      timeWindowResolverRef.current = createTimeWindowResolver(timeWindowStrategyRef.current, timelinePhotos);
+      setSessions(segmentSessions(timelinePhotos));
+      hashIndexRef.current.clear();
+      regionIndexRef.current.clear();
+      digestGroupsRef.current.clear();
+      similarGraphRef.current.clear();
+      cropGraphRef.current.clear();
+      photosByIdRef.current.clear();
       
       // Process photos in batches and calculate hashes
       for (let i = 0; i < sortedPhotos.length; i += batchSize) {
@@ -271,13 +426,23 @@ export default function GalleryTab() {
         }
         
         const batch = sortedPhotos.slice(i, i + batchSize);
+
+        // Exact copies are grouped by content digest and skip perceptual matching
+        const uniqueBatch = await separateExactDuplicates(batch, abortController.signal);
         
-        const batchPromises = batch.map(async (photo) => {
+        const batchPromises = uniqueBatch.map(async (photo) => {
           try {
-            const hash = await calculatePHash(photo.uri);
-            return { ...photo, pHash: hash };
+            const { hashes, orientations, regions } = await getOrCalculateHashes(photo, SCAN_ALGORITHMS, {
+              signal: abortController.signal,
+              includeOrientations: MATCH_ROTATED_COPIES,
+              includeRegions: MATCH_CROPPED_COPIES,
+              hashSize: PHASH_SIZE,
+            });
+            return { ...photo, pHash: hashes.phash, hashes, orientationHashes: orientations, regionHashes: regions };
           } catch (error) {
-            console.error(`Failed to calculate hash for ${photo.filename}:`, error);
+            if (!abortController.signal.aborted) {
+              console.error(`Failed to calculate hash for ${photo.filename}:`, error);
+            }
             return photo;
           }
         });
@@ -285,96 +450,429 @@ export default function GalleryTab() {
         const batchResults = await Promise.all(batchPromises);
         photosWithHashes.push(...batchResults);
         
-        setProcessedCount(photosWithHashes.length);
+        setProcessedCount(i + batch.length);
         
         // Check for matches in real-time as we process
-        await findMatchesInBatch(photosWithHashes, batchResults, rawMatches);
+        addToHashIndex(batchResults);
+        findMatchesInBatch(batchResults);
+
+        if (Date.now() - lastPublishedAt >= MATCH_REFRESH_INTERVAL_MS) {
+          publishMatches();
+          lastPublishedAt = Date.now();
+        }
       }
 
+      // Persist newly calculated hashes so the next scan only hashes new or edited photos
+      await hashCache.flush();
+
+      const hashesById = new Map(photosWithHashes.map(p => [p.id, p.pHash]));
+      setAllPhotos(prev => prev.map(p => ({ ...p, pHash: hashesById.get(p.id) ?? p.pHash })));
+
       if (!processingCancelledRef.current) {
-        // Apply enhanced deduplication to remove subsets and reciprocals
-        console.log(`Raw matches found: ${rawMatches.length}`);
-        const deduplicatedMatches = processMatchesWithDeduplication(rawMatches);
-        console.log(`Deduplicated matches: ${deduplicatedMatches.length}`);
-        
-        setMatchResults(deduplicatedMatches);
+        if (Platform.OS !== 'web') {
+          await hashCache.prune(new Set(photos.map(p => p.id)));
+        }
+
+        console.log(`Match edges found: ${similarGraphRef.current.edgeCount + cropGraphRef.current.edgeCount}`);
+        const matches = buildMatches();
+        setMatchResults(matches);
         
-        // Final processing - create match groups from deduplicated results
-        const groups = createMatchGroupsFromResults(deduplicatedMatches);
+        // Final processing - create match groups from clustered results
+        const groups = createMatchGroupsFromResults(matches);
         setMatchGroups(groups);
         setCurrentGroupIndex(0);
         
-        console.log(`Final unique matches: ${deduplicatedMatches.length} from ${photosWithHashes.length} photos`);
+        console.log(`Final unique matches: ${matches.length} from ${photosWithHashes.length} photos`);
       }
     } catch (error) {
       console.error('Error finding matching groups:', error);
       Alert.alert('Error', 'Failed to process photo matches');
     } finally {
+      scanInProgressRef.current = false;
       setProcessingMatches(false);
     }
+
+    // Apply library changes that arrived while the scan was running
+    const pendingDeltas = pendingDeltasRef.current;
+    pendingDeltasRef.current = [];
+    for (const delta of pendingDeltas) {
+      await applyLibraryDelta(delta);
+    }
   };
 
-  const findMatchesInBatch = async (
-    allProcessedPhotos: PhotoWithHash[], 
-    newBatch: PhotoWithHash[], 
-    rawMatches: MatchResult[]
-  ) => {
+  const handleLibraryDelta = (delta: LibraryDelta) => {
+    if (scanInProgressRef.current) {
+      pendingDeltasRef.current.push(delta);
+      return;
+    }
+    applyLibraryDelta(delta);
+  };
+
+  /**
+   * Hash and match only the photos that changed instead of rescanning the library
+   */
+  const applyLibraryDelta = async (delta: LibraryDelta) => {
+    const changedPhotos: PhotoWithHash[] = [...delta.updated, ...delta.inserted];
+    const removedIds = new Set([...delta.deleted, ...delta.updated.map(p => p.id)]);
+
+    hashCache.remove(delta.deleted);
+    // Photos in pending removal can still be restored, so their decisions are kept until purged
+    reviewDecisions.forgetPhotos(delta.deleted.filter(photoId => !pendingRemoval.isHidden({ id: photoId })));
+    setAllPhotos(prev => [...prev.filter(p => !removedIds.has(p.id)), ...changedPhotos]);
+    setTotalCount(prev => prev + delta.inserted.length - delta.deleted.length);
+    removePhotosFromMatches(removedIds);
+    const promotedPhotos = removeFromDigestGroups(removedIds);
+    setMatchGroups(prev =>
+      prev.map(group => ({
+        ...group,
+        photos: group.photos.filter(p => !removedIds.has(p.id))
+      })).filter(group => group.photos.length > 1)
+    );
+
+    if (changedPhotos.length === 0 && promotedPhotos.length === 0) {
+      publishMatches();
+      return;
+    }
+
+    try {
+      // Session and library windows depend on the whole timeline, which just changed
+      const knownPhotos = await resolveSessionLocations(librarySync.getKnownPhotos(), getOrReadLocation);
+      timeWindowResolverRef.current = createTimeWindowResolver(timeWindowStrategyRef.current, knownPhotos);
+      setSessions(segmentSessions(knownPhotos));
+
+      // New photos may have been added straight to an excluded album
+      if (delta.inserted.length > 0) {
+        await exclusionRules.refreshExcludedAlbumPhotos();
+      }
+      const uniquePhotos = [
+        ...promotedPhotos,
+        ...await separateExactDuplicates(changedPhotos.filter(photo => !exclusionRules.isExcluded(photo.id))),
+      ];
+      const hashedPhotos = await Promise.all(uniquePhotos.map(async (photo) => {
+        try {
+          const { hashes, orientations, regions } = await getOrCalculateHashes(photo, SCAN_ALGORITHMS, {
+            includeOrientations: MATCH_ROTATED_COPIES,
+            includeRegions: MATCH_CROPPED_COPIES,
+            hashSize: PHASH_SIZE,
+          });
+          return { ...photo, pHash: hashes.phash, hashes, orientationHashes: orientations, regionHashes: regions };
+        } catch (error) {
+          console.error(`Failed to calculate hash for ${photo.filename}:`, error);
+          return photo;
+        }
+      }));
+      await hashCache.flush();
+
+      const hashesById = new Map(hashedPhotos.map(p => [p.id, p.pHash]));
+      setAllPhotos(prev => prev.map(p => ({ ...p, pHash: hashesById.get(p.id) ?? p.pHash })));
+
+      addToHashIndex(hashedPhotos);
+      findMatchesInBatch(hashedPhotos);
+      publishMatches();
+    } catch (error) {
+      console.error('Error applying library changes:', error);
+    }
+  };
+
+  const removePhotosFromMatches = (photoIds: Set<string>) => {
+    photoIds.forEach(photoId => {
+      hashIndexRef.current.remove(photoId);
+      REGION_TILES.forEach((_, tileIndex) => regionIndexRef.current.remove(`${photoId}#${tileIndex}`));
+      photosByIdRef.current.delete(photoId);
+    });
+    similarGraphRef.current.removePhotos(photoIds);
+    cropGraphRef.current.removePhotos(photoIds);
+  };
+
+  /**
+   * Group byte-identical photos by content digest as certain "exact" matches.
+   * Returns the photos that still need perceptual matching: the first copy of
+   * each digest, plus any photo whose file could not be read.
+   */
+  const separateExactDuplicates = async (
+    photos: PhotoWithHash[],
+    signal?: AbortSignal
+  ): Promise<PhotoWithHash[]> => {
+    const digests = await Promise.all(photos.map(async (photo) => {
+      try {
+        return await getOrCalculateDigest(photo, { signal });
+      } catch (error) {
+        if (!signal?.aborted) {
+          console.error(`Failed to calculate digest for ${photo.filename}:`, error);
+        }
+        return null;
+      }
+    }));
+
+    const remainingPhotos: PhotoWithHash[] = [];
+    photos.forEach((photo, i) => {
+      const digest = digests[i];
+      if (!digest) {
+        remainingPhotos.push(photo);
+        return;
+      }
+
+      const group = digestGroupsRef.current.get(digest);
+      if (group) {
+        group.push(photo);
+      } else {
+        digestGroupsRef.current.set(digest, [photo]);
+        remainingPhotos.push(photo);
+      }
+    });
+
+    return remainingPhotos;
+  };
+
+  const createExactMatch = (digest: string, group: PhotoWithHash[]): MatchResult => {
+    const photos = [...group].sort((a, b) => a.creationTime - b.creationTime);
+    return {
+      id: `exact-${digest}`,
+      photos,
+      confidence: 100,
+      timeWindow: {
+        start: photos[0].creationTime,
+        end: photos[photos.length - 1].creationTime,
+      },
+      status: 'pending',
+      hammingDistance: 0,
+      metrics: computeMatchMetrics(photos.map(photo => photo.id), () => 0),
+      matchType: 'exact',
+    };
+  };
+
+  /**
+   * Distance between two photos of a cluster: the edge distance when the graph has
+   * one, otherwise measured from their hashes (pairs chained by single linkage)
+   */
+  const getPairDistance = (
+    graph: MatchGraph,
+    matchType: 'similar' | 'cropped',
+    photoA: PhotoWithHash,
+    photoB: PhotoWithHash
+  ): number => {
+    const edgeDistance = graph.getDistance(photoA.id, photoB.id);
+    if (edgeDistance !== undefined) return edgeDistance;
+
+    if (matchType === 'cropped' && photoA.regionHashes && photoB.regionHashes) {
+      const regionalMatch = compareRegionalHashes(
+        { hash: photoA.pHash!, regions: photoA.regionHashes },
+        { hash: photoB.pHash!, regions: photoB.regionHashes },
+        Infinity
+      );
+      if (regionalMatch) return regionalMatch.distance;
+    }
+    return minOrientationDistance(photoA.pHash!, photoB.pHash!, photoB.orientationHashes?.phash);
+  };
+
+  /**
+   * One match per cluster of the graph. Ids come from the cluster, so a group
+   * keeps its id (and review status) when unrelated photos change.
+   */
+  const createClusterMatches = (graph: MatchGraph, matchType: 'similar' | 'cropped'): MatchResult[] => {
+    const idPrefix = matchType === 'cropped' ? 'crop' : 'match';
+    // Crop distances are between 64-bit tile hashes
+    const bits = matchType === 'cropped' ? REFERENCE_HASH_BITS : PHASH_BITS;
+
+    const clusters = graph.getClusters({
+      linkage: CLUSTER_LINKAGE,
+      canLink: (photoIdA, photoIdB) => exclusionRules.canMatch(photoIdA, photoIdB),
+    });
+
+    return clusters.flatMap(cluster => {
+      const photos = cluster.photoIds
+        .map(id => photosByIdRef.current.get(id))
+        .filter((photo): photo is PhotoWithHash => !!photo)
+        .sort((a, b) => a.creationTime - b.creationTime);
+      if (photos.length < 2) return [];
+
+      // Every pair, not just the edges that formed the cluster
+      const metrics = computeMatchMetrics(
+        photos.map(photo => photo.id),
+        (i, j) => getPairDistance(graph, matchType, photos[i], photos[j]),
+        bits
+      );
+      const matchWindow = timeWindowResolverRef.current.getWindow(photos[0]);
+      return [{
+        id: `${idPrefix}-${cluster.id}`,
+        photos,
+        confidence: getSimilarityScore(metrics.meanDistance, bits),
+        timeWindow: {
+          start: Math.min(matchWindow.start, photos[0].creationTime),
+          end: Math.max(matchWindow.end, photos[photos.length - 1].creationTime),
+        },
+        status: 'pending' as const,
+        hammingDistance: metrics.meanDistance,
+        metrics,
+        matchType,
+        sessionId: matchWindow.sessionId,
+      }];
+    });
+  };
+
+  /**
+   * Exact digest groups plus the clusters of the similar and cropped match graphs.
+   * Clusters never overlap within a graph, so only validation is still needed.
+   * Groups the user rejected before are left out; approved ones come back approved.
+   * Exclusion rules are applied again since they may have changed since the edges were added.
+   */
+  const buildMatches = (): MatchResult[] => {
+    const matches: MatchResult[] = [];
+    digestGroupsRef.current.forEach((group, digest) => {
+      if (group.length > 1) {
+        matches.push(createExactMatch(digest, group));
+      }
+    });
+    matches.push(
+      ...createClusterMatches(similarGraphRef.current, 'similar'),
+      ...createClusterMatches(cropGraphRef.current, 'cropped')
+    );
+
+    const validMatches = MatchDeduplicator.validateAndCleanMatches(
+      MatchDeduplicator.applyExclusions(matches, exclusionRules),
+      timeWindowResolverRef.current.maxMatchSpan
+    );
+    return reviewDecisions.applyDecisions(validMatches)
+      .sort((a, b) => b.confidence - a.confidence || a.id.localeCompare(b.id));
+  };
+
+  /**
+   * Drop removed photos from their digest groups. When a group loses the copy
+   * that was matched perceptually, the next copy is returned so it can take its place.
+   */
+  const removeFromDigestGroups = (photoIds: Set<string>): PhotoWithHash[] => {
+    const promotedPhotos: PhotoWithHash[] = [];
+
+    digestGroupsRef.current.forEach((group, digest) => {
+      const remaining = group.filter(p => !photoIds.has(p.id));
+      if (remaining.length === group.length) return;
+
+      if (remaining.length === 0) {
+        digestGroupsRef.current.delete(digest);
+        return;
+      }
+      if (photoIds.has(group[0].id)) {
+        promotedPhotos.push(remaining[0]);
+      }
+      digestGroupsRef.current.set(digest, remaining);
+    });
+
+    return promotedPhotos;
+  };
+
+  /**
+   * Recompute match groups; review status comes from the stored decisions
+   */
+  const publishMatches = () => {
+    setMatchResults(buildMatches());
+  };
+
+  const addToHashIndex = (photos: PhotoWithHash[]) => {
+    for (const photo of photos) {
+      photosByIdRef.current.set(photo.id, photo);
+      if (photo.pHash) {
+        hashIndexRef.current.insert(photo.id, photo.pHash, photo);
+      }
+      photo.regionHashes?.forEach((tileHash, tileIndex) => {
+        regionIndexRef.current.insert(`${photo.id}#${tileIndex}`, tileHash, photo);
+      });
+    }
+  };
+
+  /**
+   * Add an edge for every pair the new photos form under the match threshold
+   * within their time window; groups are formed later by clustering the graph
+   */
+  const findMatchesInBatch = (newBatch: PhotoWithHash[]) => {
     for (const newPhoto of newBatch) {
       if (!newPhoto.pHash || processingCancelledRef.current) continue;
       
-      const timeWindow = {
-        start: newPhoto.creationTime - 15 * 60 * 1000,
-        end: newPhoto.creationTime + 15 * 60 * 1000,
-      };
-      
-      const matchingPhotos: PhotoWithHash[] = [newPhoto];
-      let totalDistance = 0;
-      let validComparisons = 0;
+      const matchWindow = timeWindowResolverRef.current.getWindow(newPhoto);
+      const matchedIds = new Set<string>();
       
-      // Find photos within time window with similar hashes
-      for (const otherPhoto of allProcessedPhotos) {
-        if (otherPhoto.id === newPhoto.id || !otherPhoto.pHash) continue;
+      // Find photos with similar hashes, then keep those within the same time window or session
+      try {
+        // Probe with every orientation of the new photo; the index holds upright hashes
+        const probeHashes = [newPhoto.pHash, ...(newPhoto.orientationHashes?.phash ?? [])];
+        const candidates = hashIndexRef.current.queryAnyWithinDistance(probeHashes, MATCH_THRESHOLD);
         
-        if (otherPhoto.creationTime >= timeWindow.start && 
-            otherPhoto.creationTime <= timeWindow.end) {
+        for (const { id, value: otherPhoto, distance, variant } of candidates) {
+          if (id === newPhoto.id || !exclusionRules.canMatch(newPhoto.id, id)) continue;
           
-          try {
-            const distance = await calculateHammingDistance(newPhoto.pHash, otherPhoto.pHash);
-            
-            if (distance <= 20) { // Updated threshold to 20
-              matchingPhotos.push(otherPhoto);
-              totalDistance += distance;
-              validComparisons++;
-            }
-          } catch (error) {
-            console.error('Error calculating Hamming distance:', error);
+          if (timeWindowResolverRef.current.isInWindow(matchWindow, otherPhoto) &&
+              (variant !== 0 || confirmationHashAgrees(newPhoto, otherPhoto))) {
+            similarGraphRef.current.addEdge(newPhoto.id, otherPhoto.id, distance);
+            matchedIds.add(otherPhoto.id);
           }
         }
+      } catch (error) {
+        console.error('Error querying hash index:', error);
       }
-      
-      // Create match result if we found similar photos
-      if (matchingPhotos.length > 1) {
-        const averageDistance = validComparisons > 0 ? totalDistance / validComparisons : 0;
-        const confidence = Math.max(0, 100 - (averageDistance * 3));
-        
-        const matchResult: MatchResult = {
-          id: `match-${newPhoto.id}-${Date.now()}`,
-          photos: matchingPhotos.sort((a, b) => a.creationTime - b.creationTime),
-          confidence,
-          timeWindow,
-          status: 'pending',
-          hammingDistance: averageDistance,
-        };
-        
-        rawMatches.push(matchResult);
-        
-        // Update UI with deduplicated matches in real-time
-        const currentDeduplicatedMatches = processMatchesWithDeduplication([...rawMatches]);
-        setMatchResults(currentDeduplicatedMatches);
+
+      if (MATCH_CROPPED_COPIES) {
+        findCroppedCopies(newPhoto, matchedIds, matchWindow);
+      }
+    }
+  };
+
+  /**
+   * Add crop edges between the new photo and photos that are crops of it (or
+   * that it is a crop of), skipping photos it already matched
+   */
+  const findCroppedCopies = (
+    newPhoto: PhotoWithHash,
+    matchedIds: Set<string>,
+    matchWindow: TimeWindow
+  ) => {
+    if (!newPhoto.pHash || !newPhoto.regionHashes) return;
+
+    try {
+      // Candidates: the new photo inside another photo's tile, tile-to-tile overlap,
+      // or another photo inside one of the new photo's tiles
+      const candidates = new Map<string, PhotoWithHash>();
+      const tileMatches = regionIndexRef.current.queryAnyWithinDistance(
+        [newPhoto.pHash, ...newPhoto.regionHashes],
+        CROP_MATCH_THRESHOLD
+      );
+      const wholeMatches = hashIndexRef.current.queryAnyWithinDistance(newPhoto.regionHashes, CROP_MATCH_THRESHOLD);
+      for (const { value } of [...tileMatches, ...wholeMatches]) {
+        candidates.set(value.id, value);
+      }
+
+      for (const otherPhoto of candidates.values()) {
+        if (otherPhoto.id === newPhoto.id || matchedIds.has(otherPhoto.id)) continue;
+        if (!exclusionRules.canMatch(newPhoto.id, otherPhoto.id)) continue;
+        if (!otherPhoto.pHash || !otherPhoto.regionHashes) continue;
+        if (!timeWindowResolverRef.current.isInWindow(matchWindow, otherPhoto)) continue;
+
+        const regionalMatch = compareRegionalHashes(
+          { hash: newPhoto.pHash, regions: newPhoto.regionHashes },
+          { hash: otherPhoto.pHash, regions: otherPhoto.regionHashes },
+          CROP_MATCH_THRESHOLD
+        );
+        if (regionalMatch) {
+          cropGraphRef.current.addEdge(newPhoto.id, otherPhoto.id, regionalMatch.distance);
+        }
       }
+    } catch (error) {
+      console.error('Error querying region index:', error);
     }
   };
 
+  /**
+   * Require the confirmation algorithm to agree when both photos have its hash.
+   * Only applied to upright matches since the confirmation hash may not be rotation-aware.
+   */
+  const confirmationHashAgrees = (photoA: PhotoWithHash, photoB: PhotoWithHash): boolean => {
+    if (!CONFIRMATION_HASH) return true;
+
+    const hashA = photoA.hashes?.[CONFIRMATION_HASH.algorithm];
+    const hashB = photoB.hashes?.[CONFIRMATION_HASH.algorithm];
+    if (!hashA || !hashB) return true;
+
+    return hammingDistance(hashA, hashB) <= CONFIRMATION_HASH.threshold;
+  };
+
   const createMatchGroupsFromResults = (matches: MatchResult[]): MatchGroup[] => {
     const approvedMatches = matches.filter(m => m.status === 'approved');
     
@@ -390,46 +888,95 @@ export default function GalleryTab() {
     setSelectedPhoto(photo);
   };
 
-  const handlePhotoDeleted = async (photoId: string) => {
+  const handlePhotoDeleted = (photoId: string) => {
+    handlePhotosDeleted([photoId]);
+  };
+
+  const handlePhotosDeleted = (photoIds: string[]) => {
+    const deleted = new Set(photoIds);
+
     // Update local state immediately
-    setAllPhotos(prev => prev.filter(p => p.id !== photoId));
+    setAllPhotos(prev => prev.filter(p => !deleted.has(p.id)));
     setMatchGroups(prev => 
       prev.map(group => ({
         ...group,
-        photos: group.photos.filter(p => p.id !== photoId)
+        photos: group.photos.filter(p => !deleted.has(p.id))
       })).filter(group => group.photos.length > 1)
     );
     setMatchResults(prev =>
       prev.map(match => ({
         ...match,
-        photos: match.photos.filter(p => p.id !== photoId)
+        photos: match.photos.filter(p => !deleted.has(p.id))
       })).filter(match => match.photos.length > 1)
     );
 
-    // Reload photos from device to ensure sync
-    if (Platform.OS !== 'web') {
-      try {
-        await loadAllPhotos();
-      } catch (error) {
-        console.error('Error reloading photos after deletion:', error);
-      }
-    }
+    // Apply the deletion as a library delta; the change event it triggers is then a no-op
+    librarySync.forget(photoIds);
+    handleLibraryDelta({ inserted: [], updated: [], deleted: photoIds });
+    refreshPendingRemovalCount();
   };
 
-  const handleApproveMatch = (matchId: string) => {
+  const handleAutoCleanClose = async () => {
+    setShowAutoClean(false);
+    setHasAutoCleanJob(!!(await autoCleanJobs.getCurrentJob()));
+  };
+
+  /**
+   * Photos put back from pending removal raise no change event of their own on iOS,
+   * so look for them in the library
+   */
+  const handlePhotosRestored = () => {
+    librarySync.refresh();
+    refreshPendingRemovalCount();
+  };
+
+  /**
+   * Set a match's status and remember it for the same photos in later scans
+   */
+  const reviewMatch = (matchId: string, status: ReviewStatus) => {
+    const reviewed = matchResults.find(match => match.id === matchId);
+    if (reviewed) {
+      reviewDecisions.setDecision(reviewed.photos.map(photo => photo.id), status);
+    }
+
     setMatchResults(prev =>
       prev.map(match =>
-        match.id === matchId ? { ...match, status: 'approved' as const } : match
+        match.id === matchId ? { ...match, status } : match
       )
     );
   };
 
+  const handleApproveMatch = (matchId: string) => {
+    reviewMatch(matchId, 'approved');
+  };
+
   const handleRejectMatch = (matchId: string) => {
-    setMatchResults(prev =>
-      prev.map(match =>
-        match.id === matchId ? { ...match, status: 'rejected' as const } : match
-      )
+    reviewMatch(matchId, 'rejected');
+  };
+
+  /**
+   * Rebuild matches after the user added an exclusion rule, without rescanning
+   */
+  const handleExclusionsChanged = async () => {
+    if (Platform.OS !== 'web') {
+      await exclusionRules.refreshExcludedAlbumPhotos();
+    }
+    setMatchGroups(prev =>
+      prev.map(group => ({
+        ...group,
+        photos: group.photos.filter(p => !exclusionRules.isExcluded(p.id))
+      })).filter(group => group.photos.length > 1)
     );
+    publishMatches();
+  };
+
+  const handleTimeWindowStrategyChange = async (strategy: TimeWindowStrategy) => {
+    setTimeWindowStrategy(strategy);
+    timeWindowStrategyRef.current = strategy;
+    await matchingSettings.setTimeWindowStrategy(strategy);
+
+    // Hashes are cached, so rescanning with the new windows is cheap
+    await findMatchingGroupsWithRealTimeResults(allPhotos);
   };
 
   const handlePauseProcessing = () => {
@@ -594,6 +1141,28 @@ export default function GalleryTab() {
             </Text>
           </TouchableOpacity>
 
+          {(matchResults.length > 0 || hasAutoCleanJob) && (
+            <TouchableOpacity
+              style={styles.autoCleanButton}
+              onPress={() => setShowAutoClean(true)}
+              activeOpacity={0.8}
+            >
+              <Sparkles size={16} color="#7c3aed" />
+              <Text style={styles.autoCleanButtonText}>{hasAutoCleanJob ? 'Resume' : 'Auto'}</Text>
+            </TouchableOpacity>
+          )}
+
+          {pendingRemovalCount > 0 && (
+            <TouchableOpacity
+              style={styles.pendingRemovalButton}
+              onPress={() => setShowPendingRemoval(true)}
+              activeOpacity={0.8}
+            >
+              <Trash2 size={16} color="#dc2626" />
+              <Text style={styles.pendingRemovalButtonText}>{pendingRemovalCount}</Text>
+            </TouchableOpacity>
+          )}
+
           {processingMatches && (
             <TouchableOpacity
               style={[styles.pauseResumeButton, processingPaused && styles.resumeButton]}
@@ -612,6 +1181,12 @@ export default function GalleryTab() {
           )}
         </View>
 
+        <TimeWindowStrategyPicker
+          value={timeWindowStrategy}
+          onChange={handleTimeWindowStrategyChange}
+          disabled={processingMatches}
+        />
+
         <View style={styles.progressSection}>
           <View style={styles.progressInfo}>
             <Text style={styles.progressText}>
@@ -633,6 +1208,8 @@ export default function GalleryTab() {
           </View>
         </View>
 
+        <SessionSummaryList sessions={sessionSummaries} />
+
         <View style={styles.centerContent}>
           {processingMatches && (
             <ActivityIndicator size="large" color="#3b82f6" />
@@ -644,7 +1221,7 @@ export default function GalleryTab() {
             }
           </Text>
           <Text style={styles.infoText}>
-            Advanced deduplication removes subsets and reciprocals
+            Photos are grouped only when every pair in the group matches
           </Text>
         </View>
 
@@ -660,11 +1237,26 @@ export default function GalleryTab() {
           onApproveMatch={handleApproveMatch}
           onRejectMatch={handleRejectMatch}
           onDeletePhoto={handlePhotoDeleted}
+          onPhotosRestored={handlePhotosRestored}
           onViewPhoto={handlePhotoSelect}
           onPauseProcessing={handlePauseProcessing}
           onResumeProcessing={handleResumeProcessing}
         />
 
+        <AutoCleanModal
+          visible={showAutoClean}
+          matches={matchResults}
+          onClose={handleAutoCleanClose}
+          onPhotosRemoved={handlePhotosDeleted}
+          onPhotosRestored={handlePhotosRestored}
+        />
+
+        <PendingRemovalModal
+          visible={showPendingRemoval}
+          onClose={() => setShowPendingRemoval(false)}
+          onChanged={handlePhotosRestored}
+        />
+
         {selectedPhoto && (
           <PhotoDetail
             photo={selectedPhoto}
@@ -672,6 +1264,9 @@ export default function GalleryTab() {
             onClose={() => setSelectedPhoto(null)}
             onPhotoSelect={handlePhotoSelect}
             onPhotoDeleted={handlePhotoDeleted}
+            onPhotosRestored={handlePhotosRestored}
+            onExclusionsChanged={handleExclusionsChanged}
+            hashSize={PHASH_SIZE}
           />
         )}
       </SafeAreaView>
@@ -695,10 +1290,14 @@ export default function GalleryTab() {
             )}
           </View>
         </View>
+        <TimeWindowStrategyPicker
+          value={timeWindowStrategy}
+          onChange={handleTimeWindowStrategyChange}
+        />
         <View style={styles.centerContent}>
           <Text style={styles.noMatchesTitle}>No Unique Matches Found</Text>
           <Text style={styles.noMatchesText}>
-            No photos with similar content were found within 30-minute time windows from your {totalCount} photos after removing duplicates and subsets.
+            No photos with similar content were found from your {totalCount} photos after removing duplicates and subsets. Currently matching {getTimeWindowStrategyInfo(timeWindowStrategy).description}.
           </Text>
           <TouchableOpacity 
             style={styles.retryButton} 
@@ -773,6 +1372,9 @@ export default function GalleryTab() {
           onClose={() => setSelectedPhoto(null)}
           onPhotoSelect={handlePhotoSelect}
           onPhotoDeleted={handlePhotoDeleted}
+          onPhotosRestored={handlePhotosRestored}
+          onExclusionsChanged={handleExclusionsChanged}
+          hashSize={PHASH_SIZE}
         />
       )}
     </SafeAreaView>
@@ -850,6 +1452,36 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  autoCleanButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#f5f3ff',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    gap: 6,
+  },
+  autoCleanButtonText: {
+    color: '#7c3aed',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  pendingRemovalButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fef2f2',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    gap: 6,
+  },
+  pendingRemovalButtonText: {
+    color: '#dc2626',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   pauseResumeButton: {
     flexDirection: 'row',
     alignItems: 'center',
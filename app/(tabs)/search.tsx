@@ -27,6 +27,7 @@ interface Photo {
   creationTime: number;
   width: number;
   height: number;
+  modificationTime?: number;
 }
 
 export default function SearchTab() {
@@ -130,6 +131,7 @@ export default function SearchTab() {
         creationTime: asset.creationTime,
         width: asset.width,
         height: asset.height,
+        modificationTime: asset.modificationTime,
       }));
 
       setAllPhotos(photoData);
@@ -0,0 +1,567 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  FlatList,
+  ActivityIndicator,
+  Dimensions,
+  Alert,
+  Platform,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { X, Sparkles, Pause, Play, Trash2 } from 'lucide-react-native';
+import {
+  AUTO_CLEAN_CONFIDENCE_OPTIONS,
+  AutoCleanJob,
+  AutoCleanMatch,
+  AutoCleanPlan,
+  autoCleanJobs,
+  buildAutoCleanPlan,
+  DEFAULT_AUTO_CLEAN_CONFIDENCE,
+  isAutoCleanEligible,
+} from '@/utils/autoClean';
+import { pendingRemoval, PENDING_REMOVAL_ALBUM } from '@/utils/pendingRemoval';
+
+const { width } = Dimensions.get('window');
+const numColumns = 3;
+const thumbnailSize = (width - 56) / numColumns;
+
+type AutoCleanStep = 'configure' | 'planning' | 'summary' | 'running';
+
+interface AutoCleanModalProps {
+  visible: boolean;
+  matches: AutoCleanMatch[];
+  onClose: () => void;
+  // Called after each batch with the ids of the photos it moved to pending removal
+  onPhotosRemoved: (photoIds: string[]) => void;
+  onPhotosRestored: () => void;
+}
+
+/**
+ * Bulk clean-up of high-confidence matches: keep the best shot of every group
+ * above a chosen confidence and remove the rest in one resumable job
+ */
+export function AutoCleanModal({ visible, matches, onClose, onPhotosRemoved, onPhotosRestored }: AutoCleanModalProps) {
+  const [step, setStep] = useState<AutoCleanStep>('configure');
+  const [minConfidence, setMinConfidence] = useState(DEFAULT_AUTO_CLEAN_CONFIDENCE);
+  const [plan, setPlan] = useState<AutoCleanPlan | null>(null);
+  const [job, setJob] = useState<AutoCleanJob | null>(null);
+  const [progress, setProgress] = useState({ processed: 0, total: 0 });
+  const [isRunning, setIsRunning] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    let cancelled = false;
+    autoCleanJobs.getCurrentJob().then(current => {
+      if (cancelled) return;
+      setJob(current);
+      if (current) {
+        // An unfinished job is picked up where it stopped
+        setProgress({ processed: current.processedCount, total: current.photos.length });
+        setStep('running');
+      } else if (!isRunning) {
+        setStep('configure');
+        setPlan(null);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, isRunning]);
+
+  const eligibleCount = matches.filter(match => isAutoCleanEligible(match, minConfidence)).length;
+  const manualCount = matches.filter(match => match.status !== 'rejected').length - eligibleCount;
+
+  const formatBytes = (bytes: number) => {
+    if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const handleBuildPlan = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setStep('planning');
+    setProgress({ processed: 0, total: eligibleCount });
+
+    try {
+      const newPlan = await buildAutoCleanPlan(matches, minConfidence, {
+        signal: controller.signal,
+        onProgress: (processed, total) => setProgress({ processed, total }),
+      });
+      setPlan(newPlan);
+      setStep('summary');
+    } catch (error) {
+      if (!(error instanceof Error && error.name === 'AbortError')) {
+        console.error('Error building auto-clean plan:', error);
+        Alert.alert('Auto-clean Failed', 'Could not pick the best shots. Please try again.');
+      }
+      setStep('configure');
+    } finally {
+      abortControllerRef.current = null;
+    }
+  };
+
+  const handleConfirmPlan = async () => {
+    if (!plan) return;
+
+    if (Platform.OS === 'web') {
+      Alert.alert(
+        'Delete Not Available',
+        'Photo deletion is not available on web platform. This feature requires native device access.'
+      );
+      return;
+    }
+
+    const { retentionDays } = await pendingRemoval.getCurrentState();
+    Alert.alert(
+      'Start Auto-clean',
+      `Move ${plan.photos.length} photo${plan.photos.length > 1 ? 's' : ''} to ${PENDING_REMOVAL_ALBUM}? You can restore them for ${retentionDays} days before they are deleted from your device.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove All',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const newJob = await autoCleanJobs.startJob(plan);
+              setJob(newJob);
+              setStep('running');
+              runJob();
+            } catch (error) {
+              console.error('Error starting auto-clean:', error);
+              Alert.alert('Auto-clean Failed', 'Could not start removing photos. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const runJob = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+
+    try {
+      const result = await autoCleanJobs.run({
+        signal: controller.signal,
+        onProgress: (processed, total) => setProgress({ processed, total }),
+        onBatchRemoved: onPhotosRemoved,
+      });
+      setJob(await autoCleanJobs.getCurrentJob());
+
+      if (result.processedCount >= result.photos.length) {
+        showCompletion(result);
+      }
+    } catch (error) {
+      console.error('Error running auto-clean:', error);
+      setJob(await autoCleanJobs.getCurrentJob());
+      const reason = error instanceof Error && error.name === 'AutoCleanError'
+        ? error.message
+        : 'Some photos could not be moved to pending removal.';
+      Alert.alert('Auto-clean Paused', `${reason} Resume to try again, or discard the rest of the job.`);
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const showCompletion = (finished: AutoCleanJob) => {
+    Alert.alert(
+      'Auto-clean Complete',
+      `${finished.photos.length} photo${finished.photos.length > 1 ? 's' : ''} moved to ${PENDING_REMOVAL_ALBUM}, freeing ${formatBytes(finished.totalBytes)} once deleted.`,
+      [
+        { text: 'Undo', onPress: () => undoJob(finished) },
+        { text: 'OK', style: 'cancel' },
+      ]
+    );
+    setPlan(null);
+    setStep('configure');
+    onClose();
+  };
+
+  const undoJob = async (finished: AutoCleanJob) => {
+    try {
+      for (const batchId of finished.batchIds) {
+        await pendingRemoval.restoreBatch(batchId);
+      }
+      onPhotosRestored();
+    } catch (error) {
+      console.error('Error restoring photos:', error);
+      Alert.alert('Restore Failed', `The photos are still in the ${PENDING_REMOVAL_ALBUM} album and can be restored from there.`);
+    }
+  };
+
+  const handlePause = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleDiscard = () => {
+    Alert.alert(
+      'Discard Auto-clean',
+      `Stop removing photos? The ${job?.processedCount ?? 0} already moved stay in ${PENDING_REMOVAL_ALBUM}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await autoCleanJobs.discardJob();
+            } catch (error) {
+              console.error('Error discarding auto-clean job:', error);
+              Alert.alert('Discard Failed', 'The job could not be removed and may come back after a restart.');
+            }
+            setJob(null);
+            setPlan(null);
+            setStep('configure');
+          },
+        },
+      ]
+    );
+  };
+
+  const handleClose = () => {
+    // Planning is cheap to redo; a running job keeps going in the background
+    if (step === 'planning') {
+      abortControllerRef.current?.abort();
+    }
+    onClose();
+  };
+
+  const renderThumbnail = ({ item }: { item: AutoCleanPlan['photos'][number] }) => (
+    <Image source={{ uri: item.uri }} style={styles.thumbnail} contentFit="cover" />
+  );
+
+  const renderProgressBar = () => (
+    <View style={styles.progressBarContainer}>
+      <View
+        style={[
+          styles.progressBar,
+          { width: `${progress.total > 0 ? (progress.processed / progress.total) * 100 : 0}%` },
+        ]}
+      />
+    </View>
+  );
+
+  const renderConfigure = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Clean up groups with at least</Text>
+      <View style={styles.segments}>
+        {AUTO_CLEAN_CONFIDENCE_OPTIONS.map(confidence => {
+          const isSelected = confidence === minConfidence;
+          return (
+            <TouchableOpacity
+              key={confidence}
+              style={[styles.segment, isSelected && styles.segmentSelected]}
+              onPress={() => setMinConfidence(confidence)}
+              activeOpacity={0.8}
+            >
+              <Text style={[styles.segmentText, isSelected && styles.segmentTextSelected]}>
+                {confidence}% match
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <Text style={styles.description}>
+        The best shot of each of the {eligibleCount} group{eligibleCount === 1 ? '' : 's'} is kept and the other photos
+        are removed. {manualCount} group{manualCount === 1 ? '' : 's'} below this confidence stay in manual review.
+      </Text>
+      <TouchableOpacity
+        style={[styles.primaryButton, eligibleCount === 0 && styles.primaryButtonDisabled]}
+        onPress={handleBuildPlan}
+        disabled={eligibleCount === 0}
+        activeOpacity={0.8}
+      >
+        <Sparkles size={18} color="#ffffff" />
+        <Text style={styles.primaryButtonText}>Find Best Shots</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderPlanning = () => (
+    <View style={styles.section}>
+      <ActivityIndicator size="large" color="#3b82f6" />
+      <Text style={styles.statusText}>Picking the best shot of each group...</Text>
+      {renderProgressBar()}
+      <Text style={styles.progressNumbers}>{progress.processed} / {progress.total} groups</Text>
+    </View>
+  );
+
+  const renderSummary = () => plan && (
+    <>
+      <View style={styles.section}>
+        <Text style={styles.summaryTitle}>
+          {plan.photos.length} photo{plan.photos.length === 1 ? '' : 's'} from {plan.groups.length} group{plan.groups.length === 1 ? '' : 's'}
+        </Text>
+        <Text style={styles.summarySize}>
+          {plan.unknownSizeCount > 0 ? 'At least ' : ''}{formatBytes(plan.totalBytes)} to be freed
+        </Text>
+        <Text style={styles.description}>
+          {plan.manualReviewMatchIds.length} group{plan.manualReviewMatchIds.length === 1 ? '' : 's'} stay in manual review.
+        </Text>
+      </View>
+      <FlatList
+        data={plan.photos}
+        renderItem={renderThumbnail}
+        numColumns={numColumns}
+        keyExtractor={item => item.id}
+        contentContainerStyle={styles.grid}
+        columnWrapperStyle={styles.gridRow}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>Every group already keeps all of its photos.</Text>
+        }
+      />
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => setStep('configure')} activeOpacity={0.8}>
+          <Text style={styles.secondaryButtonText}>Back</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.destructiveButton, plan.photos.length === 0 && styles.primaryButtonDisabled]}
+          onPress={handleConfirmPlan}
+          disabled={plan.photos.length === 0}
+          activeOpacity={0.8}
+        >
+          <Trash2 size={18} color="#ffffff" />
+          <Text style={styles.primaryButtonText}>Remove {plan.photos.length}</Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  const renderRunning = () => (
+    <View style={styles.section}>
+      <Text style={styles.statusText}>
+        {isRunning ? `Moving photos to ${PENDING_REMOVAL_ALBUM}...` : 'Auto-clean paused'}
+      </Text>
+      {renderProgressBar()}
+      <Text style={styles.progressNumbers}>{progress.processed} / {progress.total} photos</Text>
+      {!isRunning && job?.error && <Text style={styles.errorText}>{job.error}</Text>}
+      <View style={styles.inlineActions}>
+        {isRunning ? (
+          <TouchableOpacity style={styles.secondaryButton} onPress={handlePause} activeOpacity={0.8}>
+            <Pause size={18} color="#374151" />
+            <Text style={styles.secondaryButtonText}>Pause</Text>
+          </TouchableOpacity>
+        ) : (
+          <>
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleDiscard} activeOpacity={0.8}>
+              <Text style={styles.secondaryButtonText}>Discard</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.primaryButton} onPress={runJob} activeOpacity={0.8}>
+              <Play size={18} color="#ffffff" />
+              <Text style={styles.primaryButtonText}>Resume</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={handleClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <View>
+            <Text style={styles.headerTitle}>Auto-clean</Text>
+            <Text style={styles.headerSubtitle}>Keep the best shot of every likely duplicate</Text>
+          </View>
+          <TouchableOpacity style={styles.closeButton} onPress={handleClose}>
+            <X size={24} color="#1f2937" />
+          </TouchableOpacity>
+        </View>
+
+        {step === 'configure' && renderConfigure()}
+        {step === 'planning' && renderPlanning()}
+        {step === 'summary' && renderSummary()}
+        {step === 'running' && renderRunning()}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  section: {
+    padding: 20,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  segments: {
+    flexDirection: 'row',
+    backgroundColor: '#f3f4f6',
+    borderRadius: 8,
+    padding: 2,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  segmentSelected: {
+    backgroundColor: '#ffffff',
+  },
+  segmentText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#6b7280',
+  },
+  segmentTextSelected: {
+    color: '#1f2937',
+    fontWeight: '600',
+  },
+  description: {
+    fontSize: 14,
+    color: '#4b5563',
+    lineHeight: 20,
+  },
+  summaryTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  summarySize: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#059669',
+  },
+  statusText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#374151',
+    textAlign: 'center',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#dc2626',
+    textAlign: 'center',
+  },
+  progressBarContainer: {
+    height: 8,
+    backgroundColor: '#e5e7eb',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  progressBar: {
+    height: '100%',
+    backgroundColor: '#3b82f6',
+    borderRadius: 4,
+  },
+  progressNumbers: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  grid: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  gridRow: {
+    gap: 8,
+    marginBottom: 8,
+  },
+  thumbnail: {
+    width: thumbnailSize,
+    height: thumbnailSize,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  inlineActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  primaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3b82f6',
+    paddingVertical: 14,
+    borderRadius: 12,
+    gap: 8,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  destructiveButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#dc2626',
+    paddingVertical: 14,
+    borderRadius: 12,
+    gap: 8,
+  },
+  secondaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    paddingVertical: 14,
+    borderRadius: 12,
+    gap: 8,
+  },
+  secondaryButtonText: {
+    color: '#374151',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -12,12 +12,17 @@ import {
   Platform,
 } from 'react-native';
 import { Image } from 'expo-image';
-import * as MediaLibrary from 'expo-media-library';
-import { X, Check, Trash2, SkipForward, ChevronLeft, ChevronRight, Save, Crown } from 'lucide-react-native';
+import { X, Check, Trash2, SkipForward, ChevronLeft, ChevronRight, Save, Crown, Crop, Copy, Award } from 'lucide-react-native';
 import { viewCounter, ViewCounterState } from '@/utils/viewCounter';
 import { userProfileManager } from '@/utils/userProfile';
 import { UpgradePrompt } from '@/components/UpgradePrompt';
 import { ViewCounterDisplay } from '@/components/ViewCounterDisplay';
+import { findOutlier, MatchMetrics } from '@/utils/matchMetrics';
+import { getConfidenceLevel } from '@/utils/similarityModel';
+import { pendingRemoval, PENDING_REMOVAL_ALBUM } from '@/utils/pendingRemoval';
+import { QualityRanking, QUALITY_FACTOR_LABELS } from '@/utils/photoQuality';
+import { rankGroupPhotos } from '@/utils/bestShot';
+import { exclusionRules } from '@/utils/exclusionRules';
 
 const { width } = Dimensions.get('window');
 
@@ -28,6 +33,7 @@ interface Photo {
   creationTime: number;
   width: number;
   height: number;
+  modificationTime?: number;
 }
 
 interface MatchResult {
@@ -40,6 +46,9 @@ interface MatchResult {
   };
   status: 'pending' | 'approved' | 'rejected';
   hammingDistance: number;
+  // Pairwise distances and medoid of the group
+  metrics?: MatchMetrics;
+  matchType?: 'similar' | 'cropped' | 'exact';
 }
 
 interface MatchResultsModalProps {
@@ -54,6 +63,8 @@ interface MatchResultsModalProps {
   onApproveMatch: (matchId: string) => void;
   onRejectMatch: (matchId: string) => void;
   onDeletePhoto: (photoId: string) => void;
+  // Called after removed photos were put back, so the library can pick them up again
+  onPhotosRestored?: () => void;
   onViewPhoto: (photo: Photo) => void;
   onPauseProcessing: () => void;
   onResumeProcessing: () => void;
@@ -67,6 +78,7 @@ export function MatchResultsModal({
   onApproveMatch,
   onRejectMatch,
   onDeletePhoto,
+  onPhotosRestored,
   onViewPhoto,
   onPauseProcessing,
   onResumeProcessing,
@@ -75,6 +87,12 @@ export function MatchResultsModal({
   const [selectedPhotos, setSelectedPhotos] = useState<Set<string>>(new Set());
   const [queuedForDeletion, setQueuedForDeletion] = useState<Set<string>>(new Set());
   const [isProcessingDeletions, setIsProcessingDeletions] = useState(false);
+  // Quality ranking of the current match, to suggest which photo to keep
+  const [ranking, setRanking] = useState<QualityRanking | null>(null);
+  const [rankingFailed, setRankingFailed] = useState(false);
+  // Latest queue and match for the ranking effect, which must only rerun when another match is shown
+  const queuedForDeletionRef = useRef(queuedForDeletion);
+  const currentMatchRef = useRef(matches[currentMatchIndex]);
   
   // View counter state
   const [viewCounterState, setViewCounterState] = useState<ViewCounterState | null>(null);
@@ -88,6 +106,51 @@ export function MatchResultsModal({
     }
   }, [visible]);
 
+  useEffect(() => {
+    queuedForDeletionRef.current = queuedForDeletion;
+  }, [queuedForDeletion]);
+
+  useEffect(() => {
+    currentMatchRef.current = matches[currentMatchIndex];
+  }, [matches, currentMatchIndex]);
+
+  const currentMatchId = matches[currentMatchIndex]?.id;
+
+  useEffect(() => {
+    const match = currentMatchRef.current;
+    setRanking(null);
+    setRankingFailed(false);
+    if (!visible || !match || match.photos.length < 2) return;
+
+    let cancelled = false;
+    rankGroupPhotos(match.photos)
+      .then(result => {
+        if (cancelled) return;
+        setRanking(result);
+        // Pre-select all but the best shot and photos kept forever, unless the user already picked photos
+        setSelectedPhotos(current => current.size > 0
+          ? current
+          : new Set(
+              match.photos
+                .map(photo => photo.id)
+                .filter(photoId =>
+                  photoId !== result.keeperId &&
+                  !exclusionRules.isKeptForever(photoId) &&
+                  !queuedForDeletionRef.current.has(photoId)
+                )
+            )
+        );
+      })
+      .catch(error => {
+        console.error('Error ranking photos:', error);
+        if (!cancelled) setRankingFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, currentMatchId]);
+
   const initializeViewSystem = async () => {
     try {
       const [counterState, userProfile] = await Promise.all([
@@ -158,18 +221,32 @@ export function MatchResultsModal({
     });
   };
 
+  // Levels come from the calibrated similarity model shared with every other screen
   const getConfidenceColor = (confidence: number) => {
-    if (confidence >= 80) return '#10b981'; // Green
-    if (confidence >= 60) return '#f59e0b'; // Yellow
+    const level = getConfidenceLevel(confidence);
+    if (level === 'high') return '#10b981'; // Green
+    if (level === 'medium') return '#f59e0b'; // Yellow
     return '#ef4444'; // Red
   };
 
   const getConfidenceText = (confidence: number) => {
-    if (confidence >= 80) return 'High';
-    if (confidence >= 60) return 'Medium';
+    const level = getConfidenceLevel(confidence);
+    if (level === 'high') return 'High';
+    if (level === 'medium') return 'Medium';
     return 'Low';
   };
 
+  const getMatchTitle = (match: MatchResult) => {
+    if (match.matchType === 'exact') return `${match.photos.length} Identical Files`;
+    if (match.matchType === 'cropped') return `${match.photos.length} Cropped Copies`;
+    return `${match.photos.length} Similar Photos`;
+  };
+
+  const getKeeperReason = (keeperRanking: QualityRanking) => {
+    if (keeperRanking.reasons.length === 0) return 'Best balance of sharpness, exposure and size';
+    return keeperRanking.reasons.map(reason => QUALITY_FACTOR_LABELS[reason]).join(' • ');
+  };
+
   const togglePhotoSelection = (photoId: string) => {
     const newSelected = new Set(selectedPhotos);
     if (newSelected.has(photoId)) {
@@ -203,7 +280,7 @@ export function MatchResultsModal({
     
     Alert.alert(
       'Added to Deletion Queue',
-      `${selectedPhotos.size} photo${selectedPhotos.size > 1 ? 's' : ''} added to deletion queue. Use the "Confirm All Deletions" button to permanently delete them.`
+      `${selectedPhotos.size} photo${selectedPhotos.size > 1 ? 's' : ''} added to deletion queue. Use the "Confirm All Deletions" button to move them to ${PENDING_REMOVAL_ALBUM}.`
     );
   };
 
@@ -221,29 +298,34 @@ export function MatchResultsModal({
       return;
     }
 
-    const queuedPhotos = matches
-      .flatMap(match => match.photos)
-      .filter(photo => queuedForDeletion.has(photo.id));
+    // A photo can sit in more than one match; stage each once
+    const queuedPhotos = Array.from(
+      new Map(
+        matches
+          .flatMap(match => match.photos)
+          .filter(photo => queuedForDeletion.has(photo.id))
+          .map(photo => [photo.id, photo])
+      ).values()
+    );
 
+    const { retentionDays } = await pendingRemoval.getCurrentState();
     Alert.alert(
       'Confirm All Deletions',
-      `Are you sure you want to permanently delete ${queuedForDeletion.size} photo${queuedForDeletion.size > 1 ? 's' : ''} from your device? This action cannot be undone.`,
+      `Move ${queuedPhotos.length} photo${queuedPhotos.length > 1 ? 's' : ''} to ${PENDING_REMOVAL_ALBUM}? You can restore them for ${retentionDays} days before they are deleted from your device.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
-          text: 'Delete All',
+          text: 'Remove All',
           style: 'destructive',
           onPress: async () => {
             setIsProcessingDeletions(true);
             
             try {
-              // Convert Set to Array for MediaLibrary
-              const photoIds = Array.from(queuedForDeletion);
-              
-              // Delete all photos at once using MediaLibrary batch delete
-              await MediaLibrary.deleteAssetsAsync(photoIds);
+              // Staged photos can be restored until the retention period runs out
+              const entries = await pendingRemoval.stagePhotos(queuedPhotos);
+              const photoIds = entries.map(entry => entry.original.id);
               
-              // Notify parent component about all deletions
+              // Notify parent component about all removals
               photoIds.forEach(photoId => onDeletePhoto(photoId));
               
               // Clear the deletion queue
@@ -251,8 +333,12 @@ export function MatchResultsModal({
               setSelectedPhotos(new Set());
               
               Alert.alert(
-                'Deletion Complete',
-                `${photoIds.length} photo${photoIds.length > 1 ? 's' : ''} deleted successfully.`
+                'Moved to Pending Removal',
+                `${photoIds.length} photo${photoIds.length > 1 ? 's' : ''} will be deleted in ${retentionDays} days.`,
+                [
+                  { text: 'Undo', onPress: () => undoRemoval(entries[0]?.batchId) },
+                  { text: 'OK', style: 'cancel' },
+                ]
               );
               
               // Close modal if no matches remain
@@ -265,10 +351,10 @@ export function MatchResultsModal({
               }
               
             } catch (error) {
-              console.error('Error deleting photos:', error);
+              console.error('Error removing photos:', error);
               Alert.alert(
                 'Deletion Failed',
-                'Some photos could not be deleted. Please try again or delete them individually.'
+                'Some photos could not be moved to pending removal. Please try again or remove them individually.'
               );
             } finally {
               setIsProcessingDeletions(false);
@@ -279,6 +365,19 @@ export function MatchResultsModal({
     );
   };
 
+  const undoRemoval = async (batchId?: string) => {
+    if (!batchId) return;
+
+    try {
+      const restored = await pendingRemoval.restoreBatch(batchId);
+      onPhotosRestored?.();
+      Alert.alert('Restored', `${restored.length} photo${restored.length > 1 ? 's' : ''} restored.`);
+    } catch (error) {
+      console.error('Error restoring photos:', error);
+      Alert.alert('Restore Failed', `The photos are still in the ${PENDING_REMOVAL_ALBUM} album and can be restored from there.`);
+    }
+  };
+
   const handleSinglePhotoDelete = async (photoId: string) => {
     // Check view limit for free users
     if (!isPaidAccount && viewCounterState && viewCounterState.remainingViews <= 0) {
@@ -295,7 +394,7 @@ export function MatchResultsModal({
     Alert.alert(
       isQueued ? 'Added to Queue' : 'Removed from Queue',
       isQueued 
-        ? 'Photo added to deletion queue. Use "Confirm All Deletions" to permanently delete.'
+        ? `Photo added to deletion queue. Use "Confirm All Deletions" to move it to ${PENDING_REMOVAL_ALBUM}.`
         : 'Photo removed from deletion queue.'
     );
   };
@@ -364,7 +463,7 @@ export function MatchResultsModal({
             style: 'cancel'
           },
           {
-            text: 'Delete Now',
+            text: 'Remove Now',
             onPress: confirmAllDeletions
           }
         ]
@@ -374,9 +473,25 @@ export function MatchResultsModal({
     }
   };
 
-  const renderPhoto = (photo: Photo) => {
+  // Where a photo stands in its group: the medoid, or how close it is to it
+  const renderGroupRole = (photo: Photo, metrics: MatchMetrics, outlierId: string | null) => {
+    if (photo.id === metrics.medoidId) {
+      return <Text style={styles.photoRole}>Most representative</Text>;
+    }
+
+    const similarity = metrics.similarityToMedoid[photo.id] ?? 0;
+    const isOutlier = photo.id === outlierId;
+    return (
+      <Text style={[styles.photoRole, isOutlier && styles.photoRoleOutlier]}>
+        {isOutlier && 'Outlier • '}{similarity.toFixed(0)}% similar to most representative
+      </Text>
+    );
+  };
+
+  const renderPhoto = (photo: Photo, metrics?: MatchMetrics, outlierId: string | null = null) => {
     const isSelected = selectedPhotos.has(photo.id);
     const isQueued = queuedForDeletion.has(photo.id);
+    const isKeeper = ranking?.keeperId === photo.id;
     
     return (
       <View key={photo.id} style={styles.photoContainer}>
@@ -412,6 +527,14 @@ export function MatchResultsModal({
             </View>
           </TouchableOpacity>
 
+          {/* Best shot badge */}
+          {isKeeper && (
+            <View style={styles.keeperBadge}>
+              <Award size={14} color="#ffffff" />
+              <Text style={styles.keeperBadgeText}>Best shot</Text>
+            </View>
+          )}
+
           {/* Trash icon overlay */}
           <TouchableOpacity
             style={styles.trashIconContainer}
@@ -431,6 +554,8 @@ export function MatchResultsModal({
             <Text style={styles.photoTime}>
               {formatTime(photo.creationTime)}
             </Text>
+            {metrics && renderGroupRole(photo, metrics, outlierId)}
+            {exclusionRules.isKeptForever(photo.id) && <Text style={styles.photoRole}>Kept forever</Text>}
           </View>
         </TouchableOpacity>
       </View>
@@ -518,6 +643,7 @@ export function MatchResultsModal({
 
   const currentMatch = matches[currentMatchIndex];
   const confidenceColor = getConfidenceColor(currentMatch.confidence);
+  const outlierId = currentMatch.metrics ? findOutlier(currentMatch.metrics) : null;
 
   return (
     <Modal
@@ -569,7 +695,7 @@ export function MatchResultsModal({
                 <Save size={16} color="#ffffff" />
               )}
               <Text style={styles.confirmDeleteButtonText}>
-                {isProcessingDeletions ? 'Deleting...' : 'Confirm All Deletions'}
+                {isProcessingDeletions ? 'Removing...' : 'Confirm All Deletions'}
               </Text>
             </TouchableOpacity>
           </View>
@@ -578,9 +704,23 @@ export function MatchResultsModal({
         {/* Match Info */}
         <View style={styles.matchInfoSection}>
           <View style={styles.matchInfoRow}>
-            <Text style={styles.matchTitle}>
-              {currentMatch.photos.length} Similar Photos
-            </Text>
+            <View style={styles.matchTitleRow}>
+              <Text style={styles.matchTitle}>
+                {getMatchTitle(currentMatch)}
+              </Text>
+              {currentMatch.matchType === 'cropped' && (
+                <View style={styles.matchTypeBadge}>
+                  <Crop size={12} color="#7c3aed" />
+                  <Text style={styles.matchTypeText}>Cropped copy</Text>
+                </View>
+              )}
+              {currentMatch.matchType === 'exact' && (
+                <View style={styles.matchTypeBadge}>
+                  <Copy size={12} color="#7c3aed" />
+                  <Text style={styles.matchTypeText}>Exact duplicate</Text>
+                </View>
+              )}
+            </View>
             <View style={[styles.confidenceBadge, { backgroundColor: confidenceColor }]}>
               <Text style={styles.confidenceText}>
                 {currentMatch.confidence.toFixed(0)}% Match
@@ -590,9 +730,24 @@ export function MatchResultsModal({
           
           <Text style={styles.matchSubtitle}>
             {formatDate(currentMatch.photos[0].creationTime)} • 
-            Distance: {currentMatch.hammingDistance} • 
+            {currentMatch.metrics
+              ? `Distance: mean ${currentMatch.metrics.meanDistance.toFixed(1)}, max ${currentMatch.metrics.diameter} • `
+              : `Distance: ${currentMatch.hammingDistance} • `}
             {getConfidenceText(currentMatch.confidence)} confidence
           </Text>
+
+          {ranking ? (
+            <View style={styles.keeperRow}>
+              <Award size={14} color="#059669" />
+              <Text style={styles.keeperText} numberOfLines={2}>
+                Keep {currentMatch.photos.find(photo => photo.id === ranking.keeperId)?.filename}: {getKeeperReason(ranking)}
+              </Text>
+            </View>
+          ) : rankingFailed ? (
+            <Text style={styles.keeperPendingText}>Could not pick the best shot. Select the photos to remove yourself.</Text>
+          ) : currentMatch.photos.length > 1 && (
+            <Text style={styles.keeperPendingText}>Picking the best shot...</Text>
+          )}
         </View>
 
         {/* Navigation Controls */}
@@ -637,7 +792,7 @@ export function MatchResultsModal({
           contentContainerStyle={styles.photosContent}
           showsVerticalScrollIndicator={false}
         >
-          {currentMatch.photos.map((photo) => renderPhoto(photo))}
+          {currentMatch.photos.map((photo) => renderPhoto(photo, currentMatch.metrics, outlierId))}
         </ScrollView>
 
         {/* Bottom Actions */}
@@ -797,11 +952,30 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     marginBottom: 8,
   },
+  matchTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   matchTitle: {
     fontSize: 18,
     fontWeight: '600',
     color: '#1f2937',
   },
+  matchTypeBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#ede9fe',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  matchTypeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#7c3aed',
+  },
   confidenceBadge: {
     paddingHorizontal: 12,
     paddingVertical: 4,
@@ -816,6 +990,23 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6b7280',
   },
+  keeperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  keeperText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#059669',
+  },
+  keeperPendingText: {
+    fontSize: 13,
+    color: '#9ca3af',
+    marginTop: 8,
+  },
   navigationSection: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -929,6 +1120,24 @@ const styles = StyleSheet.create({
     backgroundColor: '#3b82f6',
     borderColor: '#3b82f6',
   },
+  keeperBadge: {
+    position: 'absolute',
+    top: 14,
+    left: 48,
+    zIndex: 2,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#059669',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  keeperBadgeText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
   trashIconContainer: {
     position: 'absolute',
     top: 12,
@@ -972,6 +1181,15 @@ const styles = StyleSheet.create({
     fontSize: 12,
     opacity: 0.8,
   },
+  photoRole: {
+    color: '#d1fae5',
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  photoRoleOutlier: {
+    color: '#fca5a5',
+  },
   bottomActions: {
     backgroundColor: '#ffffff',
     paddingHorizontal: 20,
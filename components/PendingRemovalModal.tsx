@@ -0,0 +1,350 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  FlatList,
+  ActivityIndicator,
+  Dimensions,
+  Alert,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { X, RotateCcw, Trash2 } from 'lucide-react-native';
+import {
+  pendingRemoval,
+  PendingRemovalEntry,
+  PENDING_REMOVAL_ALBUM,
+} from '@/utils/pendingRemoval';
+
+const { width } = Dimensions.get('window');
+const numColumns = 2;
+const imageSize = (width - 60) / numColumns;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_OPTIONS = [7, 30, 90];
+
+interface PendingRemovalModalProps {
+  visible: boolean;
+  onClose: () => void;
+  // Called after photos were restored or purged, so the gallery can catch up
+  onChanged: () => void;
+}
+
+/**
+ * Photos waiting in the "Pending removal" album, with undo until they expire
+ */
+export function PendingRemovalModal({ visible, onClose, onChanged }: PendingRemovalModalProps) {
+  const [entries, setEntries] = useState<PendingRemovalEntry[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      loadEntries();
+    }
+  }, [visible]);
+
+  const loadEntries = async () => {
+    try {
+      const state = await pendingRemoval.reconcile();
+      setEntries([...state.entries].sort((a, b) => b.stagedAt - a.stagedAt));
+      setRetentionDays(state.retentionDays);
+    } catch (error) {
+      console.error('Error loading pending removals:', error);
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    setBusy(true);
+    try {
+      await action();
+      onChanged();
+    } catch (error) {
+      console.error('Error updating pending removals:', error);
+      Alert.alert('Error', failureMessage);
+    } finally {
+      await loadEntries();
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = (restoreEntries: PendingRemovalEntry[]) => {
+    runAction(() => pendingRemoval.restore(restoreEntries), 'Failed to restore photos. Please try again.');
+  };
+
+  const handleDeleteAll = () => {
+    Alert.alert(
+      'Delete Permanently',
+      `Permanently delete ${entries.length} photo${entries.length > 1 ? 's' : ''} from your device? This action cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete All',
+          style: 'destructive',
+          onPress: () => runAction(() => pendingRemoval.purge(entries), 'Failed to delete photos. Please try again.'),
+        },
+      ]
+    );
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    const state = await pendingRemoval.setRetentionDays(days);
+    setRetentionDays(state.retentionDays);
+  };
+
+  const formatDaysLeft = (entry: PendingRemovalEntry) => {
+    const daysLeft = Math.max(0, Math.ceil((pendingRemoval.getExpiresAt(entry) - Date.now()) / DAY_MS));
+    return daysLeft === 0 ? 'Deleted on next launch' : `${daysLeft} day${daysLeft > 1 ? 's' : ''} left`;
+  };
+
+  const renderEntry = ({ item }: { item: PendingRemovalEntry }) => (
+    <View style={styles.photoContainer}>
+      <Image source={{ uri: item.uri }} style={styles.photo} contentFit="cover" />
+      <TouchableOpacity
+        style={styles.restoreButton}
+        onPress={() => handleRestore([item])}
+        disabled={busy}
+        activeOpacity={0.8}
+      >
+        <RotateCcw size={16} color="#ffffff" />
+      </TouchableOpacity>
+      <View style={styles.photoInfo}>
+        <Text style={styles.photoName} numberOfLines={1}>{item.original.filename}</Text>
+        <Text style={styles.photoExpiry}>{formatDaysLeft(item)}</Text>
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <View>
+            <Text style={styles.headerTitle}>{PENDING_REMOVAL_ALBUM}</Text>
+            <Text style={styles.headerSubtitle}>
+              {entries.length} photo{entries.length === 1 ? '' : 's'} waiting to be deleted
+            </Text>
+          </View>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <X size={24} color="#1f2937" />
+          </TouchableOpacity>
+        </View>
+
+        {retentionDays !== null && (
+          <View style={styles.retentionSection}>
+            <Text style={styles.retentionLabel}>Delete from device after</Text>
+            <View style={styles.segments}>
+              {RETENTION_OPTIONS.map(days => {
+                const isSelected = days === retentionDays;
+                return (
+                  <TouchableOpacity
+                    key={days}
+                    style={[styles.segment, isSelected && styles.segmentSelected]}
+                    onPress={() => !isSelected && handleRetentionChange(days)}
+                    activeOpacity={0.8}
+                  >
+                    <Text style={[styles.segmentText, isSelected && styles.segmentTextSelected]}>
+                      {days} days
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        <FlatList
+          data={entries}
+          renderItem={renderEntry}
+          numColumns={numColumns}
+          keyExtractor={item => item.assetId}
+          contentContainerStyle={styles.grid}
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>Nothing is waiting to be deleted.</Text>
+          }
+        />
+
+        {entries.length > 0 && (
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={styles.restoreAllButton}
+              onPress={() => handleRestore(entries)}
+              disabled={busy}
+              activeOpacity={0.8}
+            >
+              <RotateCcw size={18} color="#3b82f6" />
+              <Text style={styles.restoreAllButtonText}>Restore All</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.deleteAllButton}
+              onPress={handleDeleteAll}
+              disabled={busy}
+              activeOpacity={0.8}
+            >
+              {busy ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Trash2 size={18} color="#ffffff" />
+              )}
+              <Text style={styles.deleteAllButtonText}>Delete All Now</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  retentionSection: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    gap: 8,
+  },
+  retentionLabel: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  segments: {
+    flexDirection: 'row',
+    backgroundColor: '#f3f4f6',
+    borderRadius: 8,
+    padding: 2,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  segmentSelected: {
+    backgroundColor: '#ffffff',
+  },
+  segmentText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#6b7280',
+  },
+  segmentTextSelected: {
+    color: '#1f2937',
+    fontWeight: '600',
+  },
+  grid: {
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  photoContainer: {
+    width: imageSize,
+    marginRight: 20,
+    marginBottom: 20,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#f3f4f6',
+  },
+  photo: {
+    width: imageSize,
+    height: imageSize,
+  },
+  restoreButton: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    backgroundColor: '#3b82f6',
+    borderRadius: 16,
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  photoInfo: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    padding: 8,
+  },
+  photoName: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  photoExpiry: {
+    color: '#fbbf24',
+    fontSize: 11,
+    fontWeight: '500',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  restoreAllButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#3b82f6',
+    paddingVertical: 14,
+    borderRadius: 12,
+    gap: 8,
+  },
+  restoreAllButtonText: {
+    color: '#3b82f6',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  deleteAllButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#dc2626',
+    paddingVertical: 14,
+    borderRadius: 12,
+    gap: 8,
+  },
+  deleteAllButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
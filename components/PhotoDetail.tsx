@@ -10,11 +10,17 @@ import {
   Dimensions,
   Alert,
   Platform,
+  FlatList,
 } from 'react-native';
 import { Image } from 'expo-image';
 import * as MediaLibrary from 'expo-media-library';
-import { X, Search, Info, Calendar, FileText, Trash2 } from 'lucide-react-native';
-import { calculatePHash, calculateHammingDistance } from '@/utils/pHash';
+import { X, Search, Info, Calendar, FileText, Trash2, ShieldCheck, Unlink, FolderX, Check } from 'lucide-react-native';
+import { HashIndex } from '@/utils/pHash';
+import { getMaxMatchDistance, getSimilarityScore } from '@/utils/similarityModel';
+import { getOrCalculateHashes, getOrCalculatePHash } from '@/utils/hashCache';
+import { PHashSize } from '@/utils/hashAlgorithms';
+import { exclusionRules } from '@/utils/exclusionRules';
+import { pendingRemoval, PENDING_REMOVAL_ALBUM } from '@/utils/pendingRemoval';
 
 const { width, height } = Dimensions.get('window');
 
@@ -25,6 +31,8 @@ interface Photo {
   creationTime: number;
   width: number;
   height: number;
+  modificationTime?: number;
+  pHash?: string;
 }
 
 interface PhotoDetailProps {
@@ -33,6 +41,12 @@ interface PhotoDetailProps {
   onClose: () => void;
   onPhotoSelect: (photo: Photo) => void;
   onPhotoDeleted?: (photoId: string) => void;
+  // Called after a removed photo was put back, so the library can pick it up again
+  onPhotosRestored?: () => void;
+  // Called after the user adds or removes an exclusion rule, so matches can be rebuilt
+  onExclusionsChanged?: () => void;
+  // pHash size the gallery scans with, so its hashes can be reused here
+  hashSize?: PHashSize;
 }
 
 interface SimilarPhoto extends Photo {
@@ -40,8 +54,18 @@ interface SimilarPhoto extends Photo {
   similarity: number;
 }
 
-export function PhotoDetail({ photo, allPhotos, onClose, onPhotoSelect, onPhotoDeleted }: PhotoDetailProps) {
+export function PhotoDetail({
+  photo,
+  allPhotos,
+  onClose,
+  onPhotoSelect,
+  onPhotoDeleted,
+  onPhotosRestored,
+  onExclusionsChanged,
+  hashSize = 8,
+}: PhotoDetailProps) {
   const [pHash, setPHash] = useState<string | null>(null);
+  const [orientationHashes, setOrientationHashes] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [findingSimilar, setFindingSimilar] = useState(false);
@@ -49,19 +73,30 @@ export function PhotoDetail({ photo, allPhotos, onClose, onPhotoSelect, onPhotoD
   const [showSimilarPhotos, setShowSimilarPhotos] = useState(false);
   const [currentPhoto, setCurrentPhoto] = useState(photo);
   const [deletingPhotoId, setDeletingPhotoId] = useState<string | null>(null);
+  const [keptForever, setKeptForever] = useState(exclusionRules.isKeptForever(photo.id));
+  const [showAlbums, setShowAlbums] = useState(false);
+  const [albums, setAlbums] = useState<MediaLibrary.Album[]>([]);
+  const [excludedAlbumIds, setExcludedAlbumIds] = useState<string[]>([]);
+  const [loadingAlbums, setLoadingAlbums] = useState(false);
 
   useEffect(() => {
     setCurrentPhoto(photo);
-    generateHash();
+    setKeptForever(exclusionRules.isKeptForever(photo.id));
+    generateHash(photo);
   }, [photo]);
 
-  const generateHash = async () => {
+  const generateHash = async (targetPhoto: Photo = currentPhoto) => {
     setLoading(true);
     setError(null);
     
     try {
-      const hash = await calculatePHash(currentPhoto.uri);
-      setPHash(hash);
+      // Include rotated/mirrored variants so rotated copies are found too
+      const { hashes, orientations } = await getOrCalculateHashes(targetPhoto, ['phash'], {
+        includeOrientations: true,
+        hashSize,
+      });
+      setPHash(hashes.phash ?? null);
+      setOrientationHashes(orientations.phash ?? []);
     } catch (err) {
       console.error('Error generating pHash:', err);
       setError('Failed to generate perceptual hash');
@@ -80,43 +115,39 @@ export function PhotoDetail({ photo, allPhotos, onClose, onPhotoSelect, onPhotoD
     setSimilarPhotos([]);
 
     try {
-      const similarResults: SimilarPhoto[] = [];
-      
       const currentHash = pHash;
       const otherPhotos = allPhotos.filter(p => p.id !== currentPhoto.id);
+      const hashIndex = new HashIndex<Photo>();
       
       const batchSize = 5;
       
+      // Collect hashes (cached ones resolve immediately) into a similarity index
       for (let i = 0; i < otherPhotos.length; i += batchSize) {
         const batch = otherPhotos.slice(i, i + batchSize);
         
-        const batchPromises = batch.map(async (otherPhoto) => {
+        await Promise.all(batch.map(async (otherPhoto) => {
           try {
-            const otherHash = await calculatePHash(otherPhoto.uri);
-            const distance = await calculateHammingDistance(currentHash, otherHash);
-            
-            // Updated threshold to 20
-            if (distance <= 20) {
-              const similarity = Math.max(0, 100 - (distance * 4));
-              return {
-                ...otherPhoto,
-                distance,
-                similarity
-              };
-            }
-            return null;
+            const otherHash = otherPhoto.pHash ?? await getOrCalculatePHash(otherPhoto, { hashSize });
+            hashIndex.insert(otherPhoto.id, otherHash, otherPhoto);
           } catch (error) {
             console.error(`Error processing photo ${otherPhoto.filename}:`, error);
-            return null;
           }
-        });
+        }));
+      }
 
-        const batchResults = await Promise.all(batchPromises);
-        const validResults = batchResults.filter((result): result is SimilarPhoto => result !== null);
-        similarResults.push(...validResults);
+      // Same threshold as the scan, at the hash size
+      const bits = hashSize * hashSize;
+      const similarResults: SimilarPhoto[] = hashIndex
+        .queryAnyWithinDistance([currentHash, ...orientationHashes], getMaxMatchDistance(bits))
+        // Photos kept forever are never offered for deletion
+        .filter(({ id }) => !exclusionRules.isKeptForever(id) && !exclusionRules.isNeverMatchPair(currentPhoto.id, id))
+        .map(({ value, distance }) => ({
+          ...value,
+          distance,
+          similarity: getSimilarityScore(distance, bits),
+        }));
 
-        setSimilarPhotos([...similarResults].sort((a, b) => a.distance - b.distance));
-      }
+      setSimilarPhotos(similarResults);
 
       if (similarResults.length === 0) {
         Alert.alert('No Similar Photos', 'No similar photos were found based on visual content.');
@@ -140,9 +171,10 @@ export function PhotoDetail({ photo, allPhotos, onClose, onPhotoSelect, onPhotoD
       return;
     }
 
+    const { retentionDays } = await pendingRemoval.getCurrentState();
     Alert.alert(
       'Delete Photo',
-      'Are you sure you want to permanently delete this photo from your device?',
+      `Move this photo to ${PENDING_REMOVAL_ALBUM}? You can restore it for ${retentionDays} days before it is deleted from your device.`,
       [
         {
           text: 'Cancel',
@@ -154,7 +186,7 @@ export function PhotoDetail({ photo, allPhotos, onClose, onPhotoSelect, onPhotoD
           onPress: async () => {
             setDeletingPhotoId(photoToDelete.id);
             try {
-              await MediaLibrary.deleteAssetsAsync([photoToDelete.id]);
+              const [entry] = await pendingRemoval.stagePhotos([photoToDelete]);
               
               setSimilarPhotos(prev => prev.filter(p => p.id !== photoToDelete.id));
               onPhotoDeleted?.(photoToDelete.id);
@@ -163,7 +195,10 @@ export function PhotoDetail({ photo, allPhotos, onClose, onPhotoSelect, onPhotoD
                 onClose();
               }
               
-              Alert.alert('Success', 'Photo deleted successfully');
+              Alert.alert('Moved to Pending Removal', `The photo will be deleted in ${retentionDays} days.`, [
+                { text: 'Undo', onPress: () => undoRemoval(entry?.batchId) },
+                { text: 'OK', style: 'cancel' },
+              ]);
             } catch (error) {
               console.error('Error deleting photo:', error);
               Alert.alert('Error', 'Failed to delete photo. Please try again.');
@@ -176,6 +211,69 @@ export function PhotoDetail({ photo, allPhotos, onClose, onPhotoSelect, onPhotoD
     );
   };
 
+  const undoRemoval = async (batchId?: string) => {
+    if (!batchId) return;
+
+    try {
+      await pendingRemoval.restoreBatch(batchId);
+      onPhotosRestored?.();
+    } catch (error) {
+      console.error('Error restoring photo:', error);
+      Alert.alert('Restore Failed', `The photo is still in the ${PENDING_REMOVAL_ALBUM} album and can be restored from there.`);
+    }
+  };
+
+  const handleToggleKeepForever = async () => {
+    const keep = !keptForever;
+    await exclusionRules.setKeepForever(currentPhoto.id, keep);
+    setKeptForever(keep);
+    onExclusionsChanged?.();
+  };
+
+  const handleNeverMatch = async (otherPhoto: Photo) => {
+    await exclusionRules.addNeverMatchPair(currentPhoto.id, otherPhoto.id);
+    setSimilarPhotos(prev => prev.filter(p => p.id !== otherPhoto.id));
+    onExclusionsChanged?.();
+  };
+
+  const openAlbumExclusions = async () => {
+    if (Platform.OS === 'web') {
+      Alert.alert(
+        'Albums Not Available',
+        'Excluding albums is not available on web platform. This feature requires native device access.'
+      );
+      return;
+    }
+
+    setShowAlbums(true);
+    setLoadingAlbums(true);
+    try {
+      const [deviceAlbums, rules] = await Promise.all([
+        MediaLibrary.getAlbumsAsync({ includeSmartAlbums: true }),
+        exclusionRules.getCurrentRules(),
+      ]);
+      setAlbums(
+        deviceAlbums
+          .filter(album => album.title !== PENDING_REMOVAL_ALBUM)
+          .sort((a, b) => a.title.localeCompare(b.title))
+      );
+      setExcludedAlbumIds(rules.excludedAlbumIds);
+    } catch (error) {
+      console.error('Error loading albums:', error);
+      Alert.alert('Error', 'Failed to load albums. Please try again.');
+      setShowAlbums(false);
+    } finally {
+      setLoadingAlbums(false);
+    }
+  };
+
+  const handleToggleAlbum = async (album: MediaLibrary.Album) => {
+    const excluded = !excludedAlbumIds.includes(album.id);
+    const rules = await exclusionRules.setAlbumExcluded(album.id, excluded);
+    setExcludedAlbumIds(rules.excludedAlbumIds);
+    onExclusionsChanged?.();
+  };
+
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleDateString('en-US', {
@@ -229,6 +327,14 @@ export function PhotoDetail({ photo, allPhotos, onClose, onPhotoSelect, onPhotoD
           <Trash2 size={16} color="#ffffff" />
         )}
       </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.neverMatchButton}
+        onPress={() => handleNeverMatch(item)}
+        activeOpacity={0.8}
+      >
+        <Unlink size={16} color="#ffffff" />
+      </TouchableOpacity>
       
       <View style={styles.similarPhotoInfo}>
         <Text style={styles.similarPhotoName} numberOfLines={1}>
@@ -241,6 +347,58 @@ export function PhotoDetail({ photo, allPhotos, onClose, onPhotoSelect, onPhotoD
     </View>
   );
 
+  const renderAlbum = ({ item }: { item: MediaLibrary.Album }) => {
+    const excluded = excludedAlbumIds.includes(item.id);
+    return (
+      <TouchableOpacity style={styles.albumRow} onPress={() => handleToggleAlbum(item)} activeOpacity={0.8}>
+        <View style={styles.albumInfo}>
+          <Text style={styles.albumTitle} numberOfLines={1}>{item.title}</Text>
+          <Text style={styles.albumCount}>{item.assetCount} items</Text>
+        </View>
+        <View style={[styles.albumCheckbox, excluded && styles.albumCheckboxChecked]}>
+          {excluded && <Check size={16} color="#ffffff" />}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  if (showAlbums) {
+    return (
+      <Modal
+        visible={true}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowAlbums(false)}
+      >
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.headerTitle}>Excluded Albums</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={() => setShowAlbums(false)}>
+              <X size={24} color="#1f2937" />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.albumHint}>
+            Photos in checked albums are never scanned or suggested as duplicates.
+          </Text>
+
+          {loadingAlbums ? (
+            <View style={styles.processingContainer}>
+              <ActivityIndicator size="small" color="#3b82f6" />
+              <Text style={styles.processingText}>Loading albums...</Text>
+            </View>
+          ) : (
+            <FlatList
+              data={albums}
+              keyExtractor={album => album.id}
+              renderItem={renderAlbum}
+            />
+          )}
+        </View>
+      </Modal>
+    );
+  }
+
   if (showSimilarPhotos) {
     return (
       <Modal
@@ -401,6 +559,26 @@ export function PhotoDetail({ photo, allPhotos, onClose, onPhotoSelect, onPhotoD
               </Text>
             </TouchableOpacity>
 
+            <TouchableOpacity
+              style={[styles.keepForeverButton, keptForever && styles.keepForeverButtonActive]}
+              onPress={handleToggleKeepForever}
+              activeOpacity={0.8}
+            >
+              <ShieldCheck size={20} color={keptForever ? '#ffffff' : '#059669'} />
+              <Text style={[styles.keepForeverButtonText, keptForever && styles.keepForeverButtonTextActive]}>
+                {keptForever ? 'Kept Forever' : 'Keep Forever'}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.excludeAlbumButton}
+              onPress={openAlbumExclusions}
+              activeOpacity={0.8}
+            >
+              <FolderX size={20} color="#4b5563" />
+              <Text style={styles.excludeAlbumButtonText}>Exclude Albums</Text>
+            </TouchableOpacity>
+
             {loading && (
               <View style={styles.processingContainer}>
                 <ActivityIndicator size="small" color="#3b82f6" />
@@ -411,7 +589,7 @@ export function PhotoDetail({ photo, allPhotos, onClose, onPhotoSelect, onPhotoD
             {error && (
               <View style={styles.errorContainer}>
                 <Text style={styles.errorText}>{error}</Text>
-                <TouchableOpacity style={styles.retryButton} onPress={generateHash}>
+                <TouchableOpacity style={styles.retryButton} onPress={() => generateHash()}>
                   <Text style={styles.retryButtonText}>Retry</Text>
                 </TouchableOpacity>
               </View>
@@ -514,6 +692,84 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  keepForeverButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#059669',
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    gap: 8,
+  },
+  keepForeverButtonActive: {
+    backgroundColor: '#059669',
+  },
+  keepForeverButtonText: {
+    color: '#059669',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  keepForeverButtonTextActive: {
+    color: '#ffffff',
+  },
+  excludeAlbumButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#f3f4f6',
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    gap: 8,
+  },
+  excludeAlbumButtonText: {
+    color: '#4b5563',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  albumHint: {
+    fontSize: 14,
+    color: '#6b7280',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  albumRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  albumInfo: {
+    flex: 1,
+  },
+  albumTitle: {
+    fontSize: 16,
+    color: '#1f2937',
+    fontWeight: '500',
+  },
+  albumCount: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  albumCheckbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#d1d5db',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  albumCheckboxChecked: {
+    backgroundColor: '#dc2626',
+    borderColor: '#dc2626',
+  },
   processingContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -622,6 +878,22 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 5,
   },
+  neverMatchButton: {
+    position: 'absolute',
+    top: 8,
+    left: 8,
+    backgroundColor: '#4b5563',
+    borderRadius: 20,
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
   similarPhotoInfo: {
     position: 'absolute',
     bottom: 0,
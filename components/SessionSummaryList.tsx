@@ -0,0 +1,76 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Camera } from 'lucide-react-native';
+import { formatSessionLabel, Session } from '@/utils/sessions';
+
+interface SessionSummaryListProps {
+  sessions: Session[];
+  maxSessions?: number;
+}
+
+/**
+ * Shooting sessions with the most near-duplicates, e.g. "Saturday afternoon, Mar 2: 14 near-duplicates"
+ */
+export function SessionSummaryList({ sessions, maxSessions = 5 }: SessionSummaryListProps) {
+  const topSessions = sessions
+    .filter(session => session.duplicateCount > 0)
+    .sort((a, b) => b.duplicateCount - a.duplicateCount || b.start - a.start)
+    .slice(0, maxSessions);
+
+  if (topSessions.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Sessions with duplicates</Text>
+      {topSessions.map(session => (
+        <View key={session.id} style={styles.row}>
+          <Camera size={14} color="#6b7280" />
+          <Text style={styles.label} numberOfLines={1}>
+            {formatSessionLabel(session)}
+          </Text>
+          <Text style={styles.count}>
+            {session.duplicateCount} near-duplicate{session.duplicateCount > 1 ? 's' : ''}
+          </Text>
+          <Text style={styles.photoCount}>
+            of {session.photoCount}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    gap: 8,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  label: {
+    flex: 1,
+    fontSize: 13,
+    color: '#374151',
+  },
+  count: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+  photoCount: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+});
@@ -0,0 +1,89 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Clock } from 'lucide-react-native';
+import {
+  getTimeWindowStrategyInfo,
+  TIME_WINDOW_STRATEGIES,
+  TimeWindowStrategy,
+} from '@/utils/timeWindow';
+
+interface TimeWindowStrategyPickerProps {
+  value: TimeWindowStrategy;
+  onChange: (strategy: TimeWindowStrategy) => void;
+  disabled?: boolean;
+}
+
+export function TimeWindowStrategyPicker({ value, onChange, disabled }: TimeWindowStrategyPickerProps) {
+  return (
+    <View style={styles.container}>
+      <View style={styles.segments}>
+        {TIME_WINDOW_STRATEGIES.map(({ strategy, label }) => {
+          const isSelected = strategy === value;
+          return (
+            <TouchableOpacity
+              key={strategy}
+              style={[styles.segment, isSelected && styles.segmentSelected]}
+              onPress={() => !isSelected && onChange(strategy)}
+              disabled={disabled}
+              activeOpacity={0.8}
+            >
+              <Text style={[styles.segmentText, isSelected && styles.segmentTextSelected]}>
+                {label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <View style={styles.descriptionRow}>
+        <Clock size={12} color="#6b7280" />
+        <Text style={styles.descriptionText}>
+          Matches {getTimeWindowStrategyInfo(value).description}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    gap: 8,
+  },
+  segments: {
+    flexDirection: 'row',
+    backgroundColor: '#f3f4f6',
+    borderRadius: 8,
+    padding: 2,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  segmentSelected: {
+    backgroundColor: '#ffffff',
+  },
+  segmentText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#6b7280',
+  },
+  segmentTextSelected: {
+    color: '#1f2937',
+    fontWeight: '600',
+  },
+  descriptionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  descriptionText: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+});
@@ -0,0 +1,6 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// The native pHash module is not built under Jest; utils fall back to the JS implementation
+jest.mock('./modules/expo-phash/src/index', () => null);
@@ -0,0 +1,374 @@
+package expo.modules.phash
+
+import kotlin.math.*
+
+/**
+ * Hashing pipeline on luminance buffers, kept free of Android types so it can run
+ * in JVM unit tests. It mirrors utils/hashReference.ts and utils/hashAlgorithms.ts
+ * operation for operation, and both must reproduce fixtures/hash-vectors.json exactly.
+ */
+object HashReference {
+  // Same order as ORIENTATIONS in utils/hashAlgorithms.ts
+  val ORIENTATIONS = listOf(
+    Pair(1, false), Pair(2, false), Pair(3, false),
+    Pair(0, true), Pair(1, true), Pair(2, true), Pair(3, true)
+  )
+
+  // Same tiles as REGION_TILES in utils/hashAlgorithms.ts: (x, y, size) in a 128x128 thumbnail
+  const val REGION_INPUT_SIZE = 128
+  val REGION_TILES =
+    listOf(0, 32, 64).flatMap { y -> listOf(0, 32, 64).map { x -> Triple(x, y, 64) } } +
+    listOf(0, 32).flatMap { y -> listOf(0, 32).map { x -> Triple(x, y, 96) } }
+
+  fun luminance(r: Int, g: Int, b: Int): Double = 0.299 * r + 0.587 * g + 0.114 * b
+
+  // Same sizes as PHASH_SIZES in utils/hashAlgorithms.ts
+  val PHASH_SIZES = listOf(8, 16, 32)
+  const val DEFAULT_PHASH_SIZE = 8
+  const val DEFAULT_PHASH_INPUT_SIZE = 32
+
+  // Thumbnail (width, height) each algorithm hashes; the pHash input size is configurable
+  fun inputSize(algorithm: String, phashInputSize: Int = DEFAULT_PHASH_INPUT_SIZE): Pair<Int, Int> = when (algorithm) {
+    "ahash" -> Pair(8, 8)
+    "dhash" -> Pair(9, 8)
+    "whash" -> Pair(64, 64)
+    "phash" -> Pair(phashInputSize, phashInputSize)
+    else -> throw Exception("Unknown hash algorithm: $algorithm")
+  }
+
+  fun bits(algorithm: String, phashSize: Int = DEFAULT_PHASH_SIZE): Int =
+    if (algorithm == "phash") phashSize * phashSize else 64
+
+  fun hashFunction(
+    algorithm: String,
+    phashSize: Int = DEFAULT_PHASH_SIZE,
+    phashInputSize: Int = DEFAULT_PHASH_INPUT_SIZE
+  ): (DoubleArray) -> String = when (algorithm) {
+    "ahash" -> this::averageHash
+    "dhash" -> this::differenceHash
+    "whash" -> this::waveletHash
+    "phash" -> { pixels -> perceptualHash(pixels, phashInputSize, phashSize) }
+    else -> throw Exception("Unknown hash algorithm: $algorithm")
+  }
+
+  // Same checks as createPerceptualHash in utils/hashAlgorithms.ts
+  fun validatePHashSize(hashSize: Int, inputSize: Int) {
+    if (hashSize !in PHASH_SIZES) {
+      throw Exception("Unsupported pHash size: $hashSize")
+    }
+    if (inputSize < hashSize) {
+      throw Exception("pHash input size must be an integer of at least $hashSize: $inputSize")
+    }
+  }
+
+  /**
+   * Canonical resize, see resizeGrayscale in utils/hashReference.ts: each destination
+   * pixel is the area average of the source pixels it covers, rows first, then columns.
+   * readRow fills in the luminance of one source row, so large images are read a row at a time.
+   */
+  fun resizeGrayscale(
+    srcWidth: Int,
+    srcHeight: Int,
+    dstWidth: Int,
+    dstHeight: Int,
+    readRow: (y: Int, row: DoubleArray) -> Unit
+  ): DoubleArray {
+    val (columnStarts, columnWeights) = axisWeights(srcWidth, dstWidth)
+    val (rowStarts, rowWeights) = axisWeights(srcHeight, dstHeight)
+
+    // Row pass: srcHeight rows of dstWidth pixels
+    val row = DoubleArray(srcWidth)
+    val intermediate = DoubleArray(dstWidth * srcHeight)
+    for (y in 0 until srcHeight) {
+      readRow(y, row)
+      for (x in 0 until dstWidth) {
+        val start = columnStarts[x]
+        val weights = columnWeights[x]
+        var sum = 0.0
+        for (k in weights.indices) {
+          sum += row[start + k] * weights[k]
+        }
+        intermediate[y * dstWidth + x] = sum
+      }
+    }
+
+    // Column pass over the row results
+    val resized = DoubleArray(dstWidth * dstHeight)
+    for (y in 0 until dstHeight) {
+      val start = rowStarts[y]
+      val weights = rowWeights[y]
+      for (x in 0 until dstWidth) {
+        var sum = 0.0
+        for (k in weights.indices) {
+          sum += intermediate[(start + k) * dstWidth + x] * weights[k]
+        }
+        resized[y * dstWidth + x] = sum
+      }
+    }
+
+    return resized
+  }
+
+  fun resizeGrayscale(pixels: DoubleArray, srcWidth: Int, srcHeight: Int, dstWidth: Int, dstHeight: Int): DoubleArray {
+    return resizeGrayscale(srcWidth, srcHeight, dstWidth, dstHeight) { y, row ->
+      System.arraycopy(pixels, y * srcWidth, row, 0, srcWidth)
+    }
+  }
+
+  // Source span [d * src / dst, (d + 1) * src / dst) of each destination pixel, as the
+  // first source index and the overlap weight of each source pixel from there on
+  private fun axisWeights(srcSize: Int, dstSize: Int): Pair<IntArray, Array<DoubleArray>> {
+    val starts = IntArray(dstSize)
+    val weights = Array(dstSize) { d ->
+      val start = d.toDouble() * srcSize / dstSize
+      val end = (d + 1).toDouble() * srcSize / dstSize
+      val first = floor(start).toInt()
+      starts[d] = first
+
+      val row = mutableListOf<Double>()
+      var i = first
+      while (i < end) {
+        row.add((min(i + 1.0, end) - max(i.toDouble(), start)) / (end - start))
+        i++
+      }
+      row.toDoubleArray()
+    }
+    return Pair(starts, weights)
+  }
+
+  // Rotate a square grayscale buffer clockwise by rotation * 90 degrees, mirroring it first if requested
+  fun transformGrayscale(pixels: DoubleArray, size: Int, rotation: Int, mirror: Boolean): DoubleArray =
+    transformGrayscale(pixels, size, size, rotation, mirror)
+
+  // Same for a width x height buffer; a quarter turn swaps the sides, so the result is height x width
+  fun transformGrayscale(pixels: DoubleArray, width: Int, height: Int, rotation: Int, mirror: Boolean): DoubleArray {
+    val outWidth = if (rotation % 2 == 1) height else width
+    return DoubleArray(width * height) { index ->
+      val x = index % outWidth
+      val y = index / outWidth
+      var srcX = x
+      var srcY = y
+      when (rotation % 4) {
+        1 -> { srcX = y; srcY = height - 1 - x }
+        2 -> { srcX = width - 1 - x; srcY = height - 1 - y }
+        3 -> { srcX = width - 1 - y; srcY = x }
+      }
+      if (mirror) srcX = width - 1 - srcX
+      pixels[srcY * width + srcX]
+    }
+  }
+
+  // pHash every REGION_TILES tile of a 128x128 grayscale thumbnail for crop-tolerant matching
+  fun regionalHashes(pixels: DoubleArray): List<String> {
+    return REGION_TILES.map { (tileX, tileY, tileSize) ->
+      // Box-filter the tile down to the 32x32 pHash input
+      val scale = tileSize / 32
+      val tilePixels = DoubleArray(32 * 32) { index ->
+        val row = index / 32
+        val col = index % 32
+        var sum = 0.0
+        for (dy in 0 until scale) {
+          val offset = (tileY + row * scale + dy) * REGION_INPUT_SIZE + tileX + col * scale
+          for (dx in 0 until scale) {
+            sum += pixels[offset + dx]
+          }
+        }
+        sum / (scale * scale)
+      }
+      perceptualHash(tilePixels)
+    }
+  }
+
+  // DCT perceptual hash keeping the hashSize x hashSize low-frequency block of an inputSize x inputSize thumbnail
+  fun perceptualHash(
+    pixels: DoubleArray,
+    inputSize: Int = DEFAULT_PHASH_INPUT_SIZE,
+    hashSize: Int = DEFAULT_PHASH_SIZE
+  ): String {
+    return generateHashFromDCT(applyDCT(pixels, inputSize, hashSize))
+  }
+
+  // Average hash: 8x8 thumbnail thresholded at its mean
+  fun averageHash(pixels: DoubleArray): String {
+    val mean = pixels.average()
+    return bitsToHex(BooleanArray(pixels.size) { i -> pixels[i] > mean })
+  }
+
+  // Difference hash: compares horizontally adjacent pixels of a 9x8 thumbnail
+  fun differenceHash(pixels: DoubleArray): String {
+    val bits = BooleanArray(64) { i ->
+      val row = i / 8
+      val col = i % 8
+      pixels[row * 9 + col] < pixels[row * 9 + col + 1]
+    }
+    return bitsToHex(bits)
+  }
+
+  // Haar wavelet hash: LL band of a 64x64 thumbnail reduced to 8x8, thresholded at its median
+  fun waveletHash(pixels: DoubleArray): String {
+    var size = 64
+    var band = pixels
+
+    while (size > 8) {
+      val half = size / 2
+      val current = band
+      val currentSize = size
+      band = DoubleArray(half * half) { index ->
+        val i = (index / half) * 2 * currentSize + (index % half) * 2
+        (current[i] + current[i + 1] + current[i + currentSize] + current[i + currentSize + 1]) / 2.0
+      }
+      size = half
+    }
+
+    val median = band.sorted()[band.size / 2]
+    return bitsToHex(BooleanArray(band.size) { i -> band[i] > median })
+  }
+
+  // Sharpness (variance of the 4-neighbour Laplacian) and exposure of a grayscale image,
+  // as computeImageQualityMetrics in utils/photoQuality.ts
+  fun qualityMetrics(pixels: DoubleArray, width: Int, height: Int): Map<String, Double> {
+    var luminanceSum = 0.0
+    var shadows = 0
+    var highlights = 0
+    for (i in 0 until width * height) {
+      luminanceSum += pixels[i]
+      if (pixels[i] <= 5) shadows++
+      if (pixels[i] >= 250) highlights++
+    }
+
+    var sum = 0.0
+    var sumOfSquares = 0.0
+    var count = 0
+    for (y in 1 until height - 1) {
+      for (x in 1 until width - 1) {
+        val i = y * width + x
+        val laplacian = pixels[i - width] + pixels[i + width] + pixels[i - 1] + pixels[i + 1] - 4 * pixels[i]
+        sum += laplacian
+        sumOfSquares += laplacian * laplacian
+        count++
+      }
+    }
+    val mean = if (count > 0) sum / count else 0.0
+
+    val pixelCount = max(1, width * height).toDouble()
+    return mapOf(
+      "sharpness" to (if (count > 0) sumOfSquares / count - mean * mean else 0.0),
+      "meanLuminance" to luminanceSum / pixelCount,
+      "shadowClipping" to shadows / pixelCount,
+      "highlightClipping" to highlights / pixelCount
+    )
+  }
+
+  // Uppercase hex, zero-padding the last nibble
+  private fun bitsToHex(bits: BooleanArray): String {
+    val hexHash = StringBuilder()
+    var i = 0
+    while (i < bits.size) {
+      var nibble = 0
+      for (j in 0 until 4) {
+        nibble = (nibble shl 1) or (if (i + j < bits.size && bits[i + j]) 1 else 0)
+      }
+      hexHash.append(nibble.toString(16))
+      i += 4
+    }
+    return hexHash.toString().uppercase()
+  }
+
+  // Cosine basis tables indexed [k * size + n], cached per size and frequency count.
+  // StrictMath is fdlibm, the same cosine JS engines use, so the tables match bit for bit.
+  private val cosineTables = java.util.concurrent.ConcurrentHashMap<Pair<Int, Int>, DoubleArray>()
+
+  private fun getCosineTable(size: Int, count: Int): DoubleArray {
+    return cosineTables.getOrPut(Pair(size, count)) {
+      DoubleArray(count * size) { index ->
+        val k = index / size
+        val n = index % size
+        StrictMath.cos((2 * n + 1) * k * PI / (2 * size))
+      }
+    }
+  }
+
+  // Separable row/column DCT that only computes the low-frequency block used by the hash
+  fun applyDCT(pixels: DoubleArray, size: Int, outputSize: Int = 8): Array<DoubleArray> {
+    val cosTable = getCosineTable(size, outputSize)
+
+    // Row pass: transform each row, keeping only the low frequencies
+    val rowDCT = DoubleArray(size * outputSize)
+    for (x in 0 until size) {
+      for (v in 0 until outputSize) {
+        var sum = 0.0
+        for (y in 0 until size) {
+          sum += pixels[x * size + y] * cosTable[v * size + y]
+        }
+        rowDCT[x * outputSize + v] = sum
+      }
+    }
+
+    // Column pass over the row results, then apply normalization factors
+    val dct = Array(outputSize) { DoubleArray(outputSize) }
+    for (u in 0 until outputSize) {
+      val alphaU = if (u == 0) 1.0 / sqrt(2.0) else 1.0
+      for (v in 0 until outputSize) {
+        var sum = 0.0
+        for (x in 0 until size) {
+          sum += cosTable[u * size + x] * rowDCT[x * outputSize + v]
+        }
+
+        val alphaV = if (v == 0) 1.0 / sqrt(2.0) else 1.0
+        dct[u][v] = (2.0 / size) * alphaU * alphaV * sum
+      }
+    }
+
+    return dct
+  }
+
+  fun generateHashFromDCT(dctCoefficients: Array<DoubleArray>): String {
+    // Use the whole low-frequency block, DC component included
+    val hashSize = dctCoefficients.size
+    val coefficients = mutableListOf<Double>()
+
+    for (i in 0 until hashSize) {
+      for (j in 0 until hashSize) {
+        coefficients.add(dctCoefficients[i][j])
+      }
+    }
+
+    // Median of an even count: mean of the two middle coefficients
+    val sortedCoefficients = coefficients.sorted()
+    val middle = sortedCoefficients.size / 2
+    val median = (sortedCoefficients[middle - 1] + sortedCoefficients[middle]) / 2.0
+
+    return bitsToHex(BooleanArray(coefficients.size) { i -> coefficients[i] > median })
+  }
+
+  fun hammingDistance(hash1: String, hash2: String): Int {
+    // Versioned hashes must share their whole format prefix, legacy ones their length
+    if (hash1.length != hash2.length || hash1.substringBeforeLast(':', "") != hash2.substringBeforeLast(':', "")) {
+      throw Exception("Cannot compare hashes of different formats")
+    }
+
+    return hammingDistance(packHash(hash1), packHash(hash2))
+  }
+
+  fun hammingDistance(hash1: LongArray, hash2: LongArray): Int {
+    if (hash1.size != hash2.size) {
+      throw Exception("Hash lengths must be equal")
+    }
+
+    var distance = 0
+    for (i in hash1.indices) {
+      distance += java.lang.Long.bitCount(hash1[i] xor hash2[i])
+    }
+
+    return distance
+  }
+
+  // Pack a hex hash into 64-bit words (16 hex digits per word), skipping any
+  // versioned format prefix (see utils/hashFormat.ts)
+  fun packHash(hash: String): LongArray {
+    val hex = hash.substringAfterLast(':')
+    return LongArray((hex.length + 15) / 16) { i ->
+      java.lang.Long.parseUnsignedLong(hex.substring(i * 16, minOf((i + 1) * 16, hex.length)), 16)
+    }
+  }
+}
@@ -5,180 +5,262 @@ import expo.modules.kotlin.modules.ModuleDefinition
 import expo.modules.kotlin.Promise
 import android.graphics.Bitmap
 import android.graphics.BitmapFactory
+import android.media.ExifInterface
 import android.net.Uri
 import java.io.InputStream
-import kotlin.math.*
+import java.security.MessageDigest
 
 class PHashModule : Module() {
+  // A bitmap decoded at reduced size, with its EXIF orientation still to apply as
+  // clockwise quarter turns after an optional mirror, like HashReference.transformGrayscale
+  private class OrientedBitmap(val bitmap: Bitmap, val rotation: Int, val mirror: Boolean)
+
   override fun definition() = ModuleDefinition {
     Name("PHash")
 
-    AsyncFunction("calculatePHash") { imageUri: String, promise: Promise ->
+    AsyncFunction("calculatePHash") { imageUri: String, hashSize: Int, inputSize: Int, promise: Promise ->
       try {
-        val hash = calculatePerceptualHash(imageUri)
+        val hash = calculatePerceptualHash(imageUri, hashSize, inputSize)
         promise.resolve(hash)
       } catch (e: Exception) {
         promise.reject("PHASH_ERROR", "Failed to calculate pHash: ${e.message}", e)
       }
     }
 
+    AsyncFunction("calculateHashes") { imageUri: String, algorithms: List<String>, includeOrientations: Boolean, includeRegions: Boolean, phashSize: Int, phashInputSize: Int, promise: Promise ->
+      try {
+        promise.resolve(calculateHashes(imageUri, algorithms, includeOrientations, includeRegions, phashSize, phashInputSize))
+      } catch (e: Exception) {
+        promise.reject("PHASH_ERROR", "Failed to calculate image hashes: ${e.message}", e)
+      }
+    }
+
+    AsyncFunction("calculateContentDigest") { imageUri: String, promise: Promise ->
+      try {
+        promise.resolve(calculateContentDigest(imageUri))
+      } catch (e: Exception) {
+        promise.reject("DIGEST_ERROR", "Failed to calculate content digest: ${e.message}", e)
+      }
+    }
+
+    AsyncFunction("calculateQualityMetrics") { imageUri: String, inputSize: Int, promise: Promise ->
+      try {
+        promise.resolve(calculateQualityMetrics(imageUri, inputSize))
+      } catch (e: Exception) {
+        promise.reject("QUALITY_ERROR", "Failed to measure image quality: ${e.message}", e)
+      }
+    }
+
     AsyncFunction("calculateHammingDistance") { hash1: String, hash2: String, promise: Promise ->
       try {
-        val distance = hammingDistance(hash1, hash2)
+        val distance = HashReference.hammingDistance(hash1, hash2)
         promise.resolve(distance)
       } catch (e: Exception) {
         promise.reject("HAMMING_ERROR", "Failed to calculate Hamming distance: ${e.message}", e)
       }
     }
+
+    AsyncFunction("calculateHammingDistances") { hash: String, candidates: List<String>, promise: Promise ->
+      try {
+        val packedHash = HashReference.packHash(hash)
+        val distances = candidates.map { candidate -> HashReference.hammingDistance(packedHash, HashReference.packHash(candidate)) }
+        promise.resolve(distances)
+      } catch (e: Exception) {
+        promise.reject("HAMMING_ERROR", "Failed to calculate Hamming distances: ${e.message}", e)
+      }
+    }
   }
 
-  private fun calculatePerceptualHash(imageUri: String): String {
-    val context = appContext.reactContext ?: throw Exception("React context not available")
-    
-    // Load and decode the image
-    val inputStream: InputStream = when {
-      imageUri.startsWith("content://") -> {
-        context.contentResolver.openInputStream(Uri.parse(imageUri))
-          ?: throw Exception("Could not open content URI")
+  private fun calculatePerceptualHash(imageUri: String, hashSize: Int, inputSize: Int): String {
+    HashReference.validatePHashSize(hashSize, inputSize)
+    val image = decodeImage(imageUri, inputSize)
+    try {
+      return HashReference.perceptualHash(resizeToGrayscale(image, inputSize, inputSize), inputSize, hashSize)
+    } finally {
+      image.bitmap.recycle()
+    }
+  }
+
+  // Decode once and run each requested algorithm on its own thumbnail size
+  private fun calculateHashes(
+    imageUri: String,
+    algorithms: List<String>,
+    includeOrientations: Boolean,
+    includeRegions: Boolean,
+    phashSize: Int,
+    phashInputSize: Int
+  ): List<Map<String, Any>> {
+    HashReference.validatePHashSize(phashSize, phashInputSize)
+    val regionSize = if (includeRegions && "phash" in algorithms) HashReference.REGION_INPUT_SIZE else 0
+    val thumbnailSize = algorithms.maxOfOrNull { algorithm ->
+      val (width, height) = HashReference.inputSize(algorithm, phashInputSize)
+      maxOf(width, height, regionSize)
+    } ?: return emptyList()
+    val image = decodeImage(imageUri, thumbnailSize)
+
+    try {
+      return algorithms.map { algorithm ->
+        val (width, height) = HashReference.inputSize(algorithm, phashInputSize)
+        val grayscalePixels = resizeToGrayscale(image, width, height)
+        val hashPixels = HashReference.hashFunction(algorithm, phashSize, phashInputSize)
+
+        val result = mutableMapOf<String, Any>(
+          "algorithm" to algorithm,
+          "bits" to HashReference.bits(algorithm, phashSize),
+          "value" to hashPixels(grayscalePixels)
+        )
+
+        // Orientation families need a square thumbnail
+        if (includeOrientations && width == height) {
+          result["orientations"] = HashReference.ORIENTATIONS.map { (rotation, mirror) ->
+            hashPixels(HashReference.transformGrayscale(grayscalePixels, width, rotation, mirror))
+          }
+        }
+
+        if (includeRegions && algorithm == "phash") {
+          result["regions"] = HashReference.regionalHashes(resizeToGrayscale(image, regionSize, regionSize))
+        }
+
+        result
       }
-      imageUri.startsWith("file://") -> {
-        val file = java.io.File(Uri.parse(imageUri).path!!)
-        file.inputStream()
+    } finally {
+      image.bitmap.recycle()
+    }
+  }
+
+  // SHA-256 over the raw file bytes, streamed so large files are never held in memory
+  private fun calculateContentDigest(imageUri: String): String {
+    val digest = MessageDigest.getInstance("SHA-256")
+    openImageStream(imageUri).use { stream ->
+      val buffer = ByteArray(64 * 1024)
+      while (true) {
+        val read = stream.read(buffer)
+        if (read == -1) break
+        digest.update(buffer, 0, read)
       }
-      else -> {
-        val file = java.io.File(imageUri)
-        file.inputStream()
+    }
+    return digest.digest().joinToString("") { "%02x".format(it) }
+  }
+
+  // Sharpness and exposure on the canonical grayscale thumbnail, plus the file size
+  private fun calculateQualityMetrics(imageUri: String, inputSize: Int): Map<String, Double> {
+    val image = decodeImage(imageUri, inputSize)
+    val metrics = try {
+      HashReference.qualityMetrics(resizeToGrayscale(image, inputSize, inputSize), inputSize, inputSize)
+    } finally {
+      image.bitmap.recycle()
+    }
+    val fileSize = calculateFileSize(imageUri) ?: return metrics
+    return metrics + ("fileSize" to fileSize.toDouble())
+  }
+
+  // From the file or the provider's descriptor, without reading the bytes; null when unknown
+  private fun calculateFileSize(imageUri: String): Long? {
+    val context = appContext.reactContext ?: throw Exception("React context not available")
+
+    val size = when {
+      imageUri.startsWith("content://") -> {
+        context.contentResolver.openAssetFileDescriptor(Uri.parse(imageUri), "r")?.use { it.length }
       }
+      imageUri.startsWith("file://") -> java.io.File(Uri.parse(imageUri).path!!).length()
+      else -> java.io.File(imageUri).length()
+    }
+    return size?.takeIf { it > 0 }
+  }
+
+  // Decode no larger than the thumbnails need: read the dimensions first, then let the
+  // decoder subsample. The image stays DECODE_OVERSAMPLING times the largest thumbnail,
+  // so the canonical resize still does most of the filtering.
+  private fun decodeImage(imageUri: String, thumbnailSize: Int): OrientedBitmap {
+    val bounds = BitmapFactory.Options().apply { inJustDecodeBounds = true }
+    openImageStream(imageUri).use { BitmapFactory.decodeStream(it, null, bounds) }
+    if (bounds.outWidth <= 0 || bounds.outHeight <= 0) {
+      throw Exception("Could not decode image")
     }
 
-    val originalBitmap = BitmapFactory.decodeStream(inputStream)
+    val options = BitmapFactory.Options().apply {
+      inSampleSize = sampleSize(bounds.outWidth, bounds.outHeight, thumbnailSize * DECODE_OVERSAMPLING)
+    }
+    val bitmap = openImageStream(imageUri).use { BitmapFactory.decodeStream(it, null, options) }
       ?: throw Exception("Could not decode image")
-    
-    inputStream.close()
-
-    // Resize to 32x32 for DCT processing
-    val resizedBitmap = Bitmap.createScaledBitmap(originalBitmap, 32, 32, true)
-    
-    // Convert to grayscale
-    val grayscalePixels = convertToGrayscale(resizedBitmap)
-    
-    // Apply DCT
-    val dctCoefficients = applyDCT(grayscalePixels, 32)
-    
-    // Generate hash
-    val hash = generateHashFromDCT(dctCoefficients)
-    
-    // Clean up
-    if (resizedBitmap != originalBitmap) {
-      resizedBitmap.recycle()
-    }
-    originalBitmap.recycle()
-    
-    return hash
+
+    val (rotation, mirror) = exifTransform(readExifOrientation(imageUri))
+    return OrientedBitmap(bitmap, rotation, mirror)
   }
 
-  private fun convertToGrayscale(bitmap: Bitmap): DoubleArray {
-    val width = bitmap.width
-    val height = bitmap.height
-    val pixels = IntArray(width * height)
-    bitmap.getPixels(pixels, 0, width, 0, 0, width, height)
-    
-    val grayscale = DoubleArray(width * height)
-    
-    for (i in pixels.indices) {
-      val pixel = pixels[i]
-      val r = (pixel shr 16) and 0xFF
-      val g = (pixel shr 8) and 0xFF
-      val b = pixel and 0xFF
-      
-      // Use luminance formula for grayscale conversion
-      grayscale[i] = 0.299 * r + 0.587 * g + 0.114 * b
-    }
-    
-    return grayscale
+  // Largest power of two that keeps both sides of the decoded image at least minSize
+  private fun sampleSize(width: Int, height: Int, minSize: Int): Int {
+    var sampleSize = 1
+    while (width / (sampleSize * 2) >= minSize && height / (sampleSize * 2) >= minSize) {
+      sampleSize *= 2
+    }
+    return sampleSize
   }
 
-  private fun applyDCT(pixels: DoubleArray, size: Int): Array<DoubleArray> {
-    val dct = Array(size) { DoubleArray(size) }
-    
-    for (u in 0 until size) {
-      for (v in 0 until size) {
-        var sum = 0.0
-        
-        for (x in 0 until size) {
-          for (y in 0 until size) {
-            val pixelValue = pixels[x * size + y]
-            val cosU = cos((2 * x + 1) * u * PI / (2 * size))
-            val cosV = cos((2 * y + 1) * v * PI / (2 * size))
-            sum += pixelValue * cosU * cosV
-          }
-        }
-        
-        // Apply normalization factors
-        val alphaU = if (u == 0) 1.0 / sqrt(2.0) else 1.0
-        val alphaV = if (v == 0) 1.0 / sqrt(2.0) else 1.0
-        
-        dct[u][v] = (2.0 / size) * alphaU * alphaV * sum
+  private fun openImageStream(imageUri: String): InputStream {
+    val context = appContext.reactContext ?: throw Exception("React context not available")
+
+    return when {
+      imageUri.startsWith("content://") -> {
+        context.contentResolver.openInputStream(Uri.parse(imageUri))
+          ?: throw Exception("Could not open content URI")
       }
+      imageUri.startsWith("file://") -> java.io.File(Uri.parse(imageUri).path!!).inputStream()
+      else -> java.io.File(imageUri).inputStream()
     }
-    
-    return dct
   }
 
-  private fun generateHashFromDCT(dctCoefficients: Array<DoubleArray>): String {
-    // Use top-left 8x8 DCT coefficients (excluding DC component at [0,0])
-    val hashSize = 8
-    val coefficients = mutableListOf<Double>()
-    
-    for (i in 0 until hashSize) {
-      for (j in 0 until hashSize) {
-        if (i == 0 && j == 0) continue // Skip DC component
-        coefficients.add(dctCoefficients[i][j])
+  private fun readExifOrientation(imageUri: String): Int {
+    return try {
+      openImageStream(imageUri).use { stream ->
+        ExifInterface(stream).getAttributeInt(ExifInterface.TAG_ORIENTATION, ExifInterface.ORIENTATION_NORMAL)
       }
+    } catch (e: Exception) {
+      ExifInterface.ORIENTATION_NORMAL
     }
-    
-    // Calculate median of coefficients
-    val sortedCoefficients = coefficients.sorted()
-    val median = sortedCoefficients[sortedCoefficients.size / 2]
-    
-    // Generate binary hash based on median comparison
-    val binaryHash = StringBuilder()
-    for (coeff in coefficients) {
-      binaryHash.append(if (coeff > median) '1' else '0')
-    }
-    
-    // Convert binary to hexadecimal
-    val hexHash = StringBuilder()
-    var i = 0
-    while (i < binaryHash.length) {
-      val binaryChunk = binaryHash.substring(i, minOf(i + 4, binaryHash.length))
-      val paddedChunk = binaryChunk.padEnd(4, '0')
-      hexHash.append(paddedChunk.toInt(2).toString(16))
-      i += 4
-    }
-    
-    return hexHash.toString().uppercase()
   }
 
-  private fun hammingDistance(hash1: String, hash2: String): Int {
-    if (hash1.length != hash2.length) {
-      throw Exception("Hash lengths must be equal")
-    }
-    
-    var distance = 0
-    
-    for (i in hash1.indices) {
-      val int1 = hash1[i].toString().toInt(16)
-      val int2 = hash2[i].toString().toInt(16)
-      
-      // XOR and count set bits
-      var xor = int1 xor int2
-      while (xor != 0) {
-        distance += xor and 1
-        xor = xor shr 1
+  // EXIF orientation as (clockwise quarter turns, mirror first), so the image is hashed
+  // the way it is displayed. Transpose and transverse are a mirror plus a quarter turn.
+  private fun exifTransform(orientation: Int): Pair<Int, Boolean> = when (orientation) {
+    ExifInterface.ORIENTATION_ROTATE_90 -> Pair(1, false)
+    ExifInterface.ORIENTATION_ROTATE_180 -> Pair(2, false)
+    ExifInterface.ORIENTATION_ROTATE_270 -> Pair(3, false)
+    ExifInterface.ORIENTATION_FLIP_HORIZONTAL -> Pair(0, true)
+    ExifInterface.ORIENTATION_FLIP_VERTICAL -> Pair(2, true)
+    ExifInterface.ORIENTATION_TRANSPOSE -> Pair(3, true)
+    ExifInterface.ORIENTATION_TRANSVERSE -> Pair(1, true)
+    else -> Pair(0, false)
+  }
+
+  // Thumbnail of the image as displayed. The EXIF transform runs on the small grayscale
+  // buffer instead of the bitmap; a quarter turn swaps the sides, so the bitmap is resized
+  // to height x width first. The area average works on rows and columns separately, so
+  // this gives the same thumbnail as resizing the rotated image.
+  private fun resizeToGrayscale(image: OrientedBitmap, width: Int, height: Int): DoubleArray {
+    val quarterTurn = image.rotation % 2 == 1
+    val srcWidth = if (quarterTurn) height else width
+    val srcHeight = if (quarterTurn) width else height
+    val pixels = resizeToGrayscale(image.bitmap, srcWidth, srcHeight)
+    if (image.rotation == 0 && !image.mirror) return pixels
+    return HashReference.transformGrayscale(pixels, srcWidth, srcHeight, image.rotation, image.mirror)
+  }
+
+  // Canonical resize (HashReference.resizeGrayscale) straight from the decoded bitmap,
+  // reading one row of pixels at a time. Bitmap.createScaledBitmap is not used because
+  // its filtering differs from the web and would break hash parity.
+  private fun resizeToGrayscale(bitmap: Bitmap, width: Int, height: Int): DoubleArray {
+    val rowPixels = IntArray(bitmap.width)
+    return HashReference.resizeGrayscale(bitmap.width, bitmap.height, width, height) { y, row ->
+      bitmap.getPixels(rowPixels, 0, bitmap.width, 0, y, bitmap.width, 1)
+      for (x in row.indices) {
+        val pixel = rowPixels[x]
+        row[x] = HashReference.luminance((pixel shr 16) and 0xFF, (pixel shr 8) and 0xFF, pixel and 0xFF)
       }
     }
-    
-    return distance
   }
-}
\ No newline at end of file
+
+  companion object {
+    private const val DECODE_OVERSAMPLING = 4
+  }
+}
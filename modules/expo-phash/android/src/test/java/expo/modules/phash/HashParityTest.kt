@@ -0,0 +1,87 @@
+package expo.modules.phash
+
+import org.json.JSONObject
+import org.junit.Assert.assertArrayEquals
+import org.junit.Assert.assertEquals
+import org.junit.Test
+import java.io.File
+
+// Runs the shared vectors in fixtures/hash-vectors.json, which utils/__tests__/hashReference.test.ts
+// checks against the TypeScript implementation, so both platforms hash bit for bit alike
+class HashParityTest {
+  private val algorithms = listOf("ahash", "dhash", "whash", "phash")
+
+  private val vectors by lazy {
+    val json = JSONObject(File("../fixtures/hash-vectors.json").readText())
+    val array = json.getJSONArray("vectors")
+    (0 until array.length()).map { array.getJSONObject(it) }
+  }
+
+  // Luminance of every source pixel, the same way the module reads bitmap rows
+  private fun grayscale(vector: JSONObject): DoubleArray {
+    val pixels = vector.getJSONArray("pixels")
+    val channels = vector.getInt("channels")
+    return DoubleArray(pixels.length() / channels) { i ->
+      if (channels == 1) {
+        pixels.getDouble(i)
+      } else {
+        HashReference.luminance(pixels.getInt(i * 4), pixels.getInt(i * 4 + 1), pixels.getInt(i * 4 + 2))
+      }
+    }
+  }
+
+  @Test
+  fun reproducesSharedVectors() {
+    for (vector in vectors) {
+      val name = vector.getString("name")
+      val width = vector.getInt("width")
+      val height = vector.getInt("height")
+      val pixels = grayscale(vector)
+      val expected = vector.getJSONObject("expected")
+
+      for (algorithm in algorithms) {
+        val (inputWidth, inputHeight) = HashReference.inputSize(algorithm)
+        val thumbnail = HashReference.resizeGrayscale(pixels, width, height, inputWidth, inputHeight)
+        val hashPixels = HashReference.hashFunction(algorithm)
+        assertEquals("$name $algorithm", expected.getJSONObject("hashes").getString(algorithm), hashPixels(thumbnail))
+
+        val orientations = expected.getJSONObject("orientations").optJSONArray(algorithm) ?: continue
+        HashReference.ORIENTATIONS.forEachIndexed { i, (rotation, mirror) ->
+          val transformed = HashReference.transformGrayscale(thumbnail, inputWidth, rotation, mirror)
+          assertEquals("$name $algorithm orientation $i", orientations.getString(i), hashPixels(transformed))
+        }
+      }
+
+      val regionSize = HashReference.REGION_INPUT_SIZE
+      val regions = HashReference.regionalHashes(HashReference.resizeGrayscale(pixels, width, height, regionSize, regionSize))
+      val expectedRegions = expected.getJSONArray("regions")
+      assertEquals("$name region count", expectedRegions.length(), regions.size)
+      regions.forEachIndexed { i, region ->
+        assertEquals("$name region $i", expectedRegions.getString(i), region)
+      }
+    }
+  }
+
+  // The module applies the EXIF orientation to the thumbnail rather than the full image
+  @Test
+  fun orientsThumbnailsLikeTheOrientedImage() {
+    val width = 23
+    val height = 17
+    val pixels = DoubleArray(width * height) { i -> ((i * 37) % 255).toDouble() }
+
+    for ((rotation, mirror) in listOf(Pair(0, false)) + HashReference.ORIENTATIONS) {
+      val quarterTurn = rotation % 2 == 1
+      val oriented = HashReference.transformGrayscale(pixels, width, height, rotation, mirror)
+      val expected = if (quarterTurn) {
+        HashReference.resizeGrayscale(oriented, height, width, 9, 8)
+      } else {
+        HashReference.resizeGrayscale(oriented, width, height, 9, 8)
+      }
+
+      val (thumbnailWidth, thumbnailHeight) = if (quarterTurn) Pair(8, 9) else Pair(9, 8)
+      val thumbnail = HashReference.resizeGrayscale(pixels, width, height, thumbnailWidth, thumbnailHeight)
+      val actual = HashReference.transformGrayscale(thumbnail, thumbnailWidth, thumbnailHeight, rotation, mirror)
+      assertArrayEquals("rotation $rotation mirror $mirror", expected, actual, 1e-9)
+    }
+  }
+}
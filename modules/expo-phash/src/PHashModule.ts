@@ -1,8 +1,22 @@
 import { NativeModule, requireNativeModule } from 'expo';
 
 declare class PHashModule extends NativeModule {
-  calculatePHash(imageUri: string): Promise<string>;
+  calculatePHash(imageUri: string, hashSize: number, inputSize: number): Promise<string>;
+  calculateHashes(
+    imageUri: string,
+    algorithms: string[],
+    includeOrientations: boolean,
+    includeRegions: boolean,
+    phashSize: number,
+    phashInputSize: number
+  ): Promise<{ algorithm: string; bits: number; value: string; orientations?: string[]; regions?: string[] }[]>;
+  calculateContentDigest(imageUri: string): Promise<string>;
+  calculateQualityMetrics(
+    imageUri: string,
+    inputSize: number
+  ): Promise<{ sharpness: number; meanLuminance: number; shadowClipping: number; highlightClipping: number; fileSize?: number }>;
   calculateHammingDistance(hash1: string, hash2: string): Promise<number>;
+  calculateHammingDistances(hash: string, candidates: string[]): Promise<number[]>;
 }
 
 export default requireNativeModule('PHash');
\ No newline at end of file
@@ -1,13 +1,39 @@
 import PHashModule from './PHashModule';
 
-export async function calculatePHash(imageUri: string): Promise<string> {
-  return await PHashModule.calculatePHash(imageUri);
+export async function calculatePHash(imageUri: string, hashSize: number = 8, inputSize: number = 32): Promise<string> {
+  return await PHashModule.calculatePHash(imageUri, hashSize, inputSize);
+}
+
+export async function calculateHashes(
+  imageUri: string,
+  algorithms: string[],
+  includeOrientations: boolean = false,
+  includeRegions: boolean = false,
+  phashSize: number = 8,
+  phashInputSize: number = 32
+): Promise<{ algorithm: string; bits: number; value: string; orientations?: string[]; regions?: string[] }[]> {
+  return await PHashModule.calculateHashes(imageUri, algorithms, includeOrientations, includeRegions, phashSize, phashInputSize);
+}
+
+export async function calculateContentDigest(imageUri: string): Promise<string> {
+  return await PHashModule.calculateContentDigest(imageUri);
+}
+
+export async function calculateQualityMetrics(
+  imageUri: string,
+  inputSize: number = 256
+): Promise<{ sharpness: number; meanLuminance: number; shadowClipping: number; highlightClipping: number; fileSize?: number }> {
+  return await PHashModule.calculateQualityMetrics(imageUri, inputSize);
 }
 
 export async function calculateHammingDistance(hash1: string, hash2: string): Promise<number> {
   return await PHashModule.calculateHammingDistance(hash1, hash2);
 }
 
+export async function calculateHammingDistances(hash: string, candidates: string[]): Promise<number[]> {
+  return await PHashModule.calculateHammingDistances(hash, candidates);
+}
+
 export async function areImagesSimilar(hash1: string, hash2: string, threshold: number = 10): Promise<boolean> {
   // This can be calculated on JS side since it's just a comparison
   const distance = await PHashModule.calculateHammingDistance(hash1, hash2);
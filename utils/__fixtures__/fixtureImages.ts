@@ -0,0 +1,36 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * 32x32 grayscale thumbnails stored as plain-text PGM, the size the pHash
+ * DCT path works on, so no image decoder is needed in tests
+ */
+export const FIXTURE_IMAGES = [
+  'gradient',
+  'checkerboard',
+  'circle',
+  'stripes',
+  'scene',
+  'scene-bright',
+  'scene-noisy',
+] as const;
+
+export type FixtureImageName = typeof FIXTURE_IMAGES[number];
+
+export function loadFixtureImage(name: FixtureImageName): Uint8Array {
+  const text = readFileSync(join(__dirname, 'images', `${name}.pgm`), 'utf8');
+  const tokens = text
+    .split('\n')
+    .filter(line => !line.startsWith('#'))
+    .join(' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const [magic, width, height] = tokens;
+  if (magic !== 'P2') {
+    throw new Error(`Unsupported fixture format: ${magic}`);
+  }
+
+  // tokens[3] is the max value; pixels follow row by row
+  return Uint8Array.from(tokens.slice(4, 4 + Number(width) * Number(height)), Number);
+}
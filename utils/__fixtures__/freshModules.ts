@@ -0,0 +1,18 @@
+import type AsyncStorageType from '@react-native-async-storage/async-storage';
+
+export type FreshModules<T> = T & { AsyncStorage: typeof AsyncStorageType };
+
+/**
+ * Load modules from a fresh registry, so singletons and the AsyncStorage mock start
+ * empty in every test. Each entry of `mocks` replaces a module first, by the path a
+ * test in utils/__tests__ would pass to jest.doMock; `load` then requires the modules
+ * under test. The storage mock of the same registry comes back as AsyncStorage.
+ */
+export function loadFresh<T extends object>(
+  load: () => T,
+  mocks: Record<string, () => unknown> = {}
+): FreshModules<T> {
+  jest.resetModules();
+  Object.entries(mocks).forEach(([moduleName, factory]) => jest.doMock(moduleName, factory));
+  return { ...load(), AsyncStorage: require('@react-native-async-storage/async-storage') };
+}
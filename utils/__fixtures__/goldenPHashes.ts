@@ -0,0 +1,15 @@
+import { FixtureImageName } from './fixtureImages';
+
+/**
+ * pHashes of the fixture images through the JS DCT path. A change here means
+ * every stored hash changes too; only update these deliberately.
+ */
+export const GOLDEN_PHASHES: Record<FixtureImageName, string> = {
+  'gradient': 'A244EC7EC067836F',
+  'checkerboard': 'B77A04FA5A85D885',
+  'circle': 'C1CB3F3D32D2C1C1',
+  'stripes': 'FEDE01D6458096D6',
+  'scene': 'B358F0FC8703CC72',
+  'scene-bright': 'B358F0FC8703CC72',
+  'scene-noisy': 'B358F0FC8603CD3A',
+};
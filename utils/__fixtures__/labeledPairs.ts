@@ -0,0 +1,142 @@
+import { getHashAlgorithm } from '../hashAlgorithms';
+import { hammingDistance } from '../pHash';
+
+/**
+ * Labeled pHash distances for calibrating the similarity model: copies of the
+ * same synthetic scene (re-exposed, noisy, shifted, zoomed, blurred, or with one
+ * object moved as in a burst) are duplicates; different scenes are not.
+ * Everything is generated from a fixed seed, so the set is the same on every run.
+ */
+export interface LabeledDistance {
+  distance: number;
+  duplicate: boolean;
+}
+
+const SIZE = 32;
+const SCENE_COUNT = 30;
+const SEED = 20240302;
+
+interface Blob {
+  x: number;
+  y: number;
+  radius: number;
+  intensity: number;
+}
+
+interface Scene {
+  background: [number, number, number];
+  blobs: Blob[];
+}
+
+interface Variant {
+  shiftX?: number;
+  shiftY?: number;
+  zoom?: number;
+  gain?: number;
+  offset?: number;
+  noise?: number;
+  blur?: boolean;
+  moveBlob?: boolean;
+}
+
+const DUPLICATE_VARIANTS: Variant[] = [
+  { offset: 25 },
+  { gain: 0.8 },
+  { noise: 6 },
+  { shiftX: 1 },
+  { shiftX: 2, shiftY: -1 },
+  { zoom: 1.08 },
+  { blur: true },
+  { moveBlob: true },
+  { noise: 4, shiftY: 1, offset: -15 },
+];
+
+// Small seeded PRNG (mulberry32)
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function createScene(random: () => number): Scene {
+  const blobCount = 3 + Math.floor(random() * 4);
+  return {
+    background: [40 + random() * 80, (random() - 0.5) * 3, (random() - 0.5) * 3],
+    blobs: Array.from({ length: blobCount }, () => ({
+      x: random() * SIZE,
+      y: random() * SIZE,
+      radius: 3 + random() * 7,
+      intensity: (random() - 0.3) * 160,
+    })),
+  };
+}
+
+function renderScene(scene: Scene, variant: Variant, random: () => number): Uint8Array {
+  const { shiftX = 0, shiftY = 0, zoom = 1, gain = 1, offset = 0, noise = 0 } = variant;
+  const blobs = variant.moveBlob
+    ? scene.blobs.map((blob, i) => (i === 0 ? { ...blob, x: blob.x + 3, y: blob.y + 2 } : blob))
+    : scene.blobs;
+  const [base, slopeX, slopeY] = scene.background;
+
+  const values = new Float64Array(SIZE * SIZE);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      // Sample the scene as seen through the shifted, zoomed frame
+      const sceneX = (x - SIZE / 2) / zoom + SIZE / 2 - shiftX;
+      const sceneY = (y - SIZE / 2) / zoom + SIZE / 2 - shiftY;
+      let value = base + slopeX * sceneX + slopeY * sceneY;
+      for (const blob of blobs) {
+        const distanceSquared = (sceneX - blob.x) ** 2 + (sceneY - blob.y) ** 2;
+        value += blob.intensity * Math.exp(-distanceSquared / (2 * blob.radius ** 2));
+      }
+      values[y * SIZE + x] = value;
+    }
+  }
+
+  const pixels = new Uint8Array(SIZE * SIZE);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      let value = values[y * SIZE + x];
+      if (variant.blur) {
+        let sum = 0;
+        let count = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (nx < 0 || ny < 0 || nx >= SIZE || ny >= SIZE) continue;
+            sum += values[ny * SIZE + nx];
+            count++;
+          }
+        }
+        value = sum / count;
+      }
+      value = value * gain + offset + (random() - 0.5) * 2 * noise;
+      pixels[y * SIZE + x] = Math.max(0, Math.min(255, Math.round(value)));
+    }
+  }
+  return pixels;
+}
+
+export function buildLabeledDistances(): LabeledDistance[] {
+  const random = createRandom(SEED);
+  const phash = getHashAlgorithm('phash');
+  const scenes = Array.from({ length: SCENE_COUNT }, () => createScene(random));
+  const originals = scenes.map(scene => phash.compute(renderScene(scene, {}, random)));
+
+  const samples: LabeledDistance[] = [];
+  scenes.forEach((scene, i) => {
+    for (const variant of DUPLICATE_VARIANTS) {
+      const copy = phash.compute(renderScene(scene, variant, random));
+      samples.push({ distance: hammingDistance(originals[i], copy), duplicate: true });
+    }
+    for (let j = i + 1; j < scenes.length; j++) {
+      samples.push({ distance: hammingDistance(originals[i], originals[j]), duplicate: false });
+    }
+  });
+  return samples;
+}
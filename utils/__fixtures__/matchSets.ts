@@ -0,0 +1,126 @@
+import type { MatchMetrics } from '../matchMetrics';
+import { getSimilarityScore } from '../similarityModel';
+
+type MatchType = 'similar' | 'cropped' | 'exact';
+
+export interface FixturePhoto {
+  id: string;
+  uri: string;
+  filename: string;
+  creationTime: number;
+  width: number;
+  height: number;
+  pHash?: string;
+}
+
+export interface FixtureMatch {
+  id: string;
+  photos: FixturePhoto[];
+  confidence: number;
+  timeWindow: {
+    start: number;
+    end: number;
+  };
+  status: 'pending' | 'approved' | 'rejected';
+  hammingDistance: number;
+  metrics?: MatchMetrics;
+  matchType?: MatchType;
+  sessionId?: string;
+}
+
+export interface MatchSet {
+  name: string;
+  matches: FixtureMatch[];
+  // Photo ids of each group expected after merging, sorted by id
+  expectedGroups: string[][];
+}
+
+const BASE_TIME = Date.UTC(2024, 2, 2, 14, 0, 0);
+const MINUTE = 60 * 1000;
+
+export function photo(id: string, minute: number): FixturePhoto {
+  return {
+    id,
+    uri: `file:///photos/${id}.jpg`,
+    filename: `IMG_${id}.jpg`,
+    creationTime: BASE_TIME + minute * MINUTE,
+    width: 4032,
+    height: 3024,
+  };
+}
+
+export function match(
+  id: string,
+  photos: FixturePhoto[],
+  overrides: Partial<Omit<FixtureMatch, 'id' | 'photos'>> = {}
+): FixtureMatch {
+  const times = photos.map(p => p.creationTime);
+  const hammingDistance = overrides.hammingDistance ?? 6;
+  return {
+    id,
+    photos,
+    confidence: getSimilarityScore(hammingDistance),
+    timeWindow: { start: Math.min(...times), end: Math.max(...times) },
+    status: 'pending',
+    hammingDistance,
+    matchType: 'similar',
+    ...overrides,
+  };
+}
+
+const p1 = photo('p1', 0);
+const p2 = photo('p2', 1);
+const p3 = photo('p3', 2);
+const p4 = photo('p4', 3);
+const p5 = photo('p5', 40);
+const p6 = photo('p6', 41);
+
+export const MATCH_SETS: MatchSet[] = [
+  {
+    name: 'chain of pairwise matches',
+    matches: [
+      match('match-p1', [p1, p2], { hammingDistance: 4 }),
+      match('match-p2', [p2, p3], { hammingDistance: 6 }),
+      match('match-p3', [p3, p4], { hammingDistance: 8 }),
+    ],
+    expectedGroups: [['p1', 'p2', 'p3', 'p4']],
+  },
+  {
+    name: 'two pairs bridged by a third match',
+    matches: [
+      match('match-p1', [p1, p2]),
+      match('match-p3', [p3, p4]),
+      match('match-p2', [p2, p3], { hammingDistance: 9 }),
+    ],
+    expectedGroups: [['p1', 'p2', 'p3', 'p4']],
+  },
+  {
+    name: 'disjoint groups',
+    matches: [
+      match('match-p1', [p1, p2, p3], { hammingDistance: 5 }),
+      match('match-p5', [p5, p6], { hammingDistance: 3 }),
+      match('match-p2', [p2, p3]),
+    ],
+    expectedGroups: [['p1', 'p2', 'p3'], ['p5', 'p6']],
+  },
+  {
+    name: 'exact and cropped copies kept apart from similar photos',
+    matches: [
+      match('match-p1', [p1, p2]),
+      match('exact-abc', [p2, p3], { matchType: 'exact', hammingDistance: 0 }),
+      match('crop-p3', [p3, p4], { matchType: 'cropped' }),
+      match('match-p4', [p4, p5]),
+    ],
+    expectedGroups: [['p1', 'p2'], ['p2', 'p3'], ['p3', 'p4'], ['p4', 'p5']],
+  },
+  {
+    name: 'overlapping groups of different sizes',
+    matches: [
+      match('match-p1', [p1, p2, p3, p4], { hammingDistance: 7 }),
+      match('match-p4', [p4, p5], { hammingDistance: 2 }),
+      match('match-p6', [p5, p6], { hammingDistance: 5 }),
+      match('match-p3', [p1, p3], { hammingDistance: 4 }),
+    ],
+    expectedGroups: [['p1', 'p2', 'p3', 'p4', 'p5', 'p6']],
+  },
+];
@@ -0,0 +1,247 @@
+import type * as AutoCleanModule from '../autoClean';
+import type { StagedPhoto } from '../pendingRemoval';
+import { getSimilarityScore } from '../similarityModel';
+import { loadFresh } from '../__fixtures__/freshModules';
+
+const AUTO_CLEAN_JOB_KEYS = ['@auto_clean_job', '@auto_clean_job:photos'];
+
+const photo = (id: string): StagedPhoto => ({
+  id,
+  uri: `file:///${id}.jpg`,
+  filename: `${id}.jpg`,
+  creationTime: 1000,
+  width: 4032,
+  height: 3024,
+});
+
+const match = (
+  id: string,
+  photoIds: string[],
+  confidence: number,
+  status: AutoCleanModule.AutoCleanMatch['status'] = 'pending'
+): AutoCleanModule.AutoCleanMatch => ({
+  id,
+  photos: photoIds.map(photo),
+  confidence,
+  status,
+});
+
+interface LoadOptions {
+  // Keeper the ranking picks for a group, by its first photo id
+  keepers?: Record<string, string>;
+  fileSizes?: Record<string, number>;
+  // Photos already in pending removal
+  staged?: string[];
+  keptForever?: string[];
+  failOnBatch?: number;
+}
+
+// With ranking, quality metrics, exclusion rules and pending removal swapped out
+function loadAutoClean(options: LoadOptions = {}) {
+  const staged = new Set(options.staged ?? []);
+  let batchCount = 0;
+
+  const rankGroupPhotos = jest.fn(async (photos: StagedPhoto[]) => ({
+    keeperId: options.keepers?.[photos[0].id] ?? photos[0].id,
+    scores: [],
+    reasons: [],
+  }));
+  const stagePhotos = jest.fn(async (photos: StagedPhoto[]) => {
+    if (photos.length === 0) return [];
+    batchCount++;
+    if (batchCount === options.failOnBatch) throw new Error('Could not move photos to Pending removal');
+    photos.forEach(p => staged.add(p.id));
+    return photos.map(p => ({ assetId: p.id, uri: p.uri, original: p, batchId: `batch-${batchCount}`, stagedAt: 0 }));
+  });
+
+  const { autoClean, AsyncStorage } = loadFresh(() => ({ autoClean: require('../autoClean') as typeof AutoCleanModule }), {
+    '../bestShot': () => ({ rankGroupPhotos }),
+    '../hashCache': () => ({
+      getOrCalculateQualityMetrics: async (p: StagedPhoto) => {
+        const fileSize = options.fileSizes?.[p.id];
+        return { sharpness: 1, meanLuminance: 128, shadowClipping: 0, highlightClipping: 0, fileSize };
+      },
+    }),
+    '../exclusionRules': () => ({
+      exclusionRules: { isKeptForever: (photoId: string) => options.keptForever?.includes(photoId) ?? false },
+    }),
+    '../pendingRemoval': () => ({
+      pendingRemoval: {
+        getCurrentState: async () => ({ retentionDays: 30, entries: [] }),
+        isHidden: ({ id }: { id: string }) => staged.has(id),
+        stagePhotos,
+      },
+    }),
+  });
+  return { autoClean, AsyncStorage, rankGroupPhotos, stagePhotos };
+}
+
+describe('DEFAULT_AUTO_CLEAN_CONFIDENCE', () => {
+  it('only takes groups of near-identical photos', () => {
+    const { autoClean } = loadAutoClean();
+    expect(getSimilarityScore(7)).toBeGreaterThanOrEqual(autoClean.DEFAULT_AUTO_CLEAN_CONFIDENCE);
+    expect(getSimilarityScore(8)).toBeLessThan(autoClean.DEFAULT_AUTO_CLEAN_CONFIDENCE);
+  });
+});
+
+describe('buildAutoCleanPlan', () => {
+  it('removes all but the keeper of groups at or above the threshold', async () => {
+    const { autoClean, rankGroupPhotos } = loadAutoClean({ keepers: { a1: 'a2' } });
+    const plan = await autoClean.buildAutoCleanPlan(
+      [
+        match('burst', ['a1', 'a2', 'a3'], 97),
+        match('maybe', ['b1', 'b2'], 70),
+        match('not-a-match', ['c1', 'c2'], 99, 'rejected'),
+      ],
+      90
+    );
+
+    expect(plan.groups).toEqual([{ matchId: 'burst', keeperId: 'a2', removePhotoIds: ['a1', 'a3'] }]);
+    expect(plan.photos.map(p => p.id)).toEqual(['a1', 'a3']);
+    expect(plan.manualReviewMatchIds).toEqual(['maybe']);
+    expect(rankGroupPhotos).toHaveBeenCalledTimes(1);
+  });
+
+  it('never removes a photo another group keeps', async () => {
+    const { autoClean } = loadAutoClean({ keepers: { a1: 'a1', b1: 'shared' } });
+    const plan = await autoClean.buildAutoCleanPlan(
+      [match('first', ['a1', 'shared'], 95), match('second', ['b1', 'shared'], 95)],
+      90
+    );
+
+    expect(plan.photos.map(p => p.id)).toEqual(['b1']);
+    expect(plan.groups.map(group => group.matchId)).toEqual(['second']);
+  });
+
+  it('never removes a photo the user keeps forever', async () => {
+    const { autoClean } = loadAutoClean({ keptForever: ['a3'] });
+    const plan = await autoClean.buildAutoCleanPlan([match('burst', ['a1', 'a2', 'a3'], 95)], 90);
+
+    expect(plan.groups).toEqual([{ matchId: 'burst', keeperId: 'a1', removePhotoIds: ['a2'] }]);
+  });
+
+  it('adds up the file sizes it knows', async () => {
+    const { autoClean } = loadAutoClean({ fileSizes: { a2: 3_000_000, a3: 2_000_000 } });
+    const plan = await autoClean.buildAutoCleanPlan([match('burst', ['a1', 'a2', 'a3', 'a4'], 95)], 90);
+
+    expect(plan.totalBytes).toBe(5_000_000);
+    expect(plan.unknownSizeCount).toBe(1);
+  });
+
+  it('stops when cancelled', async () => {
+    const { autoClean } = loadAutoClean();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      autoClean.buildAutoCleanPlan([match('burst', ['a1', 'a2'], 95)], 90, { signal: controller.signal })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('AutoCleanJobManager', () => {
+  const bigGroup = (count: number) => match('burst', Array.from({ length: count + 1 }, (_, i) => `p${i}`), 99);
+
+  it('moves photos in batches and finishes the job', async () => {
+    const { autoClean, stagePhotos } = loadAutoClean();
+    const plan = await autoClean.buildAutoCleanPlan([bigGroup(60)], 90);
+    await autoClean.autoCleanJobs.startJob(plan);
+    const removed: string[][] = [];
+    const progress: number[] = [];
+
+    const job = await autoClean.autoCleanJobs.run({
+      onBatchRemoved: photoIds => removed.push(photoIds),
+      onProgress: processed => progress.push(processed),
+    });
+
+    expect(stagePhotos.mock.calls.map(([batch]) => batch.length)).toEqual([25, 25, 10]);
+    expect(removed.flat()).toHaveLength(60);
+    expect(progress).toEqual([0, 25, 50, 60]);
+    expect(job.batchIds).toEqual(['batch-1', 'batch-2', 'batch-3']);
+    await expect(autoClean.autoCleanJobs.getCurrentJob()).resolves.toBeNull();
+  });
+
+  it('resumes a paused job after the app restarts', async () => {
+    const first = loadAutoClean();
+    const plan = await first.autoClean.buildAutoCleanPlan([bigGroup(60)], 90);
+    await first.autoClean.autoCleanJobs.startJob(plan);
+    const controller = new AbortController();
+
+    const paused = await first.autoClean.autoCleanJobs.run({
+      signal: controller.signal,
+      onBatchRemoved: () => controller.abort(),
+    });
+    expect(paused.processedCount).toBe(25);
+    const stored = await first.AsyncStorage.multiGet(AUTO_CLEAN_JOB_KEYS);
+
+    const second = loadAutoClean();
+    await second.AsyncStorage.multiSet(stored as [string, string][]);
+    await second.autoClean.autoCleanJobs.initialize();
+    const job = await second.autoClean.autoCleanJobs.run();
+
+    expect(job.processedCount).toBe(60);
+    expect(second.stagePhotos.mock.calls[0][0][0].id).toBe('p26');
+  });
+
+  it('keeps its progress and the error when a batch fails', async () => {
+    const { autoClean } = loadAutoClean({ failOnBatch: 2 });
+    await autoClean.autoCleanJobs.startJob(await autoClean.buildAutoCleanPlan([bigGroup(60)], 90));
+
+    await expect(autoClean.autoCleanJobs.run()).rejects.toThrow('Could not move photos');
+    await expect(autoClean.autoCleanJobs.getCurrentJob()).resolves.toMatchObject({
+      processedCount: 25,
+      error: 'Could not move photos to Pending removal',
+    });
+  });
+
+  it('saves only the progress after each batch', async () => {
+    const { autoClean, AsyncStorage } = loadAutoClean();
+    await autoClean.autoCleanJobs.startJob(await autoClean.buildAutoCleanPlan([bigGroup(60)], 90));
+    const setItem = jest.spyOn(AsyncStorage, 'setItem');
+
+    await autoClean.autoCleanJobs.run();
+
+    expect(setItem).toHaveBeenCalledTimes(3);
+    for (const [key, value] of setItem.mock.calls) {
+      expect(key).toBe('@auto_clean_job');
+      expect(JSON.parse(value)).not.toHaveProperty('photos');
+    }
+  });
+
+  it('stops when its progress cannot be saved', async () => {
+    const { autoClean, AsyncStorage, stagePhotos } = loadAutoClean();
+    await autoClean.autoCleanJobs.startJob(await autoClean.buildAutoCleanPlan([bigGroup(60)], 90));
+    jest.spyOn(AsyncStorage, 'setItem').mockRejectedValueOnce(new Error('database or disk is full'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(autoClean.autoCleanJobs.run()).rejects.toMatchObject({ name: 'AutoCleanError' });
+
+    expect(stagePhotos).toHaveBeenCalledTimes(1);
+    await expect(autoClean.autoCleanJobs.getCurrentJob()).resolves.toMatchObject({
+      processedCount: 25,
+      error: expect.stringContaining('Could not save'),
+    });
+    jest.restoreAllMocks();
+  });
+
+  it('skips photos a cut-short batch already staged', async () => {
+    const { autoClean, stagePhotos } = loadAutoClean({ staged: ['p1', 'p2'] });
+    await autoClean.autoCleanJobs.startJob(await autoClean.buildAutoCleanPlan([bigGroup(4)], 90));
+
+    const job = await autoClean.autoCleanJobs.run();
+
+    expect(stagePhotos.mock.calls[0][0].map(p => p.id)).toEqual(['p3', 'p4']);
+    expect(job.processedCount).toBe(4);
+  });
+
+  it('runs one job at a time', async () => {
+    const { autoClean } = loadAutoClean();
+    const plan = await autoClean.buildAutoCleanPlan([bigGroup(3)], 90);
+    await autoClean.autoCleanJobs.startJob(plan);
+
+    await expect(autoClean.autoCleanJobs.startJob(plan)).rejects.toMatchObject({ name: 'AutoCleanError' });
+
+    await autoClean.autoCleanJobs.discardJob();
+    await expect(autoClean.autoCleanJobs.startJob(plan)).resolves.toMatchObject({ processedCount: 0 });
+  });
+});
@@ -0,0 +1,96 @@
+import type { ExclusionRuleManager } from '../exclusionRules';
+import type { LibrarySync } from '../librarySync';
+import { FreshModules, loadFresh } from '../__fixtures__/freshModules';
+
+const EXCLUSION_RULES_KEY = '@exclusion_rules';
+
+function loadExclusionRules(): FreshModules<{ exclusionRules: ExclusionRuleManager; librarySync: LibrarySync }> {
+  return loadFresh(() => ({
+    librarySync: require('../librarySync').librarySync,
+    exclusionRules: require('../exclusionRules').exclusionRules,
+  }));
+}
+
+describe('ExclusionRuleManager', () => {
+  it('starts without rules', async () => {
+    const { exclusionRules } = loadExclusionRules();
+
+    await expect(exclusionRules.getCurrentRules()).resolves.toEqual({
+      neverMatchPairs: [],
+      excludedAlbumIds: [],
+      keepForeverPhotoIds: [],
+    });
+    expect(exclusionRules.canMatch('a', 'b')).toBe(true);
+  });
+
+  it('never matches a pair in either order', async () => {
+    const { exclusionRules } = loadExclusionRules();
+    await exclusionRules.addNeverMatchPair('b', 'a');
+    await exclusionRules.addNeverMatchPair('a', 'b');
+
+    expect(exclusionRules.canMatch('a', 'b')).toBe(false);
+    expect(exclusionRules.canMatch('b', 'a')).toBe(false);
+    expect(exclusionRules.canMatch('a', 'c')).toBe(true);
+    expect((await exclusionRules.getCurrentRules()).neverMatchPairs).toEqual([['a', 'b']]);
+
+    await exclusionRules.removeNeverMatchPair('b', 'a');
+    expect(exclusionRules.canMatch('a', 'b')).toBe(true);
+  });
+
+  it('still matches photos kept forever', async () => {
+    const { exclusionRules } = loadExclusionRules();
+    await exclusionRules.setKeepForever('scan-1', true);
+
+    expect(exclusionRules.isKeptForever('scan-1')).toBe(true);
+    expect(exclusionRules.isExcluded('scan-1')).toBe(false);
+    expect(exclusionRules.canMatch('scan-2', 'scan-1')).toBe(true);
+
+    await exclusionRules.setKeepForever('scan-1', false);
+    expect(exclusionRules.isKeptForever('scan-1')).toBe(false);
+  });
+
+  it('excludes the photos of excluded albums once they are looked up', async () => {
+    const { exclusionRules, librarySync } = loadExclusionRules();
+    const getAlbumPhotoIds = jest.spyOn(librarySync, 'getAlbumPhotoIds').mockResolvedValue(['doc-1', 'doc-2']);
+
+    await exclusionRules.setAlbumExcluded('documents', true);
+    expect(exclusionRules.isExcluded('doc-1')).toBe(false);
+
+    await exclusionRules.refreshExcludedAlbumPhotos();
+    expect(getAlbumPhotoIds).toHaveBeenCalledWith('documents');
+    expect(exclusionRules.isExcluded('doc-1')).toBe(true);
+    expect(exclusionRules.isKeptForever('doc-1')).toBe(false);
+
+    await exclusionRules.setAlbumExcluded('documents', false);
+    await exclusionRules.refreshExcludedAlbumPhotos();
+    expect(exclusionRules.isExcluded('doc-1')).toBe(false);
+  });
+
+  it('skips albums that can no longer be listed', async () => {
+    const { exclusionRules, librarySync } = loadExclusionRules();
+    jest.spyOn(librarySync, 'getAlbumPhotoIds').mockImplementation(async (albumId) => {
+      if (albumId === 'deleted') throw new Error('Album not found');
+      return ['doc-1'];
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await exclusionRules.setAlbumExcluded('deleted', true);
+    await exclusionRules.setAlbumExcluded('documents', true);
+    await exclusionRules.refreshExcludedAlbumPhotos();
+
+    expect(exclusionRules.isExcluded('doc-1')).toBe(true);
+  });
+
+  it('persists rules across app launches', async () => {
+    const first = loadExclusionRules();
+    await first.exclusionRules.addNeverMatchPair('a', 'b');
+    await first.exclusionRules.setKeepForever('c', true);
+    const stored = await first.AsyncStorage.getItem(EXCLUSION_RULES_KEY);
+
+    const second = loadExclusionRules();
+    await second.AsyncStorage.setItem(EXCLUSION_RULES_KEY, stored!);
+    await second.exclusionRules.initialize();
+    expect(second.exclusionRules.canMatch('a', 'b')).toBe(false);
+    expect(second.exclusionRules.isKeptForever('c')).toBe(true);
+  });
+});
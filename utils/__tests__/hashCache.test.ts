@@ -0,0 +1,210 @@
+import type AsyncStorageType from '@react-native-async-storage/async-storage';
+import type { HashCache as HashCacheType } from '../hashCache';
+import { createPerceptualHash, getHashAlgorithm } from '../hashAlgorithms';
+import { formatHash } from '../hashFormat';
+import { FreshModules, loadFresh } from '../__fixtures__/freshModules';
+
+const BUCKET_KEYS = Array.from({ length: 1024 }, (_, i) => `@phash_cache:v2:${i}`);
+const LEGACY_BUCKET_KEYS = Array.from({ length: 32 }, (_, i) => `@phash_cache:${i}`);
+const photo = { id: 'photo-1', uri: 'file:///photo-1.jpg', modificationTime: 1000 };
+
+function loadHashCache(): FreshModules<{ hashCache: HashCacheType }> {
+  return loadFresh(() => ({ hashCache: require('../hashCache').hashCache }));
+}
+
+// Store one entry in every bucket so the test does not depend on the bucket hash
+async function storeEntry(AsyncStorage: typeof AsyncStorageType, entry: object): Promise<void> {
+  await AsyncStorage.multiSet(BUCKET_KEYS.map(key => [key, JSON.stringify({ [photo.id]: entry })]));
+}
+
+describe('HashCache', () => {
+  it('drops legacy hashes on load and keeps the digest', async () => {
+    const { hashCache, AsyncStorage } = loadHashCache();
+    const dhash = formatHash(getHashAlgorithm('dhash'), 'FC7C78787C7C7F3F');
+    await storeEntry(AsyncStorage, {
+      hashes: { phash: '66B1E1F90E0798E4', dhash },
+      orientations: { phash: ['66B1E1F90E0798E4'] },
+      regions: ['66B1E1F90E0798E4'],
+      digest: 'abc123',
+      modificationTime: 1000,
+      cachedAt: 1,
+    });
+
+    await expect(hashCache.get(photo)).resolves.toEqual({
+      hashes: { dhash },
+      orientations: {},
+      regions: undefined,
+      digest: 'abc123',
+    });
+    await hashCache.flush();
+  });
+
+  it('persists the migrated entries', async () => {
+    const { hashCache, AsyncStorage } = loadHashCache();
+    await storeEntry(AsyncStorage, { hashes: { phash: '66B1E1F90E0798E4' }, modificationTime: 1000, cachedAt: 1 });
+
+    await hashCache.initialize();
+    await hashCache.flush();
+
+    const stored = await AsyncStorage.multiGet(BUCKET_KEYS);
+    for (const [, value] of stored) {
+      expect(JSON.parse(value!)[photo.id].hashes).toEqual({});
+    }
+  });
+
+  it('moves entries out of the legacy buckets', async () => {
+    const { hashCache, AsyncStorage } = loadHashCache();
+    const dhash = formatHash(getHashAlgorithm('dhash'), 'FC7C78787C7C7F3F');
+    await AsyncStorage.multiSet(
+      LEGACY_BUCKET_KEYS.map(key => [key, JSON.stringify({ [photo.id]: { hashes: { dhash }, modificationTime: 1000 } })])
+    );
+
+    await expect(hashCache.get(photo)).resolves.toMatchObject({ hashes: { dhash } });
+
+    const legacy = await AsyncStorage.multiGet(LEGACY_BUCKET_KEYS);
+    expect(legacy.every(([, value]) => value === null)).toBe(true);
+    const stored = (await AsyncStorage.multiGet(BUCKET_KEYS)).filter(([, value]) => value);
+    expect(stored).toHaveLength(1);
+    expect(JSON.parse(stored[0][1]!)[photo.id].hashes).toEqual({ dhash: 'FC7C78787C7C7F3F' });
+  });
+
+  it('keeps hashes in the current format, whatever their size', async () => {
+    const { hashCache, AsyncStorage } = loadHashCache();
+    const phash = formatHash(createPerceptualHash(16), 'B358F0FC8703CC72'.repeat(4));
+    await storeEntry(AsyncStorage, {
+      hashes: { phash },
+      orientations: { phash: [phash] },
+      modificationTime: 1000,
+      cachedAt: 1,
+    });
+
+    await expect(hashCache.get(photo)).resolves.toMatchObject({ hashes: { phash }, orientations: { phash: [phash] } });
+    await hashCache.flush();
+  });
+
+  it('drops the orientations of a hash replaced at another size', async () => {
+    const { hashCache, AsyncStorage } = loadHashCache();
+    const small = formatHash(getHashAlgorithm('phash'), 'B358F0FC8703CC72');
+    const large = formatHash(createPerceptualHash(16), 'B358F0FC8703CC72'.repeat(4));
+    await storeEntry(AsyncStorage, {
+      hashes: { phash: small },
+      orientations: { phash: [small] },
+      modificationTime: 1000,
+      cachedAt: 1,
+    });
+
+    await hashCache.set(photo, { hashes: { phash: large } });
+
+    await expect(hashCache.get(photo)).resolves.toMatchObject({ hashes: { phash: large }, orientations: {} });
+    await hashCache.flush();
+  });
+
+  it('stores the format version once per entry and bare hex per hash', async () => {
+    const { hashCache, AsyncStorage } = loadHashCache();
+    const phash = formatHash(createPerceptualHash(16, 48), 'B358F0FC8703CC72'.repeat(4));
+    const dhash = formatHash(getHashAlgorithm('dhash'), 'FC7C78787C7C7F3F');
+
+    await hashCache.set(photo, { hashes: { phash, dhash }, orientations: { phash: [phash] } });
+    await hashCache.flush();
+
+    const stored = await AsyncStorage.multiGet(BUCKET_KEYS);
+    const entry = stored.map(([, value]) => value && JSON.parse(value)[photo.id]).find(Boolean);
+    expect(entry).toMatchObject({
+      version: 'p1',
+      hashes: { phash: 'B358F0FC8703CC72'.repeat(4), dhash: 'FC7C78787C7C7F3F' },
+      phashInputSize: 48,
+      orientations: { phash: 'B358F0FC8703CC72'.repeat(4) },
+    });
+
+    const reloaded = loadHashCache();
+    await reloaded.AsyncStorage.multiSet(stored.filter(([, value]) => value) as [string, string][]);
+    await expect(reloaded.hashCache.get(photo)).resolves.toMatchObject({
+      hashes: { phash, dhash },
+      orientations: { phash: [phash] },
+    });
+  });
+
+  it('drops the hashes of entries from another format version and keeps the digest', async () => {
+    const { hashCache, AsyncStorage } = loadHashCache();
+    await storeEntry(AsyncStorage, {
+      version: 'p0',
+      hashes: { dhash: 'FC7C78787C7C7F3F' },
+      orientations: { dhash: ['FC7C78787C7C7F3F'] },
+      digest: 'abc123',
+      modificationTime: 1000,
+      cachedAt: 1,
+    });
+
+    await expect(hashCache.get(photo)).resolves.toEqual({
+      hashes: {},
+      orientations: {},
+      regions: undefined,
+      digest: 'abc123',
+      quality: undefined,
+    });
+    await hashCache.flush();
+  });
+
+  it('packs orientations and regions into one string each', async () => {
+    const { hashCache, AsyncStorage } = loadHashCache();
+    const phash = getHashAlgorithm('phash');
+    const hexes = ['66B1E1F90E0798E4', 'B358F0FC8703CC72', 'FC7C78787C7C7F3F'];
+    const orientations = Array.from({ length: 7 }, (_, i) => formatHash(phash, hexes[i % 3]));
+    const regions = Array.from({ length: 13 }, (_, i) => formatHash(phash, hexes[i % 3]));
+
+    await hashCache.set(photo, {
+      hashes: { phash: orientations[0] },
+      orientations: { phash: orientations },
+      regions,
+      digest: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+    });
+    await hashCache.flush();
+
+    const stored = await AsyncStorage.multiGet(BUCKET_KEYS);
+    const bucket = stored.map(([, value]) => value).find(Boolean)!;
+    expect(JSON.parse(bucket)[photo.id]).toMatchObject({
+      orientations: { phash: orientations.map(hash => hash.split(':').pop()).join('') },
+      regions: regions.map(hash => hash.split(':').pop()).join(''),
+    });
+    // 400 hex digits, with little overhead around them
+    expect(bucket.length).toBeLessThan(550);
+    await expect(hashCache.get(photo)).resolves.toMatchObject({ orientations: { phash: orientations }, regions });
+  });
+
+  it('tells subscribers when the cache cannot be saved', async () => {
+    const { hashCache, AsyncStorage } = loadHashCache();
+    const listener = jest.fn();
+    const unsubscribe = hashCache.subscribeToSaveErrors(listener);
+    jest.spyOn(AsyncStorage, 'multiSet').mockRejectedValueOnce(new Error('database or disk is full'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await hashCache.set(photo, { digest: 'abc123' });
+    await hashCache.flush();
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ message: 'database or disk is full' }));
+    unsubscribe();
+    jest.restoreAllMocks();
+  });
+
+  it('keeps quality metrics until the photo changes', async () => {
+    const { hashCache } = loadHashCache();
+    const quality = { sharpness: 120, meanLuminance: 110, shadowClipping: 0.01, highlightClipping: 0, fileSize: 2048 };
+
+    await hashCache.set(photo, { quality });
+    await hashCache.set(photo, { digest: 'abc123' });
+    await expect(hashCache.get(photo)).resolves.toMatchObject({ quality, digest: 'abc123' });
+
+    await expect(hashCache.get({ ...photo, modificationTime: 2000 })).resolves.toEqual({ hashes: {}, orientations: {} });
+    await hashCache.flush();
+  });
+
+  it('remembers that a photo has no location', async () => {
+    const { hashCache } = loadHashCache();
+
+    await hashCache.set(photo, { location: null });
+    await hashCache.set(photo, { digest: 'abc123' });
+
+    await expect(hashCache.get(photo)).resolves.toMatchObject({ location: null, digest: 'abc123' });
+    await hashCache.flush();
+  });
+});
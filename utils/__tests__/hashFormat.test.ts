@@ -0,0 +1,76 @@
+import { getHashAlgorithm } from '../hashAlgorithms';
+import {
+  areHashesCompatible,
+  formatHash,
+  getHashHex,
+  hasCurrentHashVersion,
+  isCurrentHashFormat,
+  parseHash,
+} from '../hashFormat';
+import { calculateHammingDistance, calculateHammingDistances, hammingDistance, packHash } from '../pHash';
+
+const phash = getHashAlgorithm('phash');
+const dhash = getHashAlgorithm('dhash');
+
+describe('versioned hash format', () => {
+  it('prefixes the hex with version, algorithm, input size and bit count', () => {
+    expect(formatHash(phash, 'B358F0FC8703CC72')).toBe('p1:phash:32x32:64:B358F0FC8703CC72');
+    expect(formatHash(dhash, 'FC7C78787C7C7F3F')).toBe('p1:dhash:9x8:64:FC7C78787C7C7F3F');
+  });
+
+  it('parses versioned and legacy hashes', () => {
+    expect(parseHash('p1:phash:32x32:64:B358F0FC8703CC72')).toEqual({
+      version: 'p1',
+      algorithm: 'phash',
+      width: 32,
+      height: 32,
+      bits: 64,
+      hex: 'B358F0FC8703CC72',
+    });
+    expect(parseHash('66B1E1F90E0798E4')).toEqual({ version: 'legacy', bits: 64, hex: '66B1E1F90E0798E4' });
+    expect(() => parseHash('p1:phash:64:B358F0FC8703CC72')).toThrow('Invalid hash');
+  });
+
+  it('strips the prefix before packing', () => {
+    expect(getHashHex('p1:phash:32x32:64:00000000000000FF')).toBe('00000000000000FF');
+    expect(packHash('p1:phash:32x32:64:00000000000000FF')).toEqual(packHash('00000000000000FF'));
+  });
+
+  it('only treats hashes of the current format and length as current', () => {
+    expect(isCurrentHashFormat(formatHash(phash, 'B358F0FC8703CC72'), phash)).toBe(true);
+    expect(isCurrentHashFormat('66B1E1F90E0798E4', phash)).toBe(false);
+    expect(isCurrentHashFormat(formatHash(phash, 'B358'), phash)).toBe(false);
+    expect(isCurrentHashFormat(formatHash(dhash, 'B358F0FC8703CC72'), phash)).toBe(false);
+  });
+
+  it('accepts any size of the current version when checking the version only', () => {
+    expect(hasCurrentHashVersion('p1:phash:64x64:256:' + '0'.repeat(64), 'phash')).toBe(true);
+    expect(hasCurrentHashVersion('p1:phash:64x64:256:' + '0'.repeat(16), 'phash')).toBe(false);
+    expect(hasCurrentHashVersion('p1:dhash:9x8:64:' + '0'.repeat(16), 'phash')).toBe(false);
+    expect(hasCurrentHashVersion('p0:phash:32x32:64:' + '0'.repeat(16), 'phash')).toBe(false);
+    expect(hasCurrentHashVersion('66B1E1F90E0798E4', 'phash')).toBe(false);
+    expect(hasCurrentHashVersion('p1:phash', 'phash')).toBe(false);
+  });
+});
+
+describe('comparing hashes across formats', () => {
+  const a = formatHash(phash, '0000000000000000');
+  const b = formatHash(phash, '000000000000000F');
+
+  it('compares hashes of the same format', async () => {
+    expect(areHashesCompatible(a, b)).toBe(true);
+    await expect(calculateHammingDistance(a, b)).resolves.toBe(4);
+    await expect(calculateHammingDistances(a, [a, b])).resolves.toEqual([0, 4]);
+  });
+
+  it('rejects legacy hashes and other algorithms instead of comparing their bits', async () => {
+    const legacy = '000000000000000F';
+    const other = formatHash(dhash, '000000000000000F');
+
+    expect(areHashesCompatible(a, legacy)).toBe(false);
+    expect(areHashesCompatible(a, other)).toBe(false);
+    expect(() => hammingDistance(a, other)).toThrow('p1:phash:32x32:64 and p1:dhash:9x8:64');
+    await expect(calculateHammingDistance(a, legacy)).rejects.toMatchObject({ name: 'IncompatibleHashError' });
+    await expect(calculateHammingDistances(a, [b, legacy])).rejects.toMatchObject({ name: 'IncompatibleHashError' });
+  });
+});
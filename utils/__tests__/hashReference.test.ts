@@ -0,0 +1,79 @@
+import { HashAlgorithmName } from '../hashAlgorithms';
+import { computeReferenceHashes, RawImage, resizeGrayscale } from '../hashReference';
+import fixtures from '../../modules/expo-phash/fixtures/hash-vectors.json';
+
+interface HashVector extends RawImage {
+  name: string;
+  pixels: number[];
+  expected: {
+    hashes: Record<HashAlgorithmName, string>;
+    orientations: Partial<Record<HashAlgorithmName, string[]>>;
+    regions: string[];
+  };
+}
+
+const vectors = fixtures.vectors as HashVector[];
+const ALGORITHMS: HashAlgorithmName[] = ['ahash', 'dhash', 'whash', 'phash'];
+
+describe('shared hash vectors', () => {
+  it.each(vectors.map(vector => [vector.name, vector] as const))('%s reproduces the expected hashes', (_, vector) => {
+    const hashes = computeReferenceHashes(vector, ALGORITHMS, { includeOrientations: true, includeRegions: true });
+
+    for (const hash of hashes) {
+      expect(hash.value).toBe(vector.expected.hashes[hash.algorithm]);
+      expect(hash.orientations).toEqual(vector.expected.orientations[hash.algorithm]);
+    }
+    expect(hashes.find(hash => hash.algorithm === 'phash')!.regions).toEqual(vector.expected.regions);
+  });
+
+  it('uses all 64 pHash bits', () => {
+    for (const vector of vectors) {
+      expect(vector.expected.hashes.phash).toMatch(/^[0-9A-F]{16}$/);
+      // The DC term is now the first bit, and it dwarfs the AC terms of these images
+      expect(parseInt(vector.expected.hashes.phash[0], 16) & 0x8).toBe(0x8);
+    }
+  });
+});
+
+describe('resizeGrayscale', () => {
+  it('returns the same pixels at the same size', () => {
+    const pixels = [1, 2, 3, 4, 5, 6];
+    expect(Array.from(resizeGrayscale(pixels, 3, 2, 3, 2))).toEqual(pixels);
+  });
+
+  it('averages whole blocks on integer downscales', () => {
+    const pixels = [
+      0, 4, 8, 8,
+      4, 0, 8, 8,
+    ];
+    expect(Array.from(resizeGrayscale(pixels, 4, 2, 2, 1))).toEqual([2, 8]);
+  });
+
+  it('weights partially covered pixels by their overlap', () => {
+    // Three source pixels into two: [0, 1.5) and [1.5, 3)
+    expect(Array.from(resizeGrayscale([0, 30, 60], 3, 1, 2, 1))).toEqual([10, 50]);
+  });
+
+  it('keeps a flat image flat at any ratio', () => {
+    const flat = new Array(97 * 61).fill(200);
+    for (const value of resizeGrayscale(flat, 97, 61, 32, 32)) {
+      expect(value).toBeCloseTo(200, 10);
+    }
+  });
+
+  it('converts RGBA to luminance before averaging', () => {
+    const rgba = [255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 255, 255, 255, 255];
+    const [red, green, blue, white] = resizeGrayscale(rgba, 4, 1, 4, 1, 4);
+    expect(red).toBeCloseTo(0.299 * 255);
+    expect(green).toBeCloseTo(0.587 * 255);
+    expect(blue).toBeCloseTo(0.114 * 255);
+    expect(white).toBeCloseTo(255);
+  });
+
+  it('has no dependencies outside its own body, so the decode worker can embed it', () => {
+    const embedded = new Function(`return ${resizeGrayscale.toString()};`)() as typeof resizeGrayscale;
+    const vector = vectors[0];
+    expect(embedded(vector.pixels, vector.width, vector.height, 32, 32, vector.channels))
+      .toEqual(resizeGrayscale(vector.pixels, vector.width, vector.height, 32, 32, vector.channels));
+  });
+});
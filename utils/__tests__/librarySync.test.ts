@@ -0,0 +1,169 @@
+import type { LibraryDelta, LibrarySync } from '../librarySync';
+import { loadFresh } from '../__fixtures__/freshModules';
+
+interface FakeAsset {
+  id: string;
+  uri: string;
+  filename: string;
+  mediaType: 'photo';
+  creationTime: number;
+  modificationTime: number;
+  width: number;
+  height: number;
+}
+
+interface GetAssetsOptions {
+  first: number;
+  after?: string;
+  sortBy?: string | [string, boolean][];
+}
+
+/**
+ * In-memory media library that pages like MediaLibrary.getAssetsAsync and raises
+ * change events without details, the way Android does. Ids are numbers and the
+ * default sort is by id, like MediaStore rows.
+ */
+function createFakeLibrary() {
+  const assets = new Map<string, FakeAsset>();
+  let emit: ((event: { hasIncrementalChanges: boolean }) => void) | null = null;
+
+  return {
+    assets,
+    addPhoto(id: string, modificationTime: number) {
+      assets.set(id, {
+        id,
+        uri: `file:///${id}.jpg`,
+        filename: `${id}.jpg`,
+        mediaType: 'photo',
+        creationTime: Number(id),
+        modificationTime,
+        width: 4032,
+        height: 3024,
+      });
+    },
+    emitChange() {
+      emit?.({ hasIncrementalChanges: false });
+    },
+    addListener: jest.fn((listener: typeof emit) => {
+      emit = listener;
+      return { remove: () => { emit = null; } };
+    }),
+    getAssetsAsync: jest.fn(async ({ first, after, sortBy = 'default' }: GetAssetsOptions) => {
+      const [key, ascending] = Array.isArray(sortBy) ? sortBy[0] : [sortBy, true];
+      const sortValue = (asset: FakeAsset) =>
+        key === 'modificationTime' ? asset.modificationTime : key === 'creationTime' ? asset.creationTime : Number(asset.id);
+      const sorted = Array.from(assets.values()).sort((a, b) =>
+        ascending ? sortValue(a) - sortValue(b) : sortValue(b) - sortValue(a)
+      );
+      const start = after ? Number(after) : 0;
+      return {
+        assets: sorted.slice(start, start + first),
+        endCursor: String(start + first),
+        hasNextPage: start + first < sorted.length,
+        totalCount: sorted.length,
+      };
+    }),
+  };
+}
+
+// With the media library swapped out and nothing in pending removal
+async function loadLibrarySync(photoCount: number) {
+  const library = createFakeLibrary();
+  for (let i = 1; i <= photoCount; i++) {
+    library.addPhoto(String(i), i);
+  }
+
+  const { librarySync } = loadFresh(() => ({ librarySync: require('../librarySync').librarySync as LibrarySync }), {
+    'expo-media-library': () => library,
+    '../pendingRemoval': () => ({ pendingRemoval: { isHidden: () => false } }),
+  });
+  await librarySync.loadAllPhotos();
+  library.getAssetsAsync.mockClear();
+
+  let resolveNext: ((delta: LibraryDelta) => void) | null = null;
+  const unsubscribe = librarySync.subscribe(delta => resolveNext?.(delta));
+  const nextDelta = () => new Promise<LibraryDelta>(resolve => {
+    resolveNext = resolve;
+  });
+  return { librarySync, library, nextDelta, unsubscribe };
+}
+
+describe('LibrarySync', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('handles a burst of change events with one diff', async () => {
+    const { library, nextDelta, unsubscribe } = await loadLibrarySync(3);
+    const delta = nextDelta();
+
+    library.addPhoto('4', 10_000);
+    for (let i = 0; i < 3; i++) {
+      library.emitChange();
+      jest.advanceTimersByTime(200);
+    }
+    jest.advanceTimersByTime(1000);
+
+    await expect(delta).resolves.toMatchObject({ inserted: [{ id: '4' }], updated: [], deleted: [] });
+    // Newest by modification time and newest by id
+    expect(library.getAssetsAsync).toHaveBeenCalledTimes(2);
+    unsubscribe();
+  });
+
+  it('only lists photos modified since the last sync', async () => {
+    const { library, nextDelta, unsubscribe } = await loadLibrarySync(2500);
+    const delta = nextDelta();
+
+    library.addPhoto('5000', 10_000);
+    library.addPhoto('7', 10_000);
+    library.emitChange();
+    jest.advanceTimersByTime(1000);
+
+    await expect(delta).resolves.toMatchObject({ inserted: [{ id: '5000' }], updated: [{ id: '7' }], deleted: [] });
+    expect(library.getAssetsAsync).toHaveBeenCalledTimes(2);
+    unsubscribe();
+  });
+
+  it('finds new photos with an old modification time', async () => {
+    const { library, nextDelta, unsubscribe } = await loadLibrarySync(2500);
+    const delta = nextDelta();
+
+    library.addPhoto('2501', 5);
+    library.emitChange();
+    jest.advanceTimersByTime(1000);
+
+    await expect(delta).resolves.toMatchObject({ inserted: [{ id: '2501' }], updated: [], deleted: [] });
+    expect(library.getAssetsAsync).toHaveBeenCalledTimes(2);
+    unsubscribe();
+  });
+
+  it('lists the whole library again when photos were deleted', async () => {
+    const { library, nextDelta, unsubscribe } = await loadLibrarySync(2500);
+    const delta = nextDelta();
+
+    library.assets.delete('42');
+    library.emitChange();
+    jest.advanceTimersByTime(1000);
+
+    await expect(delta).resolves.toEqual({ inserted: [], updated: [], deleted: ['42'] });
+    expect(library.getAssetsAsync.mock.calls.filter(([options]) => options.sortBy === 'creationTime')).toHaveLength(3);
+    unsubscribe();
+  });
+
+  it('lists the whole library again when a photo is added and another deleted in one burst', async () => {
+    const { library, nextDelta, unsubscribe } = await loadLibrarySync(2500);
+    const delta = nextDelta();
+
+    library.assets.delete('42');
+    library.addPhoto('2501', 5);
+    library.emitChange();
+    jest.advanceTimersByTime(1000);
+
+    await expect(delta).resolves.toMatchObject({ inserted: [{ id: '2501' }], updated: [], deleted: ['42'] });
+    unsubscribe();
+  });
+});
@@ -0,0 +1,94 @@
+import { MatchGraph, UnionFind } from '../matchClustering';
+
+type Edge = [string, string, number];
+
+function buildGraph(edges: Edge[]): MatchGraph {
+  const graph = new MatchGraph();
+  edges.forEach(([a, b, distance]) => graph.addEdge(a, b, distance));
+  return graph;
+}
+
+const clusterIds = (graph: MatchGraph, options?: Parameters<MatchGraph['getClusters']>[0]) =>
+  graph.getClusters(options).map(cluster => cluster.photoIds);
+
+describe('UnionFind', () => {
+  it('joins sets and finds the same root for every member', () => {
+    const unionFind = new UnionFind();
+    unionFind.union('a', 'b');
+    unionFind.union('c', 'd');
+    unionFind.union('b', 'd');
+
+    const root = unionFind.find('a');
+    expect(['b', 'c', 'd'].map(id => unionFind.find(id))).toEqual([root, root, root]);
+    expect(unionFind.find('e')).toBe('e');
+  });
+});
+
+describe('MatchGraph', () => {
+  // a~b~c is a chain: a and c are too far apart to be an edge
+  const chain: Edge[] = [
+    ['a', 'b', 5],
+    ['b', 'c', 6],
+    ['d', 'e', 3],
+  ];
+
+  it('gives the same clusters whatever order the edges are added in', () => {
+    const edges: Edge[] = [...chain, ['c', 'f', 6], ['b', 'f', 8], ['a', 'f', 9]];
+    const expected = buildGraph(edges).getClusters({ linkage: 'complete' });
+
+    for (const order of [[...edges].reverse(), [edges[3], edges[0], edges[5], edges[2], edges[4], edges[1]]]) {
+      const flipped = order.map(([a, b, distance]): Edge => [b, a, distance]);
+      expect(buildGraph(order).getClusters({ linkage: 'complete' })).toEqual(expected);
+      expect(buildGraph(flipped).getClusters({ linkage: 'complete' })).toEqual(expected);
+    }
+  });
+
+  it('groups a chain under single linkage', () => {
+    expect(clusterIds(buildGraph(chain), { linkage: 'single' })).toEqual([['a', 'b', 'c'], ['d', 'e']]);
+  });
+
+  it('does not group a chain under complete linkage', () => {
+    // a-b is the shorter edge, so it wins and c is left out
+    expect(clusterIds(buildGraph(chain), { linkage: 'complete' })).toEqual([['a', 'b'], ['d', 'e']]);
+  });
+
+  it('groups a chain once its ends match too', () => {
+    const graph = buildGraph([...chain, ['a', 'c', 7]]);
+    expect(graph.getClusters({ linkage: 'complete' })[0]).toEqual({
+      id: 'a',
+      photoIds: ['a', 'b', 'c'],
+      averageDistance: 6,
+      diameter: 7,
+    });
+  });
+
+  it('keeps pairs that may not link apart, even through other photos', () => {
+    const canLink = (a: string, b: string) => !(a === 'a' && b === 'c') && !(a === 'c' && b === 'a');
+    expect(clusterIds(buildGraph(chain), { linkage: 'single', canLink })).toEqual([['a', 'b'], ['d', 'e']]);
+  });
+
+  it('keeps the shortest distance when an edge is added twice', () => {
+    const graph = buildGraph([['a', 'b', 5], ['b', 'a', 3], ['a', 'b', 9]]);
+    expect(graph.getDistance('a', 'b')).toBe(3);
+    expect(graph.edgeCount).toBe(1);
+  });
+
+  it('drops the edges of removed photos', () => {
+    const graph = buildGraph([...chain, ['a', 'c', 7]]);
+
+    graph.removePhotos(['b', 'missing']);
+
+    expect(graph.edgeCount).toBe(2);
+    expect(graph.getDistance('a', 'b')).toBeUndefined();
+    expect(graph.getDistance('a', 'c')).toBe(7);
+    expect(clusterIds(graph, { linkage: 'complete' })).toEqual([['a', 'c'], ['d', 'e']]);
+  });
+
+  it('lets a removed photo be added back', () => {
+    const graph = buildGraph(chain);
+    graph.removePhotos(['a']);
+    graph.addEdge('a', 'e', 4);
+
+    expect(clusterIds(graph, { linkage: 'single' })).toEqual([['a', 'd', 'e'], ['b', 'c']]);
+  });
+});
@@ -0,0 +1,301 @@
+import { MatchDeduplicator, processMatchesWithDeduplication } from '../matchDeduplication';
+import { computeMatchMetrics } from '../matchMetrics';
+import { getSimilarityScore } from '../similarityModel';
+import { FixtureMatch, match, MATCH_SETS, photo } from '../__fixtures__/matchSets';
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest])
+  );
+}
+
+function groupIds(matches: FixtureMatch[]): string[][] {
+  return matches
+    .map(m => m.photos.map(p => p.id).sort())
+    .sort((a, b) => a.join('|').localeCompare(b.join('|')));
+}
+
+describe('MatchDeduplicator.advancedDeduplication', () => {
+  describe.each(MATCH_SETS)('$name', ({ matches, expectedGroups }) => {
+    it('merges overlapping matches into the expected groups', () => {
+      expect(groupIds(MatchDeduplicator.advancedDeduplication(matches))).toEqual(expectedGroups);
+    });
+
+    it('gives the same result for every input order', () => {
+      const expected = MatchDeduplicator.advancedDeduplication(matches);
+      for (const ordering of permutations(matches)) {
+        expect(MatchDeduplicator.advancedDeduplication(ordering)).toEqual(expected);
+      }
+    });
+
+    it('gives the same result for every input order through the full pipeline', () => {
+      const expected = processMatchesWithDeduplication(matches);
+      expect(groupIds(expected)).toEqual(expectedGroups);
+      for (const ordering of permutations(matches)) {
+        expect(processMatchesWithDeduplication(ordering)).toEqual(expected);
+      }
+    });
+  });
+
+  it('recomputes confidence, distance and time window for merged matches', () => {
+    const p1 = photo('p1', 0);
+    const p2 = photo('p2', 1);
+    const p3 = photo('p3', 5);
+    const [merged] = MatchDeduplicator.advancedDeduplication([
+      match('match-b', [p2, p3], { hammingDistance: 10 }),
+      match('match-a', [p1, p2, p3], { hammingDistance: 4 }),
+    ]);
+
+    expect(merged.id).toBe('match-a');
+    expect(merged.photos.map(p => p.id)).toEqual(['p1', 'p2', 'p3']);
+    // Weighted by comparisons: match-a stands for two, match-b for one
+    expect(merged.hammingDistance).toBeCloseTo((4 * 2 + 10) / 3);
+    expect(merged.confidence).toBeCloseTo((getSimilarityScore(4) * 2 + getSimilarityScore(10)) / 3);
+    expect(merged.timeWindow).toEqual({ start: p1.creationTime, end: p3.creationTime });
+  });
+
+  it('keeps a shared status and session, and resets them when members disagree', () => {
+    const p1 = photo('p1', 0);
+    const p2 = photo('p2', 1);
+    const p3 = photo('p3', 2);
+
+    const [agreeing] = MatchDeduplicator.advancedDeduplication([
+      match('match-a', [p1, p2], { status: 'approved', sessionId: 'session-p1' }),
+      match('match-b', [p2, p3], { status: 'approved', sessionId: 'session-p1' }),
+    ]);
+    expect(agreeing.status).toBe('approved');
+    expect(agreeing.sessionId).toBe('session-p1');
+
+    const [disagreeing] = MatchDeduplicator.advancedDeduplication([
+      match('match-a', [p1, p2], { status: 'approved', sessionId: 'session-p1' }),
+      match('match-b', [p2, p3], { status: 'rejected', sessionId: 'session-p2' }),
+    ]);
+    expect(disagreeing.status).toBe('pending');
+    expect(disagreeing.sessionId).toBeUndefined();
+  });
+
+  it('merges the distance matrices, measuring pairs no member covered from their pHashes', () => {
+    const p1 = { ...photo('p1', 0), pHash: '0000000000000000' };
+    const p2 = { ...photo('p2', 1), pHash: '000000000000000F' };
+    const p3 = { ...photo('p3', 2), pHash: '00000000000000FF' };
+    const withMetrics = (id: string, photos: typeof p1[], distance: number) =>
+      match(id, photos, { metrics: computeMatchMetrics(photos.map(p => p.id), () => distance) });
+
+    const [merged] = MatchDeduplicator.advancedDeduplication([
+      withMetrics('match-a', [p1, p2], 3),
+      withMetrics('match-b', [p2, p3], 5),
+    ]);
+
+    expect(merged.metrics!.distances).toEqual([
+      [0, 3, 8],
+      [3, 0, 5],
+      [8, 5, 0],
+    ]);
+    expect(merged.metrics!.medoidId).toBe('p2');
+    expect(merged.metrics!.diameter).toBe(8);
+  });
+
+  it('leaves metrics out when a merged pair cannot be measured', () => {
+    const withMetrics = (id: string, photos: ReturnType<typeof photo>[]) =>
+      match(id, photos, { metrics: computeMatchMetrics(photos.map(p => p.id), () => 4) });
+
+    const [merged] = MatchDeduplicator.advancedDeduplication([
+      withMetrics('match-a', [photo('p1', 0), photo('p2', 1)]),
+      withMetrics('match-b', [photo('p2', 1), photo('p3', 2)]),
+    ]);
+    expect(merged.metrics).toBeUndefined();
+  });
+
+  it('returns unrelated matches unchanged', () => {
+    const single = match('match-a', [photo('p1', 0), photo('p2', 1)]);
+    expect(MatchDeduplicator.advancedDeduplication([single])).toEqual([single]);
+  });
+});
+
+describe('MatchDeduplicator.deduplicateMatches', () => {
+  const p1 = photo('p1', 0);
+  const p2 = photo('p2', 1);
+  const p3 = photo('p3', 2);
+  const p4 = photo('p4', 3);
+  const p5 = photo('p5', 4);
+
+  it('drops matches whose photos are a subset of another match', () => {
+    const result = MatchDeduplicator.deduplicateMatches([
+      match('match-small', [p1, p2], { hammingDistance: 2 }),
+      match('match-large', [p1, p2, p3], { hammingDistance: 6 }),
+    ]);
+    expect(result.map(m => m.id)).toEqual(['match-large']);
+  });
+
+  it('keeps one of two matches over the same photos, preferring higher confidence', () => {
+    const result = MatchDeduplicator.deduplicateMatches([
+      match('match-b', [p2, p1], { hammingDistance: 8 }),
+      match('match-a', [p1, p2], { hammingDistance: 4 }),
+    ]);
+    expect(result.map(m => m.id)).toEqual(['match-a']);
+  });
+
+  it('drops a mostly overlapping match in the same time window', () => {
+    const result = MatchDeduplicator.deduplicateMatches([
+      match('match-a', [p1, p2, p3, p4], { hammingDistance: 4 }),
+      match('match-b', [p2, p3, p4, p5], { hammingDistance: 6 }),
+    ]);
+    expect(result.map(m => m.id)).toEqual(['match-a']);
+  });
+
+  it('keeps mostly overlapping matches from different sessions', () => {
+    const result = MatchDeduplicator.deduplicateMatches([
+      match('match-a', [p1, p2, p3, p4], { sessionId: 'session-p1' }),
+      match('match-b', [p2, p3, p4, p5], { sessionId: 'session-p2' }),
+    ]);
+    expect(result.map(m => m.id).sort()).toEqual(['match-a', 'match-b']);
+  });
+
+  it('never lets matches of different types replace each other', () => {
+    const result = MatchDeduplicator.deduplicateMatches([
+      match('match-a', [p1, p2, p3, p4]),
+      match('crop-b', [p2, p3, p4, p5], { matchType: 'cropped' }),
+    ]);
+    expect(result.map(m => m.id).sort()).toEqual(['crop-b', 'match-a']);
+  });
+});
+
+describe('MatchDeduplicator.validateAndCleanMatches', () => {
+  const p1 = photo('p1', 0);
+  const p2 = photo('p2', 1);
+  const p3 = photo('p3', 2);
+  const nextDay = photo('p4', 25 * 60);
+
+  it('drops pairs that are less likely duplicates than not but keeps larger groups', () => {
+    const result = MatchDeduplicator.validateAndCleanMatches([
+      match('pair', [p1, p2], { hammingDistance: 20 }),
+      match('group', [p1, p2, p3], { hammingDistance: 20 }),
+    ]);
+    expect(result.map(m => m.id)).toEqual(['group']);
+  });
+
+  it('drops groups that are very unlikely duplicates', () => {
+    const result = MatchDeduplicator.validateAndCleanMatches([
+      match('far', [p1, p2, p3], { hammingDistance: 24 }),
+      match('near', [p1, p2, p3], { hammingDistance: 22 }),
+    ]);
+    expect(result.map(m => m.id)).toEqual(['near']);
+  });
+
+  it('judges distances at the hash size of the match', () => {
+    const metrics = { distances: [], diameter: 88, meanDistance: 88, medoidId: 'p1', similarityToMedoid: {}, bits: 256 };
+    const result = MatchDeduplicator.validateAndCleanMatches([
+      match('large-hash', [p1, p2, p3], { hammingDistance: 88, metrics }),
+    ]);
+    expect(result.map(m => m.id)).toEqual(['large-hash']);
+  });
+
+  it('ignores the stored confidence', () => {
+    const result = MatchDeduplicator.validateAndCleanMatches([
+      match('pair', [p1, p2], { hammingDistance: 4, confidence: 10 }),
+    ]);
+    expect(result.map(m => m.id)).toEqual(['pair']);
+  });
+
+  it('drops matches spanning more than a day unless the strategy allows it', () => {
+    const spanning = match('spanning', [p1, nextDay]);
+    expect(MatchDeduplicator.validateAndCleanMatches([spanning])).toEqual([]);
+    expect(MatchDeduplicator.validateAndCleanMatches([spanning], Infinity)).toEqual([spanning]);
+  });
+
+  it('always keeps exact copies', () => {
+    const exact = match('exact-abc', [p1, nextDay], { matchType: 'exact', confidence: 50, hammingDistance: 30 });
+    expect(MatchDeduplicator.validateAndCleanMatches([exact])).toEqual([exact]);
+  });
+});
+
+describe('MatchDeduplicator.applyExclusions', () => {
+  const p1 = photo('p1', 0);
+  const p2 = photo('p2', 1);
+  const p3 = photo('p3', 2);
+  const ids = (photos: { id: string }[]) => photos.map(p => p.id);
+
+  function exclusions(excluded: string[], neverMatch: [string, string][] = []) {
+    return {
+      isExcluded: (photoId: string) => excluded.includes(photoId),
+      canMatch: (a: string, b: string) =>
+        !excluded.includes(a) && !excluded.includes(b) &&
+        !neverMatch.some(([x, y]) => (x === a && y === b) || (x === b && y === a)),
+    };
+  }
+
+  it('leaves matches without excluded photos untouched', () => {
+    const untouched = match('match-a', [p1, p2, p3]);
+    expect(MatchDeduplicator.applyExclusions([untouched], exclusions(['p9']))).toEqual([untouched]);
+  });
+
+  it('removes excluded photos and recomputes metrics over the rest', () => {
+    const metrics = computeMatchMetrics(['p1', 'p2', 'p3'], (i, j) => [[0, 2, 8], [2, 0, 10], [8, 10, 0]][i][j]);
+    const [result] = MatchDeduplicator.applyExclusions(
+      [match('match-a', [p1, p2, p3], { hammingDistance: metrics.meanDistance, metrics })],
+      exclusions(['p2'])
+    );
+
+    expect(ids(result.photos)).toEqual(['p1', 'p3']);
+    expect(result.hammingDistance).toBe(8);
+    expect(result.confidence).toBeCloseTo(getSimilarityScore(8));
+    expect(result.metrics!.distances).toEqual([[0, 8], [8, 0]]);
+  });
+
+  it('splits never-match pairs, keeping the earlier photo', () => {
+    const [result] = MatchDeduplicator.applyExclusions(
+      [match('match-a', [p1, p2, p3])],
+      exclusions([], [['p1', 'p3']])
+    );
+    expect(ids(result.photos)).toEqual(['p1', 'p2']);
+  });
+
+  it('drops matches left with a single photo', () => {
+    expect(MatchDeduplicator.applyExclusions([match('match-a', [p1, p2])], exclusions(['p1']))).toEqual([]);
+    expect(MatchDeduplicator.applyExclusions([match('match-a', [p1, p2])], exclusions([], [['p2', 'p1']]))).toEqual([]);
+  });
+});
+
+describe('processMatchesWithDeduplication', () => {
+  it('validates, deduplicates and merges in one pass', () => {
+    const p1 = photo('p1', 0);
+    const p2 = photo('p2', 1);
+    const p3 = photo('p3', 2);
+    const p4 = photo('p4', 3);
+    const weak = photo('p5', 30);
+
+    const result = processMatchesWithDeduplication([
+      match('match-p1', [p1, p2], { hammingDistance: 3 }),
+      match('match-p2', [p2, p1], { hammingDistance: 5 }),
+      match('match-p3', [p2, p3]),
+      match('match-p4', [p3, p4]),
+      match('match-p5', [p4, weak], { hammingDistance: 22 }),
+    ]);
+
+    expect(groupIds(result)).toEqual([['p1', 'p2', 'p3', 'p4']]);
+  });
+
+  it('does not merge a never-match pair back together', () => {
+    const p1 = photo('p1', 0);
+    const p2 = photo('p2', 1);
+    const p3 = photo('p3', 2);
+    const neverMatch = {
+      isExcluded: () => false,
+      canMatch: (a: string, b: string) => !(a === 'p1' && b === 'p3') && !(a === 'p3' && b === 'p1'),
+    };
+
+    const result = processMatchesWithDeduplication(
+      [match('match-a', [p1, p2]), match('match-b', [p2, p3])],
+      { exclusions: neverMatch }
+    );
+
+    result.forEach(m => expect(m.photos.map(p => p.id)).not.toEqual(expect.arrayContaining(['p1', 'p3'])));
+  });
+
+  it('passes the time-span limit through to validation', () => {
+    const spanning = match('spanning', [photo('p1', 0), photo('p2', 48 * 60)]);
+    expect(processMatchesWithDeduplication([spanning])).toEqual([]);
+    expect(processMatchesWithDeduplication([spanning], { maxTimeSpan: Infinity })).toEqual([spanning]);
+  });
+});
@@ -0,0 +1,72 @@
+import { computeMatchMetrics, findOutlier } from '../matchMetrics';
+import { getSimilarityScore } from '../similarityModel';
+
+// Symmetric distances between photos a-d; d sits far from the others
+const DISTANCES: Record<string, number> = {
+  'a|b': 2, 'a|c': 4, 'a|d': 12,
+  'b|c': 2, 'b|d': 10,
+  'c|d': 14,
+};
+const IDS = ['a', 'b', 'c', 'd'];
+const byIndex = (i: number, j: number) => DISTANCES[`${IDS[i]}|${IDS[j]}`];
+
+describe('computeMatchMetrics', () => {
+  it('fills a symmetric matrix with a zero diagonal', () => {
+    expect(computeMatchMetrics(IDS, byIndex).distances).toEqual([
+      [0, 2, 4, 12],
+      [2, 0, 2, 10],
+      [4, 2, 0, 14],
+      [12, 10, 14, 0],
+    ]);
+  });
+
+  it('measures every pair once', () => {
+    const getDistance = jest.fn(byIndex);
+    computeMatchMetrics(IDS, getDistance);
+    expect(getDistance).toHaveBeenCalledTimes(6);
+    getDistance.mock.calls.forEach(([i, j]) => expect(i).toBeLessThan(j));
+  });
+
+  it('derives the diameter, mean and medoid', () => {
+    const metrics = computeMatchMetrics(IDS, byIndex);
+    expect(metrics.diameter).toBe(14);
+    expect(metrics.meanDistance).toBeCloseTo(44 / 6);
+    expect(metrics.medoidId).toBe('b');
+    expect(metrics.similarityToMedoid).toEqual({
+      a: getSimilarityScore(2),
+      b: getSimilarityScore(0),
+      c: getSimilarityScore(2),
+      d: getSimilarityScore(10),
+    });
+  });
+
+  it('breaks medoid ties by photo id', () => {
+    const metrics = computeMatchMetrics(['y', 'x'], () => 5);
+    expect(metrics.medoidId).toBe('x');
+  });
+
+  it('handles a single photo', () => {
+    expect(computeMatchMetrics(['a'], byIndex)).toMatchObject({
+      distances: [[0]],
+      diameter: 0,
+      meanDistance: 0,
+      medoidId: 'a',
+    });
+  });
+
+  it('scores similarity at the hash size the distances were measured at', () => {
+    const metrics = computeMatchMetrics(['a', 'b'], () => 40, 256);
+    expect(metrics.similarityToMedoid.b).toBeCloseTo(getSimilarityScore(10));
+  });
+});
+
+describe('findOutlier', () => {
+  it('picks the photo least similar to the medoid', () => {
+    expect(findOutlier(computeMatchMetrics(IDS, byIndex))).toBe('d');
+  });
+
+  it('finds no outlier when all photos are equally close', () => {
+    expect(findOutlier(computeMatchMetrics(['a', 'b', 'c'], () => 3))).toBeNull();
+    expect(findOutlier(computeMatchMetrics(['a', 'b'], () => 3))).toBeNull();
+  });
+});
@@ -0,0 +1,180 @@
+import { computeImageHashes, createPerceptualHash, getHashAlgorithm, PHashSize } from '../hashAlgorithms';
+import { formatHash } from '../hashFormat';
+import {
+  areImagesSimilar,
+  HashIndex,
+  hammingDistance,
+  minOrientationDistance,
+  resolveHashAlgorithm,
+  scaleThreshold,
+} from '../pHash';
+import { FIXTURE_IMAGES, FixtureImageName, loadFixtureImage } from '../__fixtures__/fixtureImages';
+import { GOLDEN_PHASHES } from '../__fixtures__/goldenPHashes';
+
+const phash = getHashAlgorithm('phash');
+
+function hashFixture(name: FixtureImageName): string {
+  return phash.compute(loadFixtureImage(name));
+}
+
+describe('pHash golden values', () => {
+  it.each(FIXTURE_IMAGES)('%s matches its golden pHash', name => {
+    expect(hashFixture(name)).toBe(GOLDEN_PHASHES[name]);
+  });
+
+  it('gives the same values through computeImageHashes', () => {
+    const [result] = computeImageHashes([phash], [loadFixtureImage('scene')]);
+    expect(result).toEqual({ algorithm: 'phash', bits: 64, value: GOLDEN_PHASHES.scene });
+  });
+
+  it('ignores a global brightness and contrast change', () => {
+    expect(hammingDistance(hashFixture('scene'), hashFixture('scene-bright'))).toBe(0);
+  });
+
+  it('keeps a noisy copy within the similarity threshold', () => {
+    expect(hammingDistance(hashFixture('scene'), hashFixture('scene-noisy'))).toBeLessThanOrEqual(10);
+  });
+
+  it('keeps unrelated images far apart', () => {
+    const distinct: FixtureImageName[] = ['gradient', 'checkerboard', 'circle', 'stripes', 'scene'];
+    for (let i = 0; i < distinct.length; i++) {
+      for (let j = i + 1; j < distinct.length; j++) {
+        expect(hammingDistance(GOLDEN_PHASHES[distinct[i]], GOLDEN_PHASHES[distinct[j]])).toBeGreaterThan(20);
+      }
+    }
+  });
+
+  it('finds a rotated copy through its orientation hashes', () => {
+    const [upright] = computeImageHashes([phash], [loadFixtureImage('scene')], true);
+    const [rotated] = computeImageHashes([phash], [rotateClockwise(loadFixtureImage('scene'))]);
+
+    expect(hammingDistance(rotated.value, upright.value)).toBeGreaterThan(10);
+    expect(minOrientationDistance(rotated.value, upright.value, upright.orientations)).toBe(0);
+  });
+});
+
+describe('pHash sizes', () => {
+  it.each([[8, 64], [16, 256], [32, 1024]] as const)('a %i-block pHash has %i bits', (hashSize, bits) => {
+    const algorithm = createPerceptualHash(hashSize, 32);
+    expect(algorithm.bits).toBe(bits);
+    expect(algorithm.compute(loadFixtureImage('scene'))).toMatch(new RegExp(`^[0-9A-F]{${bits / 4}}$`));
+  });
+
+  it('defaults to the registered 64-bit pHash on a 32x32 input', () => {
+    const algorithm = createPerceptualHash();
+    expect(algorithm).toMatchObject({ bits: 64, inputWidth: 32, inputHeight: 32 });
+    expect(algorithm.compute(loadFixtureImage('scene'))).toBe(GOLDEN_PHASHES.scene);
+    expect(createPerceptualHash(16)).toMatchObject({ bits: 256, inputWidth: 64, inputHeight: 64 });
+  });
+
+  it('rejects unsupported sizes', () => {
+    expect(() => createPerceptualHash(12 as PHashSize)).toThrow('Unsupported pHash size: 12');
+    expect(() => createPerceptualHash(16, 8)).toThrow('at least 16');
+  });
+
+  it('resolves the pHash from the options and leaves other algorithms alone', () => {
+    expect(resolveHashAlgorithm('phash')).toBe(getHashAlgorithm('phash'));
+    expect(resolveHashAlgorithm('phash', { hashSize: 16 }).bits).toBe(256);
+    expect(resolveHashAlgorithm('dhash', { hashSize: 16 })).toBe(getHashAlgorithm('dhash'));
+  });
+
+  // The 32x32 fixtures have no finer detail for a 1024-bit hash to pick up, so only 256 bits are checked
+  it('keeps the same matches at a 256-bit pHash with the scaled threshold', () => {
+    const algorithm = createPerceptualHash(16, 32);
+    const threshold = scaleThreshold(20, algorithm.bits);
+    const hash = (name: FixtureImageName) => algorithm.compute(loadFixtureImage(name));
+
+    expect(hammingDistance(hash('scene'), hash('scene-bright'))).toBeLessThanOrEqual(threshold);
+    expect(hammingDistance(hash('scene'), hash('scene-noisy'))).toBeLessThanOrEqual(threshold);
+    for (const name of ['gradient', 'checkerboard', 'circle', 'stripes'] as const) {
+      expect(hammingDistance(hash('scene'), hash(name))).toBeGreaterThan(threshold);
+    }
+  });
+
+  it('refuses to compare pHashes of different sizes', () => {
+    const small = formatHash(createPerceptualHash(8), '0'.repeat(16));
+    const large = formatHash(createPerceptualHash(16), '0'.repeat(64));
+    expect(() => hammingDistance(small, large)).toThrow('p1:phash:32x32:64 and p1:phash:64x64:256');
+  });
+});
+
+describe('scaleThreshold', () => {
+  it('keeps the fraction of differing bits', () => {
+    expect(scaleThreshold(20, 64)).toBe(20);
+    expect(scaleThreshold(20, 256)).toBe(80);
+    expect(scaleThreshold(10, 1024)).toBe(160);
+  });
+
+  it('scales the default similarity threshold with the hash size', async () => {
+    const algorithm = createPerceptualHash(16);
+    const zero = formatHash(algorithm, '0'.repeat(64));
+    await expect(areImagesSimilar(zero, formatHash(algorithm, '0'.repeat(54) + 'FFFFFFFFFF'))).resolves.toBe(true);
+    await expect(areImagesSimilar(zero, formatHash(algorithm, '0'.repeat(53) + '1FFFFFFFFFF'))).resolves.toBe(false);
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', '000000000000000F')).toBe(4);
+    expect(hammingDistance('FFFFFFFFFFFFFFFF', '0000000000000000')).toBe(64);
+  });
+
+  it('rejects hashes of different lengths', () => {
+    expect(() => hammingDistance('00', '0000')).toThrow('Cannot compare hashes of different formats');
+  });
+
+  it('applies the similarity threshold inclusively', async () => {
+    await expect(areImagesSimilar('0000000000000000', '00000000000003FF', 10)).resolves.toBe(true);
+    await expect(areImagesSimilar('0000000000000000', '00000000000007FF', 10)).resolves.toBe(false);
+  });
+});
+
+describe('HashIndex', () => {
+  const buildIndex = () => {
+    const index = new HashIndex<FixtureImageName>();
+    FIXTURE_IMAGES.forEach(name => index.insert(name, GOLDEN_PHASHES[name], name));
+    return index;
+  };
+
+  it('returns every entry within the radius', () => {
+    const ids = buildIndex()
+      .queryWithinDistance(GOLDEN_PHASHES.scene, 10)
+      .map(match => match.id)
+      .sort();
+    expect(ids).toEqual(['scene', 'scene-bright', 'scene-noisy']);
+  });
+
+  it('agrees with a linear scan', () => {
+    const index = buildIndex();
+    for (const probe of FIXTURE_IMAGES) {
+      for (const radius of [0, 10, 30]) {
+        const expected = FIXTURE_IMAGES
+          .filter(name => hammingDistance(GOLDEN_PHASHES[probe], GOLDEN_PHASHES[name]) <= radius)
+          .sort();
+        const actual = index.queryWithinDistance(GOLDEN_PHASHES[probe], radius).map(match => match.id).sort();
+        expect(actual).toEqual(expected);
+      }
+    }
+  });
+
+  it('stops returning removed entries', () => {
+    const index = buildIndex();
+    expect(index.remove('scene-bright')).toBe(true);
+    expect(index.remove('scene-bright')).toBe(false);
+
+    const ids = index.queryWithinDistance(GOLDEN_PHASHES.scene, 10).map(match => match.id).sort();
+    expect(ids).toEqual(['scene', 'scene-noisy']);
+    expect(index.size).toBe(FIXTURE_IMAGES.length - 1);
+  });
+});
+
+function rotateClockwise(pixels: Uint8Array, size: number = 32): Uint8Array {
+  const rotated = new Uint8Array(pixels.length);
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      rotated[col * size + (size - 1 - row)] = pixels[row * size + col];
+    }
+  }
+  return rotated;
+}
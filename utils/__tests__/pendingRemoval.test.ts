@@ -0,0 +1,195 @@
+import type { PendingRemovalManager, StagedPhoto } from '../pendingRemoval';
+import type { ReviewDecisionManager } from '../reviewDecisions';
+import { loadFresh } from '../__fixtures__/freshModules';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface FakeAsset {
+  id: string;
+  uri: string;
+  filename: string;
+  creationTime: number;
+  albumIds: Set<string>;
+}
+
+/**
+ * In-memory media library. On Android an asset lives in one album and moving it
+ * gives it a new id; on iOS albums are collections an asset can be added to.
+ */
+function createFakeLibrary(platform: 'ios' | 'android') {
+  const assets = new Map<string, FakeAsset>();
+  const albums = new Map<string, { id: string; title: string }>();
+  let nextId = 100;
+
+  const moveToAlbum = (assetId: string, albumId: string) => {
+    const asset = assets.get(assetId);
+    if (!asset) throw new Error(`No asset ${assetId}`);
+    if (platform === 'ios') {
+      asset.albumIds.add(albumId);
+      return;
+    }
+    assets.delete(assetId);
+    const id = String(nextId++);
+    assets.set(id, { ...asset, id, uri: `file:///${albumId}/${asset.filename}`, albumIds: new Set([albumId]) });
+  };
+
+  const library = {
+    assets,
+    addPhoto(id: string, albumId = 'camera'): StagedPhoto {
+      const photo = { id, uri: `file:///${albumId}/${id}.jpg`, filename: `${id}.jpg`, creationTime: Number(id), width: 4032, height: 3024 };
+      assets.set(id, { ...photo, albumIds: new Set([albumId]) });
+      return photo;
+    },
+    albumOf(filename: string): string[] {
+      const asset = Array.from(assets.values()).find(a => a.filename === filename);
+      return asset ? Array.from(asset.albumIds) : [];
+    },
+    getAlbumAsync: jest.fn(async (title: string) =>
+      Array.from(albums.values()).find(album => album.title === title) ?? null
+    ),
+    createAlbumAsync: jest.fn(async (title: string, assetId: string) => {
+      const album = { id: `album-${title}`, title };
+      albums.set(album.id, album);
+      moveToAlbum(assetId, album.id);
+      return album;
+    }),
+    addAssetsToAlbumAsync: jest.fn(async (assetIds: string[], album: string | { id: string }) => {
+      const albumId = typeof album === 'string' ? album : album.id;
+      assetIds.forEach(assetId => moveToAlbum(assetId, albumId));
+      return true;
+    }),
+    removeAssetsFromAlbumAsync: jest.fn(async (assetIds: string[], albumId: string) => {
+      assetIds.forEach(assetId => assets.get(assetId)?.albumIds.delete(albumId));
+      return true;
+    }),
+    deleteAssetsAsync: jest.fn(async (assetIds: string[]) => {
+      assetIds.forEach(assetId => assets.delete(assetId));
+      return true;
+    }),
+    getAssetInfoAsync: jest.fn(async (assetId: string) => {
+      const asset = assets.get(assetId)!;
+      return { ...asset, albumId: Array.from(asset.albumIds)[0] };
+    }),
+    getAssetsAsync: jest.fn(async ({ album }: { album: { id: string } }) => ({
+      assets: Array.from(assets.values())
+        .filter(asset => asset.albumIds.has(album.id))
+        .map(asset => ({ ...asset, albumId: album.id })),
+      hasNextPage: false,
+    })),
+  };
+  return library;
+}
+
+// With the media library and platform swapped out
+function loadPendingRemoval(platform: 'ios' | 'android' = 'ios') {
+  const library = createFakeLibrary(platform);
+  const { pendingRemoval } = loadFresh(() => {
+    require('react-native').Platform.OS = platform;
+    return { pendingRemoval: require('../pendingRemoval').pendingRemoval as PendingRemovalManager };
+  }, { 'expo-media-library': () => library });
+  return { pendingRemoval, library };
+}
+
+describe('PendingRemovalManager', () => {
+  it('moves photos into the pending removal album and records their metadata', async () => {
+    const { pendingRemoval, library } = loadPendingRemoval();
+    const photos = [library.addPhoto('1'), library.addPhoto('2')];
+
+    const entries = await pendingRemoval.stagePhotos(photos);
+
+    expect(entries).toHaveLength(2);
+    expect(entries.map(entry => entry.original)).toEqual(photos);
+    expect(new Set(entries.map(entry => entry.batchId)).size).toBe(1);
+    expect(library.albumOf('1.jpg')).toContain('album-Pending removal');
+    expect(library.deleteAssetsAsync).not.toHaveBeenCalled();
+    expect(pendingRemoval.isHidden({ id: '1' })).toBe(true);
+  });
+
+  it('restores a batch on iOS by taking it out of the album', async () => {
+    const { pendingRemoval, library } = loadPendingRemoval();
+    const [entry] = await pendingRemoval.stagePhotos([library.addPhoto('1')]);
+
+    await expect(pendingRemoval.restoreBatch(entry.batchId)).resolves.toEqual([entry.original]);
+
+    expect(library.albumOf('1.jpg')).toEqual(['camera']);
+    expect(pendingRemoval.isHidden({ id: '1' })).toBe(false);
+    expect((await pendingRemoval.getCurrentState()).entries).toEqual([]);
+  });
+
+  it('follows the new ids Android gives moved photos and moves them back on undo', async () => {
+    const { pendingRemoval, library } = loadPendingRemoval('android');
+    const [entry] = await pendingRemoval.stagePhotos([library.addPhoto('1', 'weddings')]);
+
+    expect(entry.assetId).not.toBe('1');
+    expect(entry.originalAlbumId).toBe('weddings');
+    expect(pendingRemoval.isHidden({ id: 'unknown', albumId: 'album-Pending removal' })).toBe(true);
+
+    await pendingRemoval.restore([entry]);
+    expect(library.albumOf('1.jpg')).toEqual(['weddings']);
+    expect(library.removeAssetsFromAlbumAsync).not.toHaveBeenCalled();
+  });
+
+  it('only purges photos whose retention period ran out', async () => {
+    const { pendingRemoval, library } = loadPendingRemoval();
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const [old] = await pendingRemoval.stagePhotos([library.addPhoto('1')]);
+    now.mockReturnValue(10 * DAY_MS);
+    await pendingRemoval.stagePhotos([library.addPhoto('2')]);
+    now.mockRestore();
+
+    await expect(pendingRemoval.purgeExpired(29 * DAY_MS)).resolves.toBe(0);
+    expect(library.deleteAssetsAsync).not.toHaveBeenCalled();
+
+    await expect(pendingRemoval.purgeExpired(30 * DAY_MS)).resolves.toBe(1);
+    expect(library.deleteAssetsAsync).toHaveBeenCalledWith([old.assetId]);
+    expect((await pendingRemoval.getCurrentState()).entries.map(entry => entry.original.id)).toEqual(['2']);
+  });
+
+  it('forgets the review decisions of purged photos', async () => {
+    const { pendingRemoval, library } = loadPendingRemoval();
+    const reviewDecisions: ReviewDecisionManager = require('../reviewDecisions').reviewDecisions;
+    await reviewDecisions.setDecision(['1', '2', '3'], 'approved');
+    const entries = await pendingRemoval.stagePhotos([library.addPhoto('1')]);
+
+    await pendingRemoval.purge(entries);
+
+    expect(reviewDecisions.getStatus(['2', '3'])).toBe('approved');
+    expect(reviewDecisions.getStatus(['1', '2', '3'])).toBeUndefined();
+  });
+
+  it('keeps entries when the user declines the deletion', async () => {
+    const { pendingRemoval, library } = loadPendingRemoval();
+    const entries = await pendingRemoval.stagePhotos([library.addPhoto('1')]);
+    library.deleteAssetsAsync.mockResolvedValueOnce(false);
+
+    await expect(pendingRemoval.purge(entries)).resolves.toBe(0);
+    expect((await pendingRemoval.getCurrentState()).entries).toHaveLength(1);
+  });
+
+  it('forgets photos that left the album outside the app', async () => {
+    const { pendingRemoval, library } = loadPendingRemoval();
+    await pendingRemoval.stagePhotos([library.addPhoto('1'), library.addPhoto('2')]);
+    library.assets.get('1')!.albumIds.delete('album-Pending removal');
+
+    const state = await pendingRemoval.reconcile();
+    expect(state.entries.map(entry => entry.original.id)).toEqual(['2']);
+  });
+
+  it('drops the entries of a failed move and reports it', async () => {
+    const { pendingRemoval, library } = loadPendingRemoval();
+    library.createAlbumAsync.mockRejectedValueOnce(new Error('Permission denied'));
+
+    await expect(pendingRemoval.stagePhotos([library.addPhoto('1')])).rejects.toMatchObject({
+      name: 'PendingRemovalError',
+      message: 'Could not move photos to Pending removal: Permission denied',
+    });
+    expect((await pendingRemoval.getCurrentState()).entries).toEqual([]);
+  });
+
+  it('validates the retention period', async () => {
+    const { pendingRemoval } = loadPendingRemoval();
+
+    await expect(pendingRemoval.setRetentionDays(7)).resolves.toMatchObject({ retentionDays: 7 });
+    await expect(pendingRemoval.setRetentionDays(0)).rejects.toThrow('at least 1');
+  });
+});
@@ -0,0 +1,134 @@
+import { loadFixtureImage } from '../__fixtures__/fixtureImages';
+import {
+  computeImageQualityMetrics,
+  getExposureScore,
+  ImageQualityMetrics,
+  QualityPhoto,
+  rankPhotosByQuality,
+} from '../photoQuality';
+
+const SIZE = 32;
+
+// 3x3 box blur, clamped at the edges, to fake a shaky shot of the same scene
+function blur(pixels: Uint8Array): Float64Array {
+  const blurred = new Float64Array(pixels.length);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      let sum = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const sy = Math.min(SIZE - 1, Math.max(0, y + dy));
+          const sx = Math.min(SIZE - 1, Math.max(0, x + dx));
+          sum += pixels[sy * SIZE + sx];
+        }
+      }
+      blurred[y * SIZE + x] = sum / 9;
+    }
+  }
+  return blurred;
+}
+
+const metrics = (overrides: Partial<ImageQualityMetrics> = {}): ImageQualityMetrics => ({
+  sharpness: 100,
+  meanLuminance: 127.5,
+  shadowClipping: 0,
+  highlightClipping: 0,
+  fileSize: 2_000_000,
+  ...overrides,
+});
+
+const photo = (id: string, overrides: Partial<QualityPhoto> = {}): QualityPhoto => ({
+  id,
+  width: 4032,
+  height: 3024,
+  metrics: metrics(),
+  ...overrides,
+});
+
+describe('computeImageQualityMetrics', () => {
+  it('measures a blurred copy as less sharp', () => {
+    const scene = loadFixtureImage('scene');
+    const sharp = computeImageQualityMetrics(scene, SIZE, SIZE);
+    const blurred = computeImageQualityMetrics(blur(scene), SIZE, SIZE);
+
+    expect(blurred.sharpness).toBeLessThan(sharp.sharpness);
+    expect(blurred.meanLuminance).toBeCloseTo(sharp.meanLuminance, 0);
+  });
+
+  it('has no sharpness or clipping on a flat mid-gray image', () => {
+    expect(computeImageQualityMetrics(new Array(SIZE * SIZE).fill(128), SIZE, SIZE)).toEqual({
+      sharpness: 0,
+      meanLuminance: 128,
+      shadowClipping: 0,
+      highlightClipping: 0,
+    });
+  });
+
+  it('counts clipped shadows and highlights', () => {
+    const pixels = [0, 0, 255, 128];
+    expect(computeImageQualityMetrics(pixels, 2, 2)).toMatchObject({
+      shadowClipping: 0.5,
+      highlightClipping: 0.25,
+    });
+  });
+});
+
+describe('getExposureScore', () => {
+  it('prefers a balanced exposure to a clipped one', () => {
+    const balanced = getExposureScore(metrics());
+    expect(balanced).toBe(1);
+    expect(getExposureScore(metrics({ meanLuminance: 230, highlightClipping: 0.3 }))).toBeLessThan(balanced / 2);
+    expect(getExposureScore(metrics({ meanLuminance: 0, shadowClipping: 1 }))).toBe(0);
+  });
+});
+
+describe('rankPhotosByQuality', () => {
+  it('keeps the sharpest shot of a burst', () => {
+    const ranking = rankPhotosByQuality([
+      photo('shaky', { metrics: metrics({ sharpness: 20 }) }),
+      photo('sharp', { metrics: metrics({ sharpness: 150 }) }),
+      photo('soft', { metrics: metrics({ sharpness: 60 }) }),
+    ]);
+
+    expect(ranking.keeperId).toBe('sharp');
+    expect(ranking.scores.map(score => score.photoId)).toEqual(['sharp', 'soft', 'shaky']);
+    expect(ranking.reasons).toEqual(['sharpness']);
+  });
+
+  it('lets a favorite win over a sharper photo', () => {
+    const ranking = rankPhotosByQuality([
+      photo('sharp', { metrics: metrics({ sharpness: 150 }) }),
+      photo('favorite', { isFavorite: true, metrics: metrics({ sharpness: 40 }) }),
+    ]);
+
+    expect(ranking.keeperId).toBe('favorite');
+    expect(ranking.reasons).toEqual(['favorite']);
+  });
+
+  it('gives every factor the keeper is strictly best at as a reason', () => {
+    const ranking = rankPhotosByQuality([
+      photo('thumbnail', { width: 640, height: 480, metrics: metrics({ fileSize: 80_000 }) }),
+      photo('original'),
+    ]);
+
+    expect(ranking.keeperId).toBe('original');
+    expect(ranking.reasons).toEqual(['resolution', 'fileSize']);
+  });
+
+  it('ranks on resolution alone when a photo could not be measured', () => {
+    const ranking = rankPhotosByQuality([
+      photo('measured', { width: 1024, height: 768, metrics: metrics({ sharpness: 500 }) }),
+      photo('unreadable', { metrics: undefined }),
+    ]);
+
+    expect(ranking.keeperId).toBe('unreadable');
+    expect(ranking.scores.every(score => score.factors.sharpness === 0 && score.factors.exposure === 0)).toBe(true);
+  });
+
+  it('keeps the first photo of identical copies, without a reason', () => {
+    const ranking = rankPhotosByQuality([photo('a'), photo('b')]);
+
+    expect(ranking.keeperId).toBe('a');
+    expect(ranking.reasons).toEqual([]);
+  });
+});
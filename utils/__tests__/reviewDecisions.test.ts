@@ -0,0 +1,97 @@
+import type { ReviewDecisionManager } from '../reviewDecisions';
+import { getGroupKey } from '../reviewDecisions';
+import { FreshModules, loadFresh } from '../__fixtures__/freshModules';
+
+const REVIEW_DECISIONS_KEY = '@review_decisions';
+
+function loadReviewDecisions(): FreshModules<{ reviewDecisions: ReviewDecisionManager }> {
+  return loadFresh(() => ({ reviewDecisions: require('../reviewDecisions').reviewDecisions }));
+}
+
+function group(id: string, photoIds: string[]) {
+  return { id, photos: photoIds.map(photoId => ({ id: photoId })), status: 'pending' as const };
+}
+
+describe('getGroupKey', () => {
+  it('ignores photo order and repeats', () => {
+    expect(getGroupKey(['b', 'a', 'c'])).toBe(getGroupKey(['c', 'b', 'a', 'b']));
+    expect(getGroupKey(['a', 'b'])).not.toBe(getGroupKey(['a', 'b', 'c']));
+  });
+});
+
+describe('ReviewDecisionManager', () => {
+  it('treats every group as undecided until decisions are loaded', async () => {
+    const { reviewDecisions } = loadReviewDecisions();
+    expect(reviewDecisions.getStatus(['a', 'b'])).toBeUndefined();
+
+    await reviewDecisions.initialize();
+    expect(reviewDecisions.getStatus(['a', 'b'])).toBeUndefined();
+  });
+
+  it('keys decisions by the set of photos, not the match id', async () => {
+    const { reviewDecisions } = loadReviewDecisions();
+    await reviewDecisions.setDecision(['b', 'a'], 'approved');
+
+    expect(reviewDecisions.applyDecisions([group('match-new-id', ['a', 'b'])])).toEqual([
+      { ...group('match-new-id', ['a', 'b']), status: 'approved' },
+    ]);
+  });
+
+  it('suppresses rejected groups and the smaller groups they cover', async () => {
+    const { reviewDecisions } = loadReviewDecisions();
+    await reviewDecisions.setDecision(['a', 'b', 'c'], 'rejected');
+
+    const result = reviewDecisions.applyDecisions([
+      group('same', ['a', 'b', 'c']),
+      group('subset', ['c', 'a']),
+      group('grown', ['a', 'b', 'c', 'd']),
+      group('other', ['a', 'd']),
+    ]);
+    expect(result.map(match => match.id)).toEqual(['grown', 'other']);
+  });
+
+  it('does not carry an approval over to a different group', async () => {
+    const { reviewDecisions } = loadReviewDecisions();
+    await reviewDecisions.setDecision(['a', 'b', 'c'], 'approved');
+
+    expect(reviewDecisions.getStatus(['a', 'b'])).toBeUndefined();
+  });
+
+  it('lets a later decision replace an earlier one', async () => {
+    const { reviewDecisions } = loadReviewDecisions();
+    await reviewDecisions.setDecision(['a', 'b'], 'rejected');
+    await reviewDecisions.setDecision(['a', 'b'], 'approved');
+
+    expect(reviewDecisions.getStatus(['a', 'b'])).toBe('approved');
+  });
+
+  it('persists decisions across app launches', async () => {
+    const first = loadReviewDecisions();
+    await first.reviewDecisions.setDecision(['a', 'b'], 'rejected');
+    const stored = await first.AsyncStorage.getItem(REVIEW_DECISIONS_KEY);
+
+    const second = loadReviewDecisions();
+    await second.AsyncStorage.setItem(REVIEW_DECISIONS_KEY, stored!);
+    await second.reviewDecisions.initialize();
+    expect(second.reviewDecisions.getStatus(['b', 'a'])).toBe('rejected');
+  });
+
+  it('removes deleted photos from reviewed groups', async () => {
+    const { reviewDecisions } = loadReviewDecisions();
+    await reviewDecisions.setDecision(['a', 'b', 'c'], 'rejected');
+    await reviewDecisions.setDecision(['d', 'e'], 'approved');
+
+    await reviewDecisions.forgetPhotos(['c', 'e']);
+
+    expect(reviewDecisions.getStatus(['a', 'b'])).toBe('rejected');
+    expect(Object.keys(await reviewDecisions.getCurrentDecisions())).toEqual([getGroupKey(['a', 'b'])]);
+  });
+
+  it('falls back to no decisions when storage is unreadable', async () => {
+    const { reviewDecisions, AsyncStorage } = loadReviewDecisions();
+    await AsyncStorage.setItem(REVIEW_DECISIONS_KEY, '{not json');
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(reviewDecisions.initialize()).resolves.toEqual({});
+  });
+});
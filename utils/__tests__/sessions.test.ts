@@ -0,0 +1,96 @@
+import {
+  countSessionDuplicates,
+  PhotoLocation,
+  resolveSessionLocations,
+  segmentSessions,
+  SESSION_GAP_MS,
+  SessionIndex,
+  TimelinePhoto,
+} from '../sessions';
+
+const MINUTE = 60 * 1000;
+const HOME: PhotoLocation = { latitude: 52.0, longitude: 4.0 };
+// About 100 m from HOME
+const NEXT_DOOR: PhotoLocation = { latitude: 52.001, longitude: 4.0 };
+// About 11 km from HOME
+const TOWN: PhotoLocation = { latitude: 52.1, longitude: 4.0 };
+
+const photo = (id: string, minute: number, location?: PhotoLocation | null): TimelinePhoto => ({
+  id,
+  creationTime: minute * MINUTE,
+  location,
+});
+
+describe('segmentSessions', () => {
+  it('splits on a gap longer than the session gap', () => {
+    const sessions = segmentSessions([
+      photo('c', 100),
+      photo('a', 0),
+      photo('b', SESSION_GAP_MS / MINUTE),
+    ]);
+
+    expect(sessions.map(session => session.photoIds)).toEqual([['a', 'b'], ['c']]);
+    expect(sessions[0]).toMatchObject({ id: 'session-a', start: 0, end: SESSION_GAP_MS, photoCount: 2 });
+  });
+
+  it('splits when a located photo is far from the previous one', () => {
+    const sessions = segmentSessions([
+      photo('a', 0, HOME),
+      photo('b', 5, NEXT_DOOR),
+      photo('c', 10),
+      photo('d', 15, TOWN),
+    ]);
+
+    expect(sessions.map(session => session.photoIds)).toEqual([['a', 'b', 'c'], ['d']]);
+    expect(sessions[0].location!.latitude).toBeCloseTo(52.0005, 4);
+    expect(sessions[1].location).toEqual(TOWN);
+  });
+
+  it('keeps photos without a location in the time-based session', () => {
+    const sessions = segmentSessions([photo('a', 0), photo('b', 5, TOWN), photo('c', 10)]);
+    expect(sessions.map(session => session.photoIds)).toEqual([['a', 'b', 'c']]);
+  });
+});
+
+describe('SessionIndex', () => {
+  it('falls back to the session covering a photo it was not built with', () => {
+    const index = new SessionIndex(segmentSessions([photo('a', 0), photo('b', 20), photo('c', 100)]));
+
+    expect(index.getSession(photo('a', 0))!.id).toBe('session-a');
+    expect(index.getSession(photo('new', 10))!.id).toBe('session-a');
+    expect(index.getSession(photo('new', 60))).toBeNull();
+  });
+});
+
+describe('countSessionDuplicates', () => {
+  it('counts every photo of a group but the first in each session', () => {
+    const photos = [photo('a', 0), photo('b', 1), photo('c', 2), photo('d', 100)];
+    const sessions = countSessionDuplicates(segmentSessions(photos), [{ photos: [photos[2], photos[0], photos[1], photos[3]] }]);
+
+    expect(sessions.map(session => session.duplicateCount)).toEqual([2, 0]);
+  });
+});
+
+describe('resolveSessionLocations', () => {
+  const readFrom = (locations: Record<string, PhotoLocation | null>) =>
+    jest.fn(async ({ id }: TimelinePhoto) => locations[id] ?? null);
+
+  it('reads only the ends of a session that stays in one place', async () => {
+    const readLocation = readFrom({ a: HOME, c: NEXT_DOOR });
+    const photos = await resolveSessionLocations([photo('a', 0), photo('b', 5), photo('c', 10), photo('d', 100)], readLocation);
+
+    expect(readLocation.mock.calls.map(([{ id }]) => id).sort()).toEqual(['a', 'c']);
+    expect(photos.find(p => p.id === 'b')!.location).toBeUndefined();
+  });
+
+  it('reads every photo of a session whose ends are far apart, so it can be split', async () => {
+    const readLocation = readFrom({ a: HOME, b: HOME, c: TOWN, d: TOWN });
+    const photos = await resolveSessionLocations(
+      [photo('a', 0), photo('b', 5), photo('c', 10), photo('d', 15)],
+      readLocation
+    );
+
+    expect(readLocation).toHaveBeenCalledTimes(4);
+    expect(segmentSessions(photos).map(session => session.photoIds)).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+});
@@ -0,0 +1,83 @@
+import { buildLabeledDistances } from '../__fixtures__/labeledPairs';
+import {
+  DEFAULT_SIMILARITY_MODEL,
+  fitSimilarityModel,
+  getConfidenceLevel,
+  getDuplicateProbability,
+  getMaxMatchDistance,
+  getSimilarityScore,
+  MIN_PAIR_PROBABILITY,
+} from '../similarityModel';
+
+describe('fitSimilarityModel', () => {
+  const samples = buildLabeledDistances();
+
+  it('reproduces the default model from the labeled pairs', () => {
+    const model = fitSimilarityModel(samples);
+    expect(model.midpoint).toBeCloseTo(DEFAULT_SIMILARITY_MODEL.midpoint, 2);
+    expect(model.slope).toBeCloseTo(DEFAULT_SIMILARITY_MODEL.slope, 2);
+  });
+
+  it('is calibrated: predicted probabilities track the observed duplicate rate', () => {
+    // Bins around the midpoint, where both labels occur
+    for (const [low, high] of [[0, 14], [14, 24], [24, 64]]) {
+      const inBin = samples.filter(sample => sample.distance >= low && sample.distance < high);
+      const observed = inBin.filter(sample => sample.duplicate).length / inBin.length;
+      const predicted = inBin.reduce((sum, sample) => sum + getDuplicateProbability(sample.distance), 0) / inBin.length;
+      expect(Math.abs(predicted - observed)).toBeLessThan(0.1);
+    }
+  });
+
+  it('needs both duplicate and distinct samples', () => {
+    expect(() => fitSimilarityModel([{ distance: 3, duplicate: true }])).toThrow(
+      'Calibration needs both duplicate and distinct samples'
+    );
+  });
+});
+
+describe('getDuplicateProbability', () => {
+  it('falls with distance and is even at the midpoint', () => {
+    expect(getDuplicateProbability(DEFAULT_SIMILARITY_MODEL.midpoint)).toBeCloseTo(0.5);
+    for (let distance = 0; distance < 64; distance++) {
+      expect(getDuplicateProbability(distance + 1)).toBeLessThan(getDuplicateProbability(distance));
+    }
+  });
+
+  it('reads distances on the 64-bit scale whatever the hash size', () => {
+    expect(getDuplicateProbability(40, 256)).toBeCloseTo(getDuplicateProbability(10));
+    expect(getSimilarityScore(40, 256)).toBeCloseTo(getSimilarityScore(10));
+  });
+
+  it('scores identical hashes as near-certain duplicates', () => {
+    expect(getSimilarityScore(0)).toBeGreaterThan(99);
+    expect(getSimilarityScore(64)).toBeLessThan(1);
+  });
+});
+
+describe('getMaxMatchDistance', () => {
+  it('is the furthest a pair can be and still pass the pair probability floor', () => {
+    for (const bits of [64, 256, 1024]) {
+      const maxDistance = getMaxMatchDistance(bits);
+      expect(getDuplicateProbability(maxDistance, bits)).toBeGreaterThanOrEqual(MIN_PAIR_PROBABILITY);
+      expect(getDuplicateProbability(maxDistance + 1, bits)).toBeLessThan(MIN_PAIR_PROBABILITY);
+    }
+  });
+
+  it('is 19 of 64 bits for the default model', () => {
+    expect(getMaxMatchDistance(64)).toBe(19);
+  });
+});
+
+describe('getConfidenceLevel', () => {
+  it('buckets scores by duplicate probability', () => {
+    expect(getConfidenceLevel(95)).toBe('high');
+    expect(getConfidenceLevel(90)).toBe('high');
+    expect(getConfidenceLevel(75)).toBe('medium');
+    expect(getConfidenceLevel(59)).toBe('low');
+  });
+
+  it('labels a typical burst pair high and a borderline pair low', () => {
+    expect(getConfidenceLevel(getSimilarityScore(8))).toBe('high');
+    expect(getConfidenceLevel(getSimilarityScore(20))).toBe('low');
+  });
+});
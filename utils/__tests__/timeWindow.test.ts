@@ -0,0 +1,62 @@
+import { TimelinePhoto } from '../sessions';
+import { BURST_WINDOW_MS, createTimeWindowResolver, getTimeWindowStrategyInfo } from '../timeWindow';
+
+const MINUTE = 60 * 1000;
+// Local noon, so the day window does not depend on the test machine's time zone
+const NOON = new Date(2024, 2, 2, 12, 0, 0).getTime();
+
+const photo = (id: string, offsetMs: number): TimelinePhoto => ({ id, creationTime: NOON + offsetMs });
+
+describe('createTimeWindowResolver', () => {
+  const photos = [photo('a', 0), photo('b', 10 * MINUTE), photo('c', 3 * 60 * MINUTE)];
+
+  it('burst: matches within the burst window either side of a photo', () => {
+    const resolver = createTimeWindowResolver('burst', photos);
+    const window = resolver.getWindow(photos[0]);
+
+    expect(window).toEqual({ start: NOON - BURST_WINDOW_MS, end: NOON + BURST_WINDOW_MS });
+    expect(resolver.isInWindow(window, photo('x', BURST_WINDOW_MS))).toBe(true);
+    expect(resolver.isInWindow(window, photo('x', BURST_WINDOW_MS + 1))).toBe(false);
+  });
+
+  it('session: matches only within the same session', () => {
+    const resolver = createTimeWindowResolver('session', photos);
+    const window = resolver.getWindow(photos[0]);
+
+    expect(window).toEqual({ start: NOON, end: NOON + 10 * MINUTE, sessionId: 'session-a' });
+    expect(resolver.isInWindow(window, photos[1])).toBe(true);
+    expect(resolver.isInWindow(window, photos[2])).toBe(false);
+  });
+
+  it('session: a photo outside every session gets a window of its own', () => {
+    const resolver = createTimeWindowResolver('session', photos);
+    const stray = photo('x', 60 * MINUTE);
+    const window = resolver.getWindow(stray);
+
+    expect(window).toEqual({ start: stray.creationTime, end: stray.creationTime });
+    expect(resolver.isInWindow(window, stray)).toBe(false);
+  });
+
+  it('day: matches from local midnight to the end of the day', () => {
+    const resolver = createTimeWindowResolver('day', photos);
+    const window = resolver.getWindow(photos[2]);
+    const midnight = new Date(2024, 2, 2).getTime();
+
+    expect(window).toEqual({ start: midnight, end: new Date(2024, 2, 3).getTime() - 1 });
+    expect(resolver.isInWindow(window, photo('x', 11 * 60 * MINUTE + 59 * MINUTE))).toBe(true);
+    expect(resolver.isInWindow(window, photo('x', 12 * 60 * MINUTE))).toBe(false);
+  });
+
+  it('library: spans the whole timeline and matches everything', () => {
+    const resolver = createTimeWindowResolver('library', photos);
+
+    expect(resolver.getWindow(photos[1])).toEqual({ start: NOON, end: NOON + 3 * 60 * MINUTE });
+    expect(resolver.getWindow(photo('x', -MINUTE)).start).toBe(NOON - MINUTE);
+    expect(resolver.isInWindow(resolver.getWindow(photos[0]), photo('x', 1e9))).toBe(true);
+  });
+
+  it('caps how long a match may span per strategy', () => {
+    expect(createTimeWindowResolver('burst', photos).maxMatchSpan).toBe(getTimeWindowStrategyInfo('burst').maxMatchSpan);
+    expect(createTimeWindowResolver('session', photos).maxMatchSpan).toBe(Infinity);
+  });
+});
@@ -0,0 +1,54 @@
+import type { UserProfileManager } from '../userProfile';
+import { FreshModules, loadFresh } from '../__fixtures__/freshModules';
+
+const USER_PROFILE_KEY = '@user_profile';
+
+function loadUserProfile(): FreshModules<{ userProfileManager: UserProfileManager }> {
+  return loadFresh(() => ({ userProfileManager: require('../userProfile').userProfileManager }));
+}
+
+describe('UserProfileManager', () => {
+  it('creates a free account for new users', async () => {
+    const { userProfileManager, AsyncStorage } = loadUserProfile();
+
+    await expect(userProfileManager.getCurrentProfile()).resolves.toEqual({ isPaidAccount: false });
+    await expect(userProfileManager.isPaidUser()).resolves.toBe(false);
+    expect(JSON.parse((await AsyncStorage.getItem(USER_PROFILE_KEY))!)).toEqual({ isPaidAccount: false });
+  });
+
+  it('restores a stored profile', async () => {
+    const { userProfileManager, AsyncStorage } = loadUserProfile();
+    await AsyncStorage.setItem(USER_PROFILE_KEY, JSON.stringify({ isPaidAccount: true, subscriptionType: 'yearly' }));
+
+    await expect(userProfileManager.isPaidUser()).resolves.toBe(true);
+  });
+
+  it('records upgrades and persists them', async () => {
+    const { userProfileManager, AsyncStorage } = loadUserProfile();
+
+    const profile = await userProfileManager.upgradeToPaid('lifetime');
+
+    expect(profile).toMatchObject({ isPaidAccount: true, subscriptionType: 'lifetime' });
+    expect(profile.purchaseDate).toEqual(expect.any(Number));
+    expect(JSON.parse((await AsyncStorage.getItem(USER_PROFILE_KEY))!)).toMatchObject({ isPaidAccount: true });
+  });
+
+  it('resets to a free account', async () => {
+    const { userProfileManager } = loadUserProfile();
+    await userProfileManager.simulatePurchase('monthly');
+
+    await userProfileManager.resetToFree();
+
+    await expect(userProfileManager.getCurrentProfile()).resolves.toEqual({ isPaidAccount: false });
+  });
+
+  it('falls back to a free account when storage fails', async () => {
+    const { userProfileManager, AsyncStorage } = loadUserProfile();
+    jest.mocked(AsyncStorage.getItem).mockRejectedValueOnce(new Error('storage unavailable'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(userProfileManager.initialize()).resolves.toEqual({ isPaidAccount: false });
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,59 @@
+import type { ViewCounter as ViewCounterType } from '../viewCounter';
+import { FreshModules, loadFresh } from '../__fixtures__/freshModules';
+
+const VIEW_COUNTER_KEY = '@photo_view_counter';
+
+function loadViewCounter(): FreshModules<{ viewCounter: ViewCounterType }> {
+  return loadFresh(() => ({ viewCounter: require('../viewCounter').viewCounter }));
+}
+
+describe('ViewCounter', () => {
+  it('starts new users with 100 views and persists that state', async () => {
+    const { viewCounter, AsyncStorage } = loadViewCounter();
+
+    const state = await viewCounter.getCurrentState();
+    expect(state).toMatchObject({ remainingViews: 100, totalViews: 0 });
+    expect(JSON.parse((await AsyncStorage.getItem(VIEW_COUNTER_KEY))!)).toEqual(state);
+  });
+
+  it('restores a stored state', async () => {
+    const { viewCounter, AsyncStorage } = loadViewCounter();
+    await AsyncStorage.setItem(VIEW_COUNTER_KEY, JSON.stringify({ remainingViews: 7, totalViews: 93, lastUpdated: 1 }));
+
+    await expect(viewCounter.getCurrentState()).resolves.toEqual({ remainingViews: 7, totalViews: 93, lastUpdated: 1 });
+  });
+
+  it('decrements remaining views and counts total views', async () => {
+    const { viewCounter, AsyncStorage } = loadViewCounter();
+
+    await viewCounter.decrementView();
+    const state = await viewCounter.decrementView();
+
+    expect(state).toMatchObject({ remainingViews: 98, totalViews: 2 });
+    expect(JSON.parse((await AsyncStorage.getItem(VIEW_COUNTER_KEY))!)).toMatchObject({ remainingViews: 98 });
+  });
+
+  it('never goes below zero', async () => {
+    const { viewCounter, AsyncStorage } = loadViewCounter();
+    await AsyncStorage.setItem(VIEW_COUNTER_KEY, JSON.stringify({ remainingViews: 0, totalViews: 100, lastUpdated: 1 }));
+
+    await expect(viewCounter.decrementView()).resolves.toMatchObject({ remainingViews: 0, totalViews: 100 });
+  });
+
+  it('resets to the initial allowance', async () => {
+    const { viewCounter } = loadViewCounter();
+    await viewCounter.decrementView();
+
+    await expect(viewCounter.resetCounter()).resolves.toMatchObject({ remainingViews: 100, totalViews: 0 });
+  });
+
+  it('falls back to the default state when storage fails', async () => {
+    const { viewCounter, AsyncStorage } = loadViewCounter();
+    jest.mocked(AsyncStorage.getItem).mockRejectedValueOnce(new Error('storage unavailable'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(viewCounter.initialize()).resolves.toMatchObject({ remainingViews: 100, totalViews: 0 });
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
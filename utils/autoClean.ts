@@ -0,0 +1,307 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { rankGroupPhotos } from './bestShot';
+import { exclusionRules } from './exclusionRules';
+import { getOrCalculateQualityMetrics } from './hashCache';
+import { pendingRemoval, StagedPhoto } from './pendingRemoval';
+
+const AUTO_CLEAN_JOB_KEY = '@auto_clean_job';
+// The photo list never changes, so it is written once instead of after every batch
+const AUTO_CLEAN_PHOTOS_KEY = '@auto_clean_job:photos';
+
+// Photos moved to pending removal per step; progress is saved after each one
+export const AUTO_CLEAN_BATCH_SIZE = 25;
+// The similarity model is provisional, so auto-clean only offers levels it reaches for
+// near-identical photos: 99.9% is a mean distance of about 7 of 64 bits, 99% about 11
+export const AUTO_CLEAN_CONFIDENCE_OPTIONS = [99.9, 99.5, 99];
+export const DEFAULT_AUTO_CLEAN_CONFIDENCE = 99.9;
+
+export interface AutoCleanMatch {
+  id: string;
+  photos: StagedPhoto[];
+  confidence: number;
+  status: 'pending' | 'approved' | 'rejected';
+}
+
+export interface AutoCleanGroup {
+  matchId: string;
+  keeperId: string;
+  removePhotoIds: string[];
+}
+
+export interface AutoCleanPlan {
+  minConfidence: number;
+  groups: AutoCleanGroup[];
+  // Photos to remove, each once
+  photos: StagedPhoto[];
+  // Bytes freed by removing them, counting only photos of known size
+  totalBytes: number;
+  unknownSizeCount: number;
+  // Groups below the threshold, left for manual review
+  manualReviewMatchIds: string[];
+}
+
+export interface AutoCleanJob {
+  id: string;
+  photos: StagedPhoto[];
+  totalBytes: number;
+  // Photos before this index have been moved to pending removal
+  processedCount: number;
+  // Pending removal batches created by the job, so it can be undone as a whole
+  batchIds: string[];
+  createdAt: number;
+  // Why the last run stopped early, if it failed
+  error?: string;
+}
+
+// What is saved after every batch
+type StoredAutoCleanProgress = Omit<AutoCleanJob, 'photos'>;
+
+export interface AutoCleanRunOptions {
+  signal?: AbortSignal;
+  onProgress?: (processed: number, total: number) => void;
+  // Ids of the photos each batch moved, as soon as the batch is done
+  onBatchRemoved?: (photoIds: string[]) => void;
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    const error = new Error('Auto-clean was cancelled');
+    error.name = 'AbortError';
+    throw error;
+  }
+}
+
+function createAutoCleanError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'AutoCleanError';
+  return error;
+}
+
+/**
+ * Whether auto-clean handles a match at this confidence. Rejected matches are
+ * never touched; everything else below the threshold stays in manual review.
+ */
+export function isAutoCleanEligible(match: AutoCleanMatch, minConfidence: number): boolean {
+  return match.status !== 'rejected' && match.confidence >= minConfidence;
+}
+
+/**
+ * Pick the best shot of every match at or above the confidence threshold and
+ * collect the rest for removal. A photo kept in one group is never removed
+ * through another, and photos the user keeps forever are never removed.
+ */
+export async function buildAutoCleanPlan(
+  matches: AutoCleanMatch[],
+  minConfidence: number,
+  options: Omit<AutoCleanRunOptions, 'onBatchRemoved'> = {}
+): Promise<AutoCleanPlan> {
+  const eligible = matches.filter(match => isAutoCleanEligible(match, minConfidence) && match.photos.length > 1);
+  const manualReviewMatchIds = matches
+    .filter(match => match.status !== 'rejected' && match.confidence < minConfidence)
+    .map(match => match.id);
+
+  const keepers = new Map<string, string>();
+  for (let i = 0; i < eligible.length; i++) {
+    throwIfAborted(options.signal);
+    const ranking = await rankGroupPhotos(eligible[i].photos, { signal: options.signal });
+    keepers.set(eligible[i].id, ranking.keeperId);
+    options.onProgress?.(i + 1, eligible.length);
+  }
+
+  const keptIds = new Set(keepers.values());
+  const photos = new Map<string, StagedPhoto>();
+  const groups = eligible.map(match => {
+    const removable = match.photos.filter(photo => !keptIds.has(photo.id) && !exclusionRules.isKeptForever(photo.id));
+    removable.forEach(photo => photos.set(photo.id, photo));
+    return { matchId: match.id, keeperId: keepers.get(match.id)!, removePhotoIds: removable.map(photo => photo.id) };
+  });
+
+  let totalBytes = 0;
+  let unknownSizeCount = 0;
+  for (const photo of photos.values()) {
+    // Measured while ranking, so this is a cache hit
+    const fileSize = await getOrCalculateQualityMetrics(photo)
+      .then(metrics => metrics.fileSize)
+      .catch(() => undefined);
+    if (fileSize === undefined) {
+      unknownSizeCount++;
+    } else {
+      totalBytes += fileSize;
+    }
+  }
+
+  return {
+    minConfidence,
+    groups: groups.filter(group => group.removePhotoIds.length > 0),
+    photos: Array.from(photos.values()),
+    totalBytes,
+    unknownSizeCount,
+    manualReviewMatchIds,
+  };
+}
+
+/**
+ * Bulk removal as a persisted job: photos move to pending removal in batches and
+ * progress is saved after each, so a job cut short by the app closing, a pause or
+ * an error carries on where it stopped.
+ */
+export class AutoCleanJobManager {
+  private static instance: AutoCleanJobManager;
+  private job: AutoCleanJob | null = null;
+  private loaded = false;
+  private running = false;
+
+  private constructor() {}
+
+  static getInstance(): AutoCleanJobManager {
+    if (!AutoCleanJobManager.instance) {
+      AutoCleanJobManager.instance = new AutoCleanJobManager();
+    }
+    return AutoCleanJobManager.instance;
+  }
+
+  async initialize(): Promise<AutoCleanJob | null> {
+    try {
+      const [[, progress], [, photos]] = await AsyncStorage.multiGet([AUTO_CLEAN_JOB_KEY, AUTO_CLEAN_PHOTOS_KEY]);
+      this.job = progress && photos
+        ? { ...(JSON.parse(progress) as StoredAutoCleanProgress), photos: JSON.parse(photos) }
+        : null;
+    } catch (error) {
+      console.error('Error initializing auto-clean job:', error);
+      this.job = null;
+    }
+    this.loaded = true;
+    return this.job;
+  }
+
+  /**
+   * The job still to finish, if any
+   */
+  async getCurrentJob(): Promise<AutoCleanJob | null> {
+    if (!this.loaded) {
+      await this.initialize();
+    }
+    return this.job;
+  }
+
+  async startJob(plan: AutoCleanPlan): Promise<AutoCleanJob> {
+    if (await this.getCurrentJob()) {
+      throw createAutoCleanError('An auto-clean job is already in progress');
+    }
+    if (plan.photos.length === 0) {
+      throw createAutoCleanError('Nothing to clean');
+    }
+
+    const createdAt = Date.now();
+    const job: AutoCleanJob = {
+      id: `auto-clean-${createdAt}`,
+      photos: plan.photos,
+      totalBytes: plan.totalBytes,
+      processedCount: 0,
+      batchIds: [],
+      createdAt,
+    };
+    try {
+      await AsyncStorage.multiSet([
+        [AUTO_CLEAN_PHOTOS_KEY, JSON.stringify(job.photos)],
+        [AUTO_CLEAN_JOB_KEY, JSON.stringify(this.toStoredProgress(job))],
+      ]);
+    } catch (error) {
+      console.error('Error saving auto-clean job:', error);
+      throw createAutoCleanError('Could not save the auto-clean job');
+    }
+    this.job = job;
+    this.loaded = true;
+    return job;
+  }
+
+  /**
+   * Run the current job until it is done or the signal aborts it. Returns the job
+   * as it stands; it is finished when processedCount reaches the photo count,
+   * and is then no longer the current job.
+   */
+  async run(options: AutoCleanRunOptions = {}): Promise<AutoCleanJob> {
+    const current = await this.getCurrentJob();
+    if (!current) {
+      throw createAutoCleanError('No auto-clean job to run');
+    }
+    if (this.running) {
+      throw createAutoCleanError('The auto-clean job is already running');
+    }
+
+    this.running = true;
+    let job: AutoCleanJob = { ...current, error: undefined };
+    try {
+      // Load the manifest so already staged photos are recognized
+      await pendingRemoval.getCurrentState();
+      options.onProgress?.(job.processedCount, job.photos.length);
+
+      while (job.processedCount < job.photos.length && !options.signal?.aborted) {
+        const batch = job.photos.slice(job.processedCount, job.processedCount + AUTO_CLEAN_BATCH_SIZE);
+        // A batch cut short last time may already be staged
+        const toStage = batch.filter(photo => !pendingRemoval.isHidden({ id: photo.id }));
+
+        let entries;
+        try {
+          entries = await pendingRemoval.stagePhotos(toStage);
+        } catch (error) {
+          job = { ...job, error: error instanceof Error ? error.message : String(error) };
+          await this.saveProgress(job).catch(saveError => console.error('Error saving auto-clean job:', saveError));
+          throw error;
+        }
+
+        job = {
+          ...job,
+          processedCount: job.processedCount + batch.length,
+          batchIds: entries.length > 0 ? [...job.batchIds, entries[0].batchId] : job.batchIds,
+        };
+        options.onBatchRemoved?.(batch.map(photo => photo.id));
+        try {
+          await this.saveProgress(job);
+        } catch (error) {
+          // Carrying on would lose track of the batches to undo after a restart
+          console.error('Error saving auto-clean job:', error);
+          this.job = { ...job, error: 'Could not save the auto-clean progress, so it was stopped.' };
+          throw createAutoCleanError(this.job.error!);
+        }
+
+        options.onProgress?.(job.processedCount, job.photos.length);
+      }
+
+      if (job.processedCount >= job.photos.length) {
+        // Done either way; a leftover finished job completes at once when run again
+        await this.removeJob().catch(error => console.error('Error removing auto-clean job:', error));
+      }
+      return job;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Give up on the current job. Photos it already moved stay in pending removal.
+   */
+  async discardJob(): Promise<void> {
+    if (this.running) {
+      throw createAutoCleanError('Pause the auto-clean job before discarding it');
+    }
+    await this.removeJob();
+  }
+
+  private toStoredProgress({ photos, ...progress }: AutoCleanJob): StoredAutoCleanProgress {
+    return progress;
+  }
+
+  private async saveProgress(job: AutoCleanJob): Promise<void> {
+    this.job = job;
+    await AsyncStorage.setItem(AUTO_CLEAN_JOB_KEY, JSON.stringify(this.toStoredProgress(job)));
+  }
+
+  private async removeJob(): Promise<void> {
+    this.job = null;
+    this.loaded = true;
+    await AsyncStorage.multiRemove([AUTO_CLEAN_JOB_KEY, AUTO_CLEAN_PHOTOS_KEY]);
+  }
+}
+
+export const autoCleanJobs = AutoCleanJobManager.getInstance();
@@ -0,0 +1,50 @@
+import * as MediaLibrary from 'expo-media-library';
+import { Platform } from 'react-native';
+import { getOrCalculateQualityMetrics, HashablePhoto } from './hashCache';
+import { PHashOptions } from './pHash';
+import { ImageQualityMetrics, QualityRanking, rankPhotosByQuality } from './photoQuality';
+
+export interface RankablePhoto extends HashablePhoto {
+  width: number;
+  height: number;
+}
+
+async function getIsFavorite(photoId: string): Promise<boolean> {
+  if (Platform.OS === 'web') return false;
+  try {
+    // Favorites are an iOS concept; Android leaves the flag out
+    const info = await MediaLibrary.getAssetInfoAsync(photoId, { shouldDownloadFromNetwork: false });
+    return !!info.isFavorite;
+  } catch (error) {
+    console.warn(`Could not read favorite flag of ${photoId}:`, error);
+    return false;
+  }
+}
+
+async function getQualityMetrics(photo: RankablePhoto, options?: PHashOptions): Promise<ImageQualityMetrics | undefined> {
+  try {
+    return await getOrCalculateQualityMetrics(photo, options);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') throw error;
+    console.warn(`Could not measure quality of ${photo.id}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Rank the photos of a match group to pick the one to keep. A photo that cannot
+ * be decoded only drops the factors that need its pixels, so the group is still
+ * ranked on resolution and favorites.
+ */
+export async function rankGroupPhotos(photos: RankablePhoto[], options?: PHashOptions): Promise<QualityRanking> {
+  const qualityPhotos = await Promise.all(
+    photos.map(async photo => ({
+      id: photo.id,
+      width: photo.width,
+      height: photo.height,
+      isFavorite: await getIsFavorite(photo.id),
+      metrics: await getQualityMetrics(photo, options),
+    }))
+  );
+  return rankPhotosByQuality(qualityPhotos);
+}
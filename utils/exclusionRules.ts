@@ -0,0 +1,171 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { librarySync } from './librarySync';
+
+const EXCLUSION_RULES_KEY = '@exclusion_rules';
+
+export interface ExclusionRules {
+  // Photo pairs that must never be matched, each stored as [smaller id, larger id]
+  neverMatchPairs: [string, string][];
+  // Albums whose photos are left out of scanning altogether
+  excludedAlbumIds: string[];
+  // Photos never suggested for deletion; they still show up in matches as keepers
+  keepForeverPhotoIds: string[];
+}
+
+/**
+ * What the matching pipeline needs to know to honor the rules
+ */
+export interface MatchExclusions {
+  isExcluded(photoId: string): boolean;
+  canMatch(photoIdA: string, photoIdB: string): boolean;
+}
+
+const DEFAULT_RULES: ExclusionRules = {
+  neverMatchPairs: [],
+  excludedAlbumIds: [],
+  keepForeverPhotoIds: [],
+};
+
+function pairKey(photoIdA: string, photoIdB: string): string {
+  return photoIdA < photoIdB ? `${photoIdA}|${photoIdB}` : `${photoIdB}|${photoIdA}`;
+}
+
+/**
+ * User-defined rules the matcher must honor: pairs that must never match, albums
+ * excluded from scanning, and photos kept forever. Lookups are synchronous so they
+ * can run inside the matching loop; call initialize() before the first scan.
+ */
+export class ExclusionRuleManager implements MatchExclusions {
+  private static instance: ExclusionRuleManager;
+  private rules: ExclusionRules | null = null;
+  private neverMatch = new Set<string>();
+  private keepForever = new Set<string>();
+  // Photos found in the excluded albums at the last refresh
+  private excludedAlbumPhotoIds = new Set<string>();
+
+  private constructor() {}
+
+  static getInstance(): ExclusionRuleManager {
+    if (!ExclusionRuleManager.instance) {
+      ExclusionRuleManager.instance = new ExclusionRuleManager();
+    }
+    return ExclusionRuleManager.instance;
+  }
+
+  async initialize(): Promise<ExclusionRules> {
+    try {
+      const stored = await AsyncStorage.getItem(EXCLUSION_RULES_KEY);
+      // Merge over the defaults so rule types added later get a value
+      this.rules = stored ? { ...DEFAULT_RULES, ...JSON.parse(stored) } : { ...DEFAULT_RULES };
+    } catch (error) {
+      console.error('Error initializing exclusion rules:', error);
+      this.rules = { ...DEFAULT_RULES };
+    }
+    this.indexRules();
+    return this.rules!;
+  }
+
+  async getCurrentRules(): Promise<ExclusionRules> {
+    if (!this.rules) {
+      await this.initialize();
+    }
+    return this.rules!;
+  }
+
+  /**
+   * Whether a photo sits in an excluded album. Photos kept forever are not
+   * excluded, so their near-duplicates are still found.
+   */
+  isExcluded(photoId: string): boolean {
+    return this.excludedAlbumPhotoIds.has(photoId);
+  }
+
+  isKeptForever(photoId: string): boolean {
+    return this.keepForever.has(photoId);
+  }
+
+  isNeverMatchPair(photoIdA: string, photoIdB: string): boolean {
+    return this.neverMatch.has(pairKey(photoIdA, photoIdB));
+  }
+
+  canMatch(photoIdA: string, photoIdB: string): boolean {
+    return !this.isExcluded(photoIdA) && !this.isExcluded(photoIdB) && !this.isNeverMatchPair(photoIdA, photoIdB);
+  }
+
+  async addNeverMatchPair(photoIdA: string, photoIdB: string): Promise<ExclusionRules> {
+    const rules = await this.getCurrentRules();
+    if (photoIdA === photoIdB || this.isNeverMatchPair(photoIdA, photoIdB)) return rules;
+
+    const pair: [string, string] = photoIdA < photoIdB ? [photoIdA, photoIdB] : [photoIdB, photoIdA];
+    return this.updateRules({ ...rules, neverMatchPairs: [...rules.neverMatchPairs, pair] });
+  }
+
+  async removeNeverMatchPair(photoIdA: string, photoIdB: string): Promise<ExclusionRules> {
+    const rules = await this.getCurrentRules();
+    const key = pairKey(photoIdA, photoIdB);
+    return this.updateRules({
+      ...rules,
+      neverMatchPairs: rules.neverMatchPairs.filter(([a, b]) => pairKey(a, b) !== key),
+    });
+  }
+
+  async setKeepForever(photoId: string, keep: boolean): Promise<ExclusionRules> {
+    const rules = await this.getCurrentRules();
+    const others = rules.keepForeverPhotoIds.filter(id => id !== photoId);
+    return this.updateRules({ ...rules, keepForeverPhotoIds: keep ? [...others, photoId] : others });
+  }
+
+  /**
+   * Exclude or include an album. Its photos are looked up again on the next
+   * refreshExcludedAlbumPhotos().
+   */
+  async setAlbumExcluded(albumId: string, excluded: boolean): Promise<ExclusionRules> {
+    const rules = await this.getCurrentRules();
+    const others = rules.excludedAlbumIds.filter(id => id !== albumId);
+    return this.updateRules({ ...rules, excludedAlbumIds: excluded ? [...others, albumId] : others });
+  }
+
+  /**
+   * Look up which photos are in the excluded albums. Albums change outside the
+   * app, so call this before each scan.
+   */
+  async refreshExcludedAlbumPhotos(): Promise<void> {
+    const rules = await this.getCurrentRules();
+    const photoIds = new Set<string>();
+
+    for (const albumId of rules.excludedAlbumIds) {
+      try {
+        (await librarySync.getAlbumPhotoIds(albumId)).forEach(photoId => photoIds.add(photoId));
+      } catch (error) {
+        // Deleted albums have no photos left to exclude
+        console.error(`Error listing excluded album ${albumId}:`, error);
+      }
+    }
+
+    this.excludedAlbumPhotoIds = photoIds;
+  }
+
+  private async updateRules(rules: ExclusionRules): Promise<ExclusionRules> {
+    this.rules = rules;
+    this.indexRules();
+    await this.saveRules();
+    return rules;
+  }
+
+  private indexRules(): void {
+    this.neverMatch = new Set((this.rules?.neverMatchPairs ?? []).map(([a, b]) => pairKey(a, b)));
+    this.keepForever = new Set(this.rules?.keepForeverPhotoIds ?? []);
+  }
+
+  private async saveRules(): Promise<void> {
+    try {
+      if (this.rules) {
+        await AsyncStorage.setItem(EXCLUSION_RULES_KEY, JSON.stringify(this.rules));
+      }
+    } catch (error) {
+      console.error('Error saving exclusion rules:', error);
+    }
+  }
+}
+
+export const exclusionRules = ExclusionRuleManager.getInstance();
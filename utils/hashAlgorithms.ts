@@ -0,0 +1,393 @@
+export type HashAlgorithmName = 'ahash' | 'dhash' | 'phash' | 'whash';
+
+/**
+ * A perceptual hash algorithm that works on a grayscale buffer of
+ * inputWidth x inputHeight pixels (row-major, 0-255 luminance)
+ */
+export interface HashAlgorithm {
+  name: HashAlgorithmName;
+  label: string;
+  bits: number;
+  inputWidth: number;
+  inputHeight: number;
+  compute(grayscale: ArrayLike<number>): string;
+}
+
+/**
+ * Hash value tagged with the algorithm that produced it
+ */
+export interface ImageHash {
+  algorithm: HashAlgorithmName;
+  bits: number;
+  value: string;
+  // Hashes of the rotated/mirrored image, in ORIENTATIONS order
+  orientations?: string[];
+  // pHashes of overlapping tiles, in REGION_TILES order
+  regions?: string[];
+}
+
+export type HashSet = Partial<Record<HashAlgorithmName, string>>;
+
+export type OrientationHashSet = Partial<Record<HashAlgorithmName, string[]>>;
+
+/**
+ * Non-upright orientations hashed for rotation/mirror-invariant matching.
+ * Clockwise rotations, then the same rotations of the horizontally mirrored image.
+ */
+export const ORIENTATIONS = [
+  { rotation: 1, mirror: false },
+  { rotation: 2, mirror: false },
+  { rotation: 3, mirror: false },
+  { rotation: 0, mirror: true },
+  { rotation: 1, mirror: true },
+  { rotation: 2, mirror: true },
+  { rotation: 3, mirror: true },
+] as const;
+
+/**
+ * Orientation families need a square input so rotated thumbnails keep their shape
+ */
+export function supportsOrientations(algorithm: HashAlgorithm): boolean {
+  return algorithm.inputWidth === algorithm.inputHeight;
+}
+
+/**
+ * Rotate a square grayscale buffer clockwise by rotation * 90 degrees,
+ * mirroring it horizontally first if requested
+ */
+export function transformGrayscale(
+  pixels: ArrayLike<number>,
+  size: number,
+  rotation: number,
+  mirror: boolean
+): Float64Array {
+  const transformed = new Float64Array(size * size);
+  const last = size - 1;
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let srcX = x;
+      let srcY = y;
+      switch (rotation % 4) {
+        case 1: srcX = y; srcY = last - x; break;
+        case 2: srcX = last - x; srcY = last - y; break;
+        case 3: srcX = last - y; srcY = x; break;
+      }
+      if (mirror) srcX = last - srcX;
+      transformed[y * size + x] = pixels[srcY * size + srcX];
+    }
+  }
+
+  return transformed;
+}
+
+/**
+ * Convert a bit array to an uppercase hex string, zero-padding the last nibble
+ */
+function bitsToHex(bits: boolean[]): string {
+  let hexHash = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    let nibble = 0;
+    for (let j = 0; j < 4; j++) {
+      nibble = (nibble << 1) | (bits[i + j] ? 1 : 0);
+    }
+    hexHash += nibble.toString(16);
+  }
+  return hexHash.toUpperCase();
+}
+
+function median(values: ArrayLike<number>): number {
+  const sorted = Array.from(values).sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Average hash: 8x8 thumbnail thresholded at its mean
+ */
+const averageHash: HashAlgorithm = {
+  name: 'ahash',
+  label: 'Average hash',
+  bits: 64,
+  inputWidth: 8,
+  inputHeight: 8,
+  compute(grayscale) {
+    let sum = 0;
+    for (let i = 0; i < grayscale.length; i++) {
+      sum += grayscale[i];
+    }
+    const mean = sum / grayscale.length;
+
+    const bits: boolean[] = [];
+    for (let i = 0; i < grayscale.length; i++) {
+      bits.push(grayscale[i] > mean);
+    }
+    return bitsToHex(bits);
+  },
+};
+
+/**
+ * Difference hash: compares horizontally adjacent pixels of a 9x8 thumbnail.
+ * Cheapest to compute, useful as a first pass or confirmation hash.
+ */
+const differenceHash: HashAlgorithm = {
+  name: 'dhash',
+  label: 'Difference hash',
+  bits: 64,
+  inputWidth: 9,
+  inputHeight: 8,
+  compute(grayscale) {
+    const bits: boolean[] = [];
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        bits.push(grayscale[row * 9 + col] < grayscale[row * 9 + col + 1]);
+      }
+    }
+    return bitsToHex(bits);
+  },
+};
+
+/**
+ * Haar wavelet hash: LL band of a multi-level 2D Haar decomposition of a
+ * 64x64 thumbnail, thresholded at its median
+ */
+const waveletHash: HashAlgorithm = {
+  name: 'whash',
+  label: 'Wavelet hash',
+  bits: 64,
+  inputWidth: 64,
+  inputHeight: 64,
+  compute(grayscale) {
+    let size = 64;
+    let band = Float64Array.from(grayscale);
+
+    while (size > 8) {
+      const half = size / 2;
+      const next = new Float64Array(half * half);
+      for (let row = 0; row < half; row++) {
+        for (let col = 0; col < half; col++) {
+          const i = row * 2 * size + col * 2;
+          next[row * half + col] = (band[i] + band[i + 1] + band[i + size] + band[i + size + 1]) / 2;
+        }
+      }
+      band = next;
+      size = half;
+    }
+
+    const threshold = median(band);
+    return bitsToHex(Array.from(band, value => value > threshold));
+  },
+};
+
+/**
+ * Side of the low-frequency DCT block a pHash keeps: 8 (64-bit), 16 (256-bit) or 32 (1024-bit)
+ */
+export const PHASH_SIZES = [8, 16, 32] as const;
+export type PHashSize = typeof PHASH_SIZES[number];
+
+/**
+ * DCT perceptual hash keeping the hashSize x hashSize low-frequency block of an
+ * inputSize x inputSize thumbnail. Larger hashes also keep finer detail, which
+ * tells apart near-identical shots such as bursts.
+ */
+export function createPerceptualHash(hashSize: PHashSize = 8, inputSize: number = hashSize * 4): HashAlgorithm {
+  if (!PHASH_SIZES.includes(hashSize)) {
+    throw new Error(`Unsupported pHash size: ${hashSize}`);
+  }
+  if (!Number.isInteger(inputSize) || inputSize < hashSize) {
+    throw new Error(`pHash input size must be an integer of at least ${hashSize}: ${inputSize}`);
+  }
+
+  return {
+    name: 'phash',
+    label: 'Perceptual hash',
+    bits: hashSize * hashSize,
+    inputWidth: inputSize,
+    inputHeight: inputSize,
+    compute(grayscale) {
+      return generateHashFromDCT(applyDCT(grayscale, inputSize, hashSize));
+    },
+  };
+}
+
+/**
+ * Default 64-bit DCT perceptual hash on a 32x32 thumbnail
+ */
+const perceptualHash = createPerceptualHash();
+
+const registry = new Map<HashAlgorithmName, HashAlgorithm>(
+  [averageHash, differenceHash, waveletHash, perceptualHash].map(algorithm => [algorithm.name, algorithm])
+);
+
+export function getHashAlgorithm(name: HashAlgorithmName): HashAlgorithm {
+  const algorithm = registry.get(name);
+  if (!algorithm) {
+    throw new Error(`Unknown hash algorithm: ${name}`);
+  }
+  return algorithm;
+}
+
+export function getHashAlgorithms(): HashAlgorithm[] {
+  return Array.from(registry.values());
+}
+
+export function registerHashAlgorithm(algorithm: HashAlgorithm): void {
+  registry.set(algorithm.name, algorithm);
+}
+
+/**
+ * Run each algorithm on its own grayscale buffer (buffers[i] belongs to algorithms[i]).
+ * With includeOrientations, square algorithms also hash every rotation and mirror.
+ */
+export function computeImageHashes(
+  algorithms: HashAlgorithm[],
+  buffers: ArrayLike<number>[],
+  includeOrientations: boolean = false
+): ImageHash[] {
+  return algorithms.map((algorithm, i) => {
+    const hash: ImageHash = {
+      algorithm: algorithm.name,
+      bits: algorithm.bits,
+      value: algorithm.compute(buffers[i]),
+    };
+
+    if (includeOrientations && supportsOrientations(algorithm)) {
+      hash.orientations = ORIENTATIONS.map(({ rotation, mirror }) =>
+        algorithm.compute(transformGrayscale(buffers[i], algorithm.inputWidth, rotation, mirror))
+      );
+    }
+
+    return hash;
+  });
+}
+
+/**
+ * Side of the square thumbnail that regional tiles are cut from
+ */
+export const REGION_INPUT_SIZE = 128;
+
+/**
+ * Overlapping tiles for crop-tolerant matching, in REGION_INPUT_SIZE pixels:
+ * a 3x3 grid of half-size tiles, then a 2x2 grid of three-quarter-size tiles,
+ * both on a quarter-image stride. Row-major within each grid.
+ */
+export const REGION_TILES: { x: number; y: number; size: number }[] = [
+  ...[0, 32, 64].flatMap(y => [0, 32, 64].map(x => ({ x, y, size: 64 }))),
+  ...[0, 32].flatMap(y => [0, 32].map(x => ({ x, y, size: 96 }))),
+];
+
+/**
+ * Box-filter one tile of a REGION_INPUT_SIZE thumbnail down to the pHash input size
+ */
+function extractTile(pixels: ArrayLike<number>, tile: { x: number; y: number; size: number }): Float64Array {
+  const outputSize = perceptualHash.inputWidth;
+  const scale = tile.size / outputSize;
+  const tilePixels = new Float64Array(outputSize * outputSize);
+
+  for (let row = 0; row < outputSize; row++) {
+    for (let col = 0; col < outputSize; col++) {
+      let sum = 0;
+      for (let dy = 0; dy < scale; dy++) {
+        const offset = (tile.y + row * scale + dy) * REGION_INPUT_SIZE + tile.x + col * scale;
+        for (let dx = 0; dx < scale; dx++) {
+          sum += pixels[offset + dx];
+        }
+      }
+      tilePixels[row * outputSize + col] = sum / (scale * scale);
+    }
+  }
+
+  return tilePixels;
+}
+
+/**
+ * pHash every REGION_TILES tile of a REGION_INPUT_SIZE grayscale thumbnail
+ */
+export function computeRegionalHashes(grayscale: ArrayLike<number>): string[] {
+  return REGION_TILES.map(tile => perceptualHash.compute(extractTile(grayscale, tile)));
+}
+
+const cosineTables = new Map<string, Float64Array>();
+
+/**
+ * Cosine basis table for an N-point DCT, indexed [k * size + n]
+ * Only the first `count` frequencies are computed and tables are cached per size
+ */
+function getCosineTable(size: number, count: number): Float64Array {
+  const key = `${size}:${count}`;
+  let table = cosineTables.get(key);
+
+  if (!table) {
+    table = new Float64Array(count * size);
+    for (let k = 0; k < count; k++) {
+      for (let n = 0; n < size; n++) {
+        table[k * size + n] = Math.cos((2 * n + 1) * k * Math.PI / (2 * size));
+      }
+    }
+    cosineTables.set(key, table);
+  }
+
+  return table;
+}
+
+/**
+ * Apply 2D Discrete Cosine Transform
+ * Separable row/column pass that only computes the low-frequency
+ * outputSize x outputSize block used by the hash
+ */
+export function applyDCT(pixels: ArrayLike<number>, size: number, outputSize: number = 8): number[][] {
+  const cosTable = getCosineTable(size, outputSize);
+  
+  // Row pass: transform each row, keeping only the low frequencies
+  const rowDCT = new Float64Array(size * outputSize);
+  for (let x = 0; x < size; x++) {
+    for (let v = 0; v < outputSize; v++) {
+      let sum = 0;
+      for (let y = 0; y < size; y++) {
+        sum += pixels[x * size + y] * cosTable[v * size + y];
+      }
+      rowDCT[x * outputSize + v] = sum;
+    }
+  }
+  
+  // Column pass over the row results, then apply normalization factors
+  const dct: number[][] = [];
+  for (let u = 0; u < outputSize; u++) {
+    dct[u] = new Array(outputSize).fill(0);
+    const alphaU = u === 0 ? 1 / Math.sqrt(2) : 1;
+    
+    for (let v = 0; v < outputSize; v++) {
+      let sum = 0;
+      for (let x = 0; x < size; x++) {
+        sum += cosTable[u * size + x] * rowDCT[x * outputSize + v];
+      }
+      
+      const alphaV = v === 0 ? 1 / Math.sqrt(2) : 1;
+      dct[u][v] = (2 / size) * alphaU * alphaV * sum;
+    }
+  }
+  
+  return dct;
+}
+
+/**
+ * Generate hash from DCT coefficients
+ */
+export function generateHashFromDCT(dctCoefficients: number[][]): string {
+  // Use the whole low-frequency block, DC component included
+  const hashSize = dctCoefficients.length;
+  const coefficients: number[] = [];
+  
+  for (let i = 0; i < hashSize; i++) {
+    for (let j = 0; j < hashSize; j++) {
+      coefficients.push(dctCoefficients[i][j]);
+    }
+  }
+  
+  // Median of an even count: mean of the two middle coefficients
+  const sortedCoefficients = [...coefficients].sort((a, b) => a - b);
+  const middle = sortedCoefficients.length / 2;
+  const median = (sortedCoefficients[middle - 1] + sortedCoefficients[middle]) / 2;
+  
+  // Generate hash bits based on median comparison
+  return bitsToHex(coefficients.map(coeff => coeff > median));
+}
@@ -0,0 +1,562 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  calculateContentDigest,
+  calculateImageHashes,
+  calculateImageQualityMetrics,
+  PHashOptions,
+  resolveHashAlgorithm,
+} from './pHash';
+import {
+  createPerceptualHash,
+  getHashAlgorithm,
+  HashAlgorithm,
+  HashAlgorithmName,
+  HashSet,
+  OrientationHashSet,
+  PHASH_SIZES,
+  PHashSize,
+  supportsOrientations,
+} from './hashAlgorithms';
+import {
+  formatHash,
+  getHashHex,
+  HASH_FORMAT_VERSION,
+  hasCurrentHashVersion,
+  isCurrentHashFormat,
+  parseHash,
+} from './hashFormat';
+import type { ImageQualityMetrics } from './photoQuality';
+import type { PhotoLocation } from './sessions';
+
+const HASH_CACHE_PREFIX = '@phash_cache:v2:';
+// Small buckets, so a flush during a scan rewrites only a few kilobytes per hashed photo
+const BUCKET_COUNT = 1024;
+const FLUSH_DELAY_MS = 2000;
+
+// Buckets from before the cache was spread over more of them; moved on load
+const LEGACY_HASH_CACHE_PREFIX = '@phash_cache:';
+const LEGACY_BUCKET_COUNT = 32;
+
+/**
+ * Stored form of a photo's hashes. The format version is kept once per entry and
+ * every hash as bare hex; get() puts the format prefix back.
+ */
+export interface HashCacheEntry {
+  version: string;
+  hashes: HashSet;
+  // Thumbnail side the pHash was computed on, when not the default for its size
+  phashInputSize?: number;
+  // All orientation hashes of an algorithm as one string, in ORIENTATIONS order
+  orientations?: HashSet;
+  // pHashes of overlapping tiles for crop-tolerant matching, in REGION_TILES order
+  regions?: string;
+  // SHA-256 of the file bytes for exact-duplicate detection
+  digest?: string;
+  // Sharpness and exposure for picking the best shot of a group
+  quality?: ImageQualityMetrics;
+  // Where the photo was taken; null when it has no location
+  location?: PhotoLocation | null;
+  modificationTime: number;
+  size?: number;
+}
+
+export interface HashablePhoto {
+  id: string;
+  uri: string;
+  modificationTime?: number;
+  fileSize?: number;
+}
+
+export interface PhotoHashes {
+  hashes: HashSet;
+  orientations: OrientationHashSet;
+  regions?: string[];
+  digest?: string;
+  quality?: ImageQualityMetrics;
+  location?: PhotoLocation | null;
+}
+
+type HashCacheBucket = Record<string, HashCacheEntry>;
+
+// Entry as stored before the format version moved out of the hashes
+type LegacyHashCacheEntry = Omit<HashCacheEntry, 'version' | 'phashInputSize' | 'orientations' | 'regions'> & {
+  orientations?: OrientationHashSet;
+  regions?: string[];
+};
+
+type SaveErrorListener = (error: Error) => void;
+
+function unpackHashes(packed: string, hexLength: number): string[] {
+  const hashes: string[] = [];
+  for (let i = 0; i < packed.length; i += hexLength) {
+    hashes.push(packed.slice(i, i + hexLength));
+  }
+  return hashes;
+}
+
+// Ranking only compares shots, so a few decimals are plenty
+function roundQualityMetrics(quality: ImageQualityMetrics): ImageQualityMetrics {
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return {
+    ...quality,
+    sharpness: round(quality.sharpness),
+    meanLuminance: round(quality.meanLuminance),
+    shadowClipping: round(quality.shadowClipping),
+    highlightClipping: round(quality.highlightClipping),
+  };
+}
+
+/**
+ * Algorithm a stored hash was produced by. Only the pHash comes in several sizes,
+ * told apart by its bit count and the entry's input size.
+ */
+function getStoredAlgorithm(name: HashAlgorithmName, hex: string, phashInputSize?: number): HashAlgorithm | null {
+  if (name !== 'phash') {
+    const algorithm = getHashAlgorithm(name);
+    return hex.length * 4 === algorithm.bits ? algorithm : null;
+  }
+
+  const hashSize = Math.sqrt(hex.length * 4) as PHashSize;
+  if (!PHASH_SIZES.includes(hashSize)) return null;
+  return createPerceptualHash(hashSize, phashInputSize ?? hashSize * 4);
+}
+
+function toPhotoHashes(entry: HashCacheEntry): PhotoHashes {
+  const hashes: HashSet = {};
+  const orientations: OrientationHashSet = {};
+  for (const [name, hex] of Object.entries(entry.hashes) as [HashAlgorithmName, string][]) {
+    const algorithm = getStoredAlgorithm(name, hex, entry.phashInputSize);
+    if (!algorithm) continue;
+
+    hashes[name] = formatHash(algorithm, hex);
+    const packed = entry.orientations?.[name];
+    if (packed) {
+      orientations[name] = unpackHashes(packed, hex.length).map(orientation => formatHash(algorithm, orientation));
+    }
+  }
+
+  const phash = getHashAlgorithm('phash');
+  return {
+    hashes,
+    orientations,
+    regions: entry.regions ? unpackHashes(entry.regions, phash.bits / 4).map(hex => formatHash(phash, hex)) : undefined,
+    digest: entry.digest,
+    quality: entry.quality,
+    location: entry.location,
+  };
+}
+
+/**
+ * Strip the format prefix from every hash and pack orientations and regions into
+ * one string each. Hashes not in the current format are left out, since the entry
+ * records only one version.
+ */
+function toStoredEntry(
+  photoHashes: PhotoHashes,
+  modificationTime: number,
+  size: number | undefined
+): HashCacheEntry {
+  const hashes: HashSet = {};
+  const orientations: HashSet = {};
+  let phashInputSize: number | undefined;
+  for (const [name, hash] of Object.entries(photoHashes.hashes) as [HashAlgorithmName, string][]) {
+    const stored = photoHashes.orientations[name];
+    if (!hasCurrentHashVersion(hash, name) || stored?.some(orientation => !hasCurrentHashVersion(orientation, name))) {
+      continue;
+    }
+
+    hashes[name] = getHashHex(hash);
+    if (stored) {
+      orientations[name] = stored.map(getHashHex).join('');
+    }
+    if (name === 'phash') {
+      const { width, bits } = parseHash(hash);
+      if (width !== Math.sqrt(bits) * 4) {
+        phashInputSize = width;
+      }
+    }
+  }
+
+  const phash = getHashAlgorithm('phash');
+  const regions = photoHashes.regions?.every(hash => isCurrentHashFormat(hash, phash))
+    ? photoHashes.regions.map(getHashHex).join('')
+    : undefined;
+
+  return {
+    version: HASH_FORMAT_VERSION,
+    hashes,
+    phashInputSize,
+    orientations: Object.keys(orientations).length > 0 ? orientations : undefined,
+    regions,
+    digest: photoHashes.digest,
+    quality: photoHashes.quality && roundQualityMetrics(photoHashes.quality),
+    location: photoHashes.location,
+    modificationTime,
+    size,
+  };
+}
+
+function getLegacyBucketKeys(): string[] {
+  return Array.from({ length: LEGACY_BUCKET_COUNT }, (_, i) => `${LEGACY_HASH_CACHE_PREFIX}${i}`);
+}
+
+/**
+ * Persistent pHash store keyed by MediaLibrary asset id.
+ * Entries are spread across a fixed number of AsyncStorage buckets so a
+ * single write never has to serialize the whole library.
+ */
+export class HashCache {
+  private static instance: HashCache;
+  private buckets: HashCacheBucket[] | null = null;
+  private dirtyBuckets = new Set<number>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private saveErrorListeners = new Set<SaveErrorListener>();
+
+  private constructor() {}
+
+  static getInstance(): HashCache {
+    if (!HashCache.instance) {
+      HashCache.instance = new HashCache();
+    }
+    return HashCache.instance;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.buckets) return;
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadBuckets();
+    }
+    await this.loadPromise;
+  }
+
+  /**
+   * Return the cached hashes if the asset has not changed since it was hashed
+   */
+  async get(photo: HashablePhoto): Promise<PhotoHashes> {
+    await this.initialize();
+
+    const entry = this.buckets![this.getBucketIndex(photo.id)][photo.id];
+    if (!entry || !entry.hashes || !this.isEntryFresh(entry, photo)) {
+      return { hashes: {}, orientations: {} };
+    }
+    return toPhotoHashes(entry);
+  }
+
+  /**
+   * Store hashes for a photo, merging with any fresh entry from other algorithms
+   */
+  async set(photo: HashablePhoto, update: Partial<PhotoHashes>): Promise<void> {
+    const existing = await this.get(photo);
+
+    // Orientations of a replaced hash were computed at its old size, so they go with it
+    const orientations = { ...existing.orientations, ...update.orientations };
+    for (const name of Object.keys(update.hashes ?? {}) as HashAlgorithmName[]) {
+      if (!update.orientations?.[name]) {
+        delete orientations[name];
+      }
+    }
+
+    const bucketIndex = this.getBucketIndex(photo.id);
+    this.buckets![bucketIndex][photo.id] = toStoredEntry(
+      {
+        hashes: { ...existing.hashes, ...update.hashes },
+        orientations,
+        regions: update.regions ?? existing.regions,
+        digest: update.digest ?? existing.digest,
+        quality: update.quality ?? existing.quality,
+        location: update.location !== undefined ? update.location : existing.location,
+      },
+      photo.modificationTime ?? 0,
+      photo.fileSize
+    );
+    this.markDirty(bucketIndex);
+  }
+
+  async remove(photoIds: string[]): Promise<void> {
+    await this.initialize();
+
+    for (const photoId of photoIds) {
+      const bucketIndex = this.getBucketIndex(photoId);
+      if (this.buckets![bucketIndex][photoId]) {
+        delete this.buckets![bucketIndex][photoId];
+        this.markDirty(bucketIndex);
+      }
+    }
+  }
+
+  /**
+   * Drop entries for assets that no longer exist in the library
+   */
+  async prune(existingPhotoIds: Set<string>): Promise<number> {
+    await this.initialize();
+
+    let removed = 0;
+    this.buckets!.forEach((bucket, bucketIndex) => {
+      for (const photoId of Object.keys(bucket)) {
+        if (!existingPhotoIds.has(photoId)) {
+          delete bucket[photoId];
+          removed++;
+          this.markDirty(bucketIndex);
+        }
+      }
+    });
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    this.buckets = Array.from({ length: BUCKET_COUNT }, () => ({}));
+    this.dirtyBuckets.clear();
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    try {
+      await AsyncStorage.multiRemove([...this.getBucketKeys(), ...getLegacyBucketKeys()]);
+    } catch (error) {
+      console.error('Error clearing hash cache:', error);
+    }
+  }
+
+  /**
+   * Be told when hashes cannot be written, e.g. because storage is full. They stay
+   * usable for this session but are calculated again after a restart.
+   */
+  subscribeToSaveErrors(listener: SaveErrorListener): () => void {
+    this.saveErrorListeners.add(listener);
+    return () => {
+      this.saveErrorListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Write all pending bucket changes to storage
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (!this.buckets || this.dirtyBuckets.size === 0) return;
+
+    const bucketIndexes = Array.from(this.dirtyBuckets);
+    this.dirtyBuckets.clear();
+
+    try {
+      await this.writeBuckets(bucketIndexes);
+    } catch (error) {
+      console.error('Error saving hash cache:', error);
+      const saveError = error instanceof Error ? error : new Error(String(error));
+      this.saveErrorListeners.forEach(listener => listener(saveError));
+    }
+  }
+
+  private async loadBuckets(): Promise<void> {
+    const buckets: HashCacheBucket[] = Array.from({ length: BUCKET_COUNT }, () => ({}));
+
+    const changedBuckets = new Set<number>();
+    const legacyKeys: string[] = [];
+    try {
+      const stored = await AsyncStorage.multiGet(this.getBucketKeys());
+      stored.forEach(([, value], bucketIndex) => {
+        if (value) {
+          buckets[bucketIndex] = JSON.parse(value);
+          if (this.migrateBucket(buckets[bucketIndex])) {
+            changedBuckets.add(bucketIndex);
+          }
+        }
+      });
+
+      for (const [key, value] of await AsyncStorage.multiGet(getLegacyBucketKeys())) {
+        if (!value) continue;
+        legacyKeys.push(key);
+
+        const legacyBucket: HashCacheBucket = JSON.parse(value);
+        this.migrateBucket(legacyBucket);
+        for (const [photoId, entry] of Object.entries(legacyBucket)) {
+          const bucketIndex = this.getBucketIndex(photoId);
+          buckets[bucketIndex][photoId] ??= entry;
+          changedBuckets.add(bucketIndex);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading hash cache:', error);
+    }
+
+    this.buckets = buckets;
+    if (legacyKeys.length > 0) {
+      // Drop the legacy buckets only once their entries are safely in the new ones
+      try {
+        await this.writeBuckets(Array.from(changedBuckets));
+        await AsyncStorage.multiRemove(legacyKeys);
+        changedBuckets.clear();
+      } catch (error) {
+        console.error('Error moving hash cache buckets:', error);
+      }
+    }
+    changedBuckets.forEach(bucketIndex => this.markDirty(bucketIndex));
+  }
+
+  private async writeBuckets(bucketIndexes: number[]): Promise<void> {
+    await AsyncStorage.multiSet(
+      bucketIndexes.map(bucketIndex => [
+        `${HASH_CACHE_PREFIX}${bucketIndex}`,
+        JSON.stringify(this.buckets![bucketIndex]),
+      ])
+    );
+  }
+
+  /**
+   * Bring entries to the current format. Entries from before the version moved
+   * out of the hashes keep the hashes that are still current; entries of another
+   * version lose their hashes so the next scan recomputes them. Digests, quality
+   * metrics and locations do not depend on the hash format and are kept.
+   * Returns whether anything changed.
+   */
+  private migrateBucket(bucket: HashCacheBucket): boolean {
+    let migrated = false;
+
+    for (const [photoId, entry] of Object.entries(bucket)) {
+      if (entry.version === HASH_FORMAT_VERSION) continue;
+
+      if (entry.version === undefined) {
+        const legacy = entry as LegacyHashCacheEntry;
+        bucket[photoId] = toStoredEntry(
+          {
+            hashes: legacy.hashes ?? {},
+            orientations: legacy.orientations ?? {},
+            regions: legacy.regions,
+            digest: legacy.digest,
+            quality: legacy.quality,
+          },
+          legacy.modificationTime,
+          legacy.size
+        );
+      } else {
+        bucket[photoId] = {
+          version: HASH_FORMAT_VERSION,
+          hashes: {},
+          digest: entry.digest,
+          quality: entry.quality,
+          location: entry.location,
+          modificationTime: entry.modificationTime,
+          size: entry.size,
+        };
+      }
+      migrated = true;
+    }
+
+    return migrated;
+  }
+
+  private isEntryFresh(entry: HashCacheEntry, photo: HashablePhoto): boolean {
+    if ((photo.modificationTime ?? 0) !== entry.modificationTime) return false;
+    if (photo.fileSize !== undefined && entry.size !== undefined && photo.fileSize !== entry.size) {
+      return false;
+    }
+    return true;
+  }
+
+  private markDirty(bucketIndex: number): void {
+    this.dirtyBuckets.add(bucketIndex);
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flush();
+      }, FLUSH_DELAY_MS);
+    }
+  }
+
+  private getBucketIndex(photoId: string): number {
+    let hash = 0;
+    for (let i = 0; i < photoId.length; i++) {
+      hash = (hash * 31 + photoId.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash) % BUCKET_COUNT;
+  }
+
+  private getBucketKeys(): string[] {
+    return Array.from({ length: BUCKET_COUNT }, (_, i) => `${HASH_CACHE_PREFIX}${i}`);
+  }
+}
+
+export const hashCache = HashCache.getInstance();
+
+/**
+ * Get hashes for a photo, calculating only the algorithms the cache has no fresh entry for.
+ * A cached hash of another size than options ask for counts as missing.
+ */
+export async function getOrCalculateHashes(
+  photo: HashablePhoto,
+  algorithms: HashAlgorithmName[],
+  options: PHashOptions = {}
+): Promise<PhotoHashes> {
+  const cached = await hashCache.get(photo);
+  const missing = algorithms.filter(name => {
+    const algorithm = resolveHashAlgorithm(name, options);
+    const hash = cached.hashes[name];
+    return (
+      !hash ||
+      !isCurrentHashFormat(hash, algorithm) ||
+      (options.includeOrientations && supportsOrientations(algorithm) && !cached.orientations[name]) ||
+      (options.includeRegions && name === 'phash' && !cached.regions)
+    );
+  });
+  if (missing.length === 0) return cached;
+
+  const hashes: HashSet = {};
+  const orientations: OrientationHashSet = {};
+  let regions: string[] | undefined;
+  for (const hash of await calculateImageHashes(photo.uri, missing, options)) {
+    hashes[hash.algorithm] = hash.value;
+    if (hash.orientations) {
+      orientations[hash.algorithm] = hash.orientations;
+    }
+    if (hash.regions) {
+      regions = hash.regions;
+    }
+  }
+  await hashCache.set(photo, { hashes, orientations, regions });
+  return {
+    ...cached,
+    hashes: { ...cached.hashes, ...hashes },
+    orientations: { ...cached.orientations, ...orientations },
+    regions: regions ?? cached.regions,
+  };
+}
+
+/**
+ * Get the pHash for a photo, hashing it only if the cache has no fresh entry
+ */
+export async function getOrCalculatePHash(photo: HashablePhoto, options?: PHashOptions): Promise<string> {
+  const { hashes } = await getOrCalculateHashes(photo, ['phash'], options);
+  return hashes.phash!;
+}
+
+/**
+ * Get the content digest for a photo, reading the file only if the cache has no fresh entry
+ */
+export async function getOrCalculateDigest(photo: HashablePhoto, options?: PHashOptions): Promise<string> {
+  const cached = await hashCache.get(photo);
+  if (cached.digest) return cached.digest;
+
+  const digest = await calculateContentDigest(photo.uri, options);
+  await hashCache.set(photo, { digest });
+  return digest;
+}
+
+/**
+ * Get the quality metrics for a photo, decoding it only if the cache has no fresh entry
+ */
+export async function getOrCalculateQualityMetrics(
+  photo: HashablePhoto,
+  options?: PHashOptions
+): Promise<ImageQualityMetrics> {
+  const cached = await hashCache.get(photo);
+  if (cached.quality) return cached.quality;
+
+  const quality = await calculateImageQualityMetrics(photo.uri, options);
+  await hashCache.set(photo, { quality });
+  return quality;
+}
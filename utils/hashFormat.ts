@@ -0,0 +1,99 @@
+import type { HashAlgorithm, HashAlgorithmName } from './hashAlgorithms';
+
+/**
+ * Current hash format. Versioned hashes are self-describing:
+ * `p1:phash:32x32:64:C3A1...` is version, algorithm, input size, bit count, then the bits as hex.
+ * Bump the version whenever the same image would hash differently.
+ */
+export const HASH_FORMAT_VERSION = 'p1';
+
+export interface ParsedHash {
+  // 'legacy' for bare hex hashes stored before hashes were versioned
+  version: string;
+  algorithm?: HashAlgorithmName;
+  width?: number;
+  height?: number;
+  bits: number;
+  hex: string;
+}
+
+export function formatHash(algorithm: HashAlgorithm, hex: string): string {
+  return `${getFormatPrefix(algorithm)}${hex}`;
+}
+
+export function parseHash(hash: string): ParsedHash {
+  const parts = hash.split(':');
+  if (parts.length === 1) {
+    return { version: 'legacy', bits: hash.length * 4, hex: hash };
+  }
+  if (parts.length !== 5) {
+    throw new Error(`Invalid hash: ${hash}`);
+  }
+
+  const [version, algorithm, size, bits, hex] = parts;
+  const [width, height] = size.split('x').map(Number);
+  return { version, algorithm: algorithm as HashAlgorithmName, width, height, bits: Number(bits), hex };
+}
+
+/**
+ * The hex bits of a hash, with any format prefix removed
+ */
+export function getHashHex(hash: string): string {
+  return hash.slice(hash.lastIndexOf(':') + 1);
+}
+
+/**
+ * Hashes can only be compared when they were produced the same way:
+ * same version, algorithm, input size and bit count
+ */
+export function areHashesCompatible(hash1: string, hash2: string): boolean {
+  const prefixLength = hash1.lastIndexOf(':') + 1;
+  return (
+    prefixLength === hash2.lastIndexOf(':') + 1 &&
+    hash1.length === hash2.length &&
+    hash1.slice(0, prefixLength) === hash2.slice(0, prefixLength)
+  );
+}
+
+/**
+ * Whether a stored hash was produced by the current version of an algorithm
+ */
+export function isCurrentHashFormat(hash: string, algorithm: HashAlgorithm): boolean {
+  return hash.startsWith(getFormatPrefix(algorithm)) && hash.length === getFormatPrefix(algorithm).length + algorithm.bits / 4;
+}
+
+/**
+ * Whether a stored hash was produced by the current version of the named algorithm,
+ * whatever its size. Sized algorithms such as the pHash can be configured per scan.
+ */
+export function hasCurrentHashVersion(hash: string, algorithmName: HashAlgorithmName): boolean {
+  const parsed = parseHashSafely(hash);
+  return (
+    parsed?.version === HASH_FORMAT_VERSION &&
+    parsed.algorithm === algorithmName &&
+    parsed.hex.length * 4 === parsed.bits
+  );
+}
+
+export function createIncompatibleHashError(hash1: string, hash2: string): Error {
+  const error = new Error(`Cannot compare hashes of different formats: ${describeFormat(hash1)} and ${describeFormat(hash2)}`);
+  error.name = 'IncompatibleHashError';
+  return error;
+}
+
+function parseHashSafely(hash: string): ParsedHash | null {
+  try {
+    return parseHash(hash);
+  } catch {
+    return null;
+  }
+}
+
+function getFormatPrefix(algorithm: HashAlgorithm): string {
+  return `${HASH_FORMAT_VERSION}:${algorithm.name}:${algorithm.inputWidth}x${algorithm.inputHeight}:${algorithm.bits}:`;
+}
+
+function describeFormat(hash: string): string {
+  const prefixLength = hash.lastIndexOf(':') + 1;
+  return prefixLength > 0 ? hash.slice(0, prefixLength - 1) : `legacy ${hash.length * 4}-bit`;
+}
@@ -0,0 +1,126 @@
+import {
+  computeImageHashes,
+  computeRegionalHashes,
+  getHashAlgorithm,
+  HashAlgorithmName,
+  ImageHash,
+  REGION_INPUT_SIZE,
+} from './hashAlgorithms';
+
+/**
+ * Decoded pixels, row-major: one luminance value per pixel (channels 1)
+ * or RGBA bytes (channels 4, alpha ignored)
+ */
+export interface RawImage {
+  width: number;
+  height: number;
+  channels: 1 | 4;
+  pixels: ArrayLike<number>;
+}
+
+export interface ReferenceHashOptions {
+  includeOrientations?: boolean;
+  includeRegions?: boolean;
+}
+
+/**
+ * Canonical resize used by every platform before hashing.
+ *
+ * 1. Luminance is 0.299 * R + 0.587 * G + 0.114 * B in double precision, per source pixel.
+ * 2. Each destination pixel is the area average of the source pixels it covers:
+ *    along each axis it spans [d * src / dst, (d + 1) * src / dst), and every source
+ *    pixel is weighted by the fraction of that span it overlaps.
+ * 3. Rows are resized first, then columns, summing weights in ascending source order.
+ *
+ * The Kotlin module (HashReference.resizeGrayscale) performs the same operations in
+ * the same order, so both produce bit-identical thumbnails. Platform scalers such
+ * as canvas drawImage or Bitmap.createScaledBitmap must not be used for hashing.
+ *
+ * Self-contained so the web decode worker can embed its source.
+ */
+export function resizeGrayscale(
+  pixels: ArrayLike<number>,
+  srcWidth: number,
+  srcHeight: number,
+  dstWidth: number,
+  dstHeight: number,
+  channels: number = 1
+): Float64Array {
+  function axisWeights(srcSize: number, dstSize: number): { starts: number[]; weights: number[][] } {
+    const starts: number[] = [];
+    const weights: number[][] = [];
+    for (let d = 0; d < dstSize; d++) {
+      const start = d * srcSize / dstSize;
+      const end = (d + 1) * srcSize / dstSize;
+      const first = Math.floor(start);
+      const row: number[] = [];
+      for (let i = first; i < end; i++) {
+        row.push((Math.min(i + 1, end) - Math.max(i, start)) / (end - start));
+      }
+      starts.push(first);
+      weights.push(row);
+    }
+    return { starts, weights };
+  }
+
+  const columns = axisWeights(srcWidth, dstWidth);
+  const rows = axisWeights(srcHeight, dstHeight);
+
+  // Row pass: srcHeight rows of dstWidth pixels
+  const intermediate = new Float64Array(dstWidth * srcHeight);
+  for (let y = 0; y < srcHeight; y++) {
+    for (let x = 0; x < dstWidth; x++) {
+      const start = columns.starts[x];
+      const weights = columns.weights[x];
+      let sum = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const index = (y * srcWidth + start + k) * channels;
+        const value = channels === 1
+          ? pixels[index]
+          : 0.299 * pixels[index] + 0.587 * pixels[index + 1] + 0.114 * pixels[index + 2];
+        sum += value * weights[k];
+      }
+      intermediate[y * dstWidth + x] = sum;
+    }
+  }
+
+  // Column pass over the row results
+  const resized = new Float64Array(dstWidth * dstHeight);
+  for (let y = 0; y < dstHeight; y++) {
+    const start = rows.starts[y];
+    const weights = rows.weights[y];
+    for (let x = 0; x < dstWidth; x++) {
+      let sum = 0;
+      for (let k = 0; k < weights.length; k++) {
+        sum += intermediate[(start + k) * dstWidth + x] * weights[k];
+      }
+      resized[y * dstWidth + x] = sum;
+    }
+  }
+
+  return resized;
+}
+
+/**
+ * Reference hashing pipeline on a decoded image: canonical resize to each
+ * algorithm's input size, then the shared algorithms from hashAlgorithms.ts.
+ * The native module and the web decoders must reproduce its output exactly.
+ */
+export function computeReferenceHashes(
+  image: RawImage,
+  algorithmNames: HashAlgorithmName[],
+  options: ReferenceHashOptions = {}
+): ImageHash[] {
+  const resize = (width: number, height: number) =>
+    resizeGrayscale(image.pixels, image.width, image.height, width, height, image.channels);
+
+  const algorithms = algorithmNames.map(getHashAlgorithm);
+  const buffers = algorithms.map(algorithm => resize(algorithm.inputWidth, algorithm.inputHeight));
+  const hashes = computeImageHashes(algorithms, buffers, options.includeOrientations);
+
+  const phash = hashes.find(hash => hash.algorithm === 'phash');
+  if (options.includeRegions && phash) {
+    phash.regions = computeRegionalHashes(resize(REGION_INPUT_SIZE, REGION_INPUT_SIZE));
+  }
+  return hashes;
+}
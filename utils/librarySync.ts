@@ -0,0 +1,358 @@
+import * as MediaLibrary from 'expo-media-library';
+import { pendingRemoval } from './pendingRemoval';
+
+const PAGE_SIZE = 1000;
+// Change events without details that arrive this close together are handled with one diff
+const CHANGE_DEBOUNCE_MS = 1000;
+
+export interface LibraryPhoto {
+  id: string;
+  uri: string;
+  filename: string;
+  creationTime: number;
+  width: number;
+  height: number;
+  modificationTime?: number;
+}
+
+export interface LibraryDelta {
+  inserted: LibraryPhoto[];
+  updated: LibraryPhoto[];
+  deleted: string[];
+}
+
+type DeltaListener = (delta: LibraryDelta) => void;
+
+interface LibraryListing {
+  photos: LibraryPhoto[];
+  totalCount: number;
+  // Highest asset id in the library, hidden photos included
+  lastAssetId: number;
+}
+
+/**
+ * Tracks the set of known library assets and turns MediaLibrary change
+ * notifications into inserted/updated/deleted deltas, so callers only
+ * rehash and rematch what actually changed.
+ */
+export class LibrarySync {
+  private static instance: LibrarySync;
+  private knownPhotos = new Map<string, LibraryPhoto>();
+  private listeners = new Set<DeltaListener>();
+  private subscription: { remove: () => void } | null = null;
+  private syncQueue: Promise<void> = Promise.resolve();
+  private changeTimer: ReturnType<typeof setTimeout> | null = null;
+  // Library size, newest modificationTime and highest asset id as of the last sync, for diffing only recent changes
+  private lastTotalCount = 0;
+  private lastModificationTime = 0;
+  private lastAssetId = 0;
+
+  private constructor() {}
+
+  static getInstance(): LibrarySync {
+    if (!LibrarySync.instance) {
+      LibrarySync.instance = new LibrarySync();
+    }
+    return LibrarySync.instance;
+  }
+
+  /**
+   * Page through the whole library and make it the known set
+   */
+  async loadAllPhotos(onProgress?: (loadedCount: number) => void): Promise<LibraryPhoto[]> {
+    const listing = await this.fetchAllPhotos(onProgress);
+    this.setKnownPhotos(listing);
+    return listing.photos;
+  }
+
+  /**
+   * Subscribe to library deltas. Returns an unsubscribe function.
+   */
+  subscribe(listener: DeltaListener): () => void {
+    this.listeners.add(listener);
+
+    if (!this.subscription) {
+      this.subscription = MediaLibrary.addListener((event) => {
+        if (event.hasIncrementalChanges && event.insertedAssets) {
+          this.enqueue(() => this.notifyListeners(this.diffIncrementalEvent(event)), 'Error syncing media library changes:');
+        } else {
+          this.scheduleRecentChangesDiff();
+        }
+      });
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.subscription) {
+        this.subscription.remove();
+        this.subscription = null;
+        if (this.changeTimer) {
+          clearTimeout(this.changeTimer);
+          this.changeTimer = null;
+        }
+      }
+    };
+  }
+
+  /**
+   * Compare against the library now, for changes that raise no change event of their
+   * own, such as photos restored from the "Pending removal" album
+   */
+  refresh(): Promise<void> {
+    return this.enqueue(async () => this.notifyListeners(await this.diffAgainstLibrary()), 'Error refreshing media library:');
+  }
+
+  /**
+   * Remove photos the app deleted itself, so the resulting change event is a no-op
+   */
+  forget(photoIds: string[]): void {
+    for (const photoId of photoIds) {
+      this.knownPhotos.delete(photoId);
+    }
+  }
+
+  getKnownPhotos(): LibraryPhoto[] {
+    return Array.from(this.knownPhotos.values());
+  }
+
+  /**
+   * Ids of the photos in an album, paged like the full library listing
+   */
+  async getAlbumPhotoIds(albumId: string): Promise<string[]> {
+    const photoIds: string[] = [];
+    let hasNextPage = true;
+    let endCursor: string | undefined;
+
+    while (hasNextPage) {
+      const result = await MediaLibrary.getAssetsAsync({
+        album: albumId,
+        mediaType: 'photo',
+        first: PAGE_SIZE,
+        after: endCursor,
+      });
+
+      photoIds.push(...result.assets.map(asset => asset.id));
+      hasNextPage = result.hasNextPage;
+      endCursor = result.endCursor;
+    }
+
+    return photoIds;
+  }
+
+  // Syncs run one at a time, in order
+  private enqueue(sync: () => void | Promise<void>, errorMessage: string): Promise<void> {
+    this.syncQueue = this.syncQueue
+      .then(sync)
+      .catch(error => console.error(errorMessage, error));
+    return this.syncQueue;
+  }
+
+  /**
+   * Android raises a burst of change events for a single edit, none of them
+   * saying what changed. Diff once the burst has settled.
+   */
+  private scheduleRecentChangesDiff(): void {
+    if (this.changeTimer) {
+      clearTimeout(this.changeTimer);
+    }
+    this.changeTimer = setTimeout(() => {
+      this.changeTimer = null;
+      this.enqueue(async () => this.notifyListeners(await this.diffRecentChanges()), 'Error syncing media library changes:');
+    }, CHANGE_DEBOUNCE_MS);
+  }
+
+  private notifyListeners(delta: LibraryDelta): void {
+    if (delta.inserted.length === 0 && delta.updated.length === 0 && delta.deleted.length === 0) {
+      return;
+    }
+
+    console.log(
+      `Library changed: +${delta.inserted.length} ~${delta.updated.length} -${delta.deleted.length}`
+    );
+    this.listeners.forEach(listener => listener(delta));
+  }
+
+  /**
+   * Build a delta from the asset lists iOS includes in the change event
+   */
+  private diffIncrementalEvent(event: MediaLibrary.MediaLibraryAssetsChangeEvent): LibraryDelta {
+    const delta: LibraryDelta = { inserted: [], updated: [], deleted: [] };
+
+    for (const asset of event.insertedAssets ?? []) {
+      if (asset.mediaType !== 'photo' || this.knownPhotos.has(asset.id) || pendingRemoval.isHidden(asset)) continue;
+      const photo = this.toLibraryPhoto(asset);
+      this.knownPhotos.set(photo.id, photo);
+      delta.inserted.push(photo);
+    }
+
+    for (const asset of event.updatedAssets ?? []) {
+      if (asset.mediaType !== 'photo' || pendingRemoval.isHidden(asset)) continue;
+      const photo = this.toLibraryPhoto(asset);
+      const known = this.knownPhotos.get(photo.id);
+      this.knownPhotos.set(photo.id, photo);
+      if (!known) {
+        delta.inserted.push(photo);
+      } else if (known.modificationTime !== photo.modificationTime) {
+        delta.updated.push(photo);
+      }
+    }
+
+    for (const asset of event.deletedAssets ?? []) {
+      if (this.knownPhotos.delete(asset.id)) {
+        delta.deleted.push(asset.id);
+      }
+    }
+
+    return delta;
+  }
+
+  /**
+   * List only what changed since the last sync. Edits move modificationTime forward,
+   * and Android gives every new asset a higher id than any before it, so both are
+   * listed newest first down to the last sync. Deletions show up in neither list:
+   * unless the library grew by exactly the new assets, fall back to a full diff.
+   */
+  private async diffRecentChanges(): Promise<LibraryDelta> {
+    const edited = await this.listNewestAssets('modificationTime', asset => asset.modificationTime >= this.lastModificationTime);
+    const added = await this.listNewestAssets('default', asset => Number(asset.id) > this.lastAssetId);
+    if (added.totalCount !== edited.totalCount || added.totalCount !== this.lastTotalCount + added.assets.length) {
+      return this.diffAgainstLibrary();
+    }
+
+    const recentAssets = new Map([...edited.assets, ...added.assets].map(asset => [asset.id, asset]));
+    const delta: LibraryDelta = { inserted: [], updated: [], deleted: [] };
+    for (const asset of recentAssets.values()) {
+      if (pendingRemoval.isHidden(asset)) {
+        if (this.knownPhotos.delete(asset.id)) {
+          delta.deleted.push(asset.id);
+        }
+        continue;
+      }
+
+      const photo = this.toLibraryPhoto(asset);
+      const known = this.knownPhotos.get(photo.id);
+      this.knownPhotos.set(photo.id, photo);
+      if (!known) {
+        delta.inserted.push(photo);
+      } else if (known.modificationTime !== photo.modificationTime) {
+        delta.updated.push(photo);
+      }
+    }
+
+    this.lastTotalCount = added.totalCount;
+    this.lastModificationTime = edited.assets.reduce(
+      (latest, asset) => Math.max(latest, asset.modificationTime),
+      this.lastModificationTime
+    );
+    this.lastAssetId = added.assets.reduce((latest, asset) => Math.max(latest, Number(asset.id)), this.lastAssetId);
+    return delta;
+  }
+
+  /**
+   * Page through the library newest first by sortKey, while the assets are recent
+   */
+  private async listNewestAssets(
+    sortKey: 'modificationTime' | 'default',
+    isRecent: (asset: MediaLibrary.Asset) => boolean
+  ): Promise<{ assets: MediaLibrary.Asset[]; totalCount: number }> {
+    const assets: MediaLibrary.Asset[] = [];
+    let totalCount = this.lastTotalCount;
+    let hasNextPage = true;
+    let endCursor: string | undefined;
+
+    while (hasNextPage) {
+      const result = await MediaLibrary.getAssetsAsync({
+        mediaType: 'photo',
+        first: PAGE_SIZE,
+        sortBy: [[sortKey, false]],
+        after: endCursor,
+      });
+      totalCount = result.totalCount;
+
+      const recent = result.assets.filter(isRecent);
+      assets.push(...recent);
+      hasNextPage = result.hasNextPage && recent.length === result.assets.length;
+      endCursor = result.endCursor;
+    }
+
+    return { assets, totalCount };
+  }
+
+  /**
+   * Compare a fresh metadata listing of the whole library against the known set.
+   * No images are decoded.
+   */
+  private async diffAgainstLibrary(): Promise<LibraryDelta> {
+    const listing = await this.fetchAllPhotos();
+    const delta: LibraryDelta = { inserted: [], updated: [], deleted: [] };
+    const currentIds = new Set<string>();
+
+    for (const photo of listing.photos) {
+      currentIds.add(photo.id);
+      const known = this.knownPhotos.get(photo.id);
+      if (!known) {
+        delta.inserted.push(photo);
+      } else if (known.modificationTime !== photo.modificationTime) {
+        delta.updated.push(photo);
+      }
+    }
+
+    for (const photoId of this.knownPhotos.keys()) {
+      if (!currentIds.has(photoId)) {
+        delta.deleted.push(photoId);
+      }
+    }
+
+    this.setKnownPhotos(listing);
+    return delta;
+  }
+
+  private setKnownPhotos({ photos, totalCount, lastAssetId }: LibraryListing): void {
+    this.knownPhotos = new Map(photos.map(photo => [photo.id, photo]));
+    this.lastTotalCount = totalCount;
+    this.lastModificationTime = photos.reduce((latest, photo) => Math.max(latest, photo.modificationTime ?? 0), 0);
+    this.lastAssetId = lastAssetId;
+  }
+
+  private async fetchAllPhotos(onProgress?: (loadedCount: number) => void): Promise<LibraryListing> {
+    const photos: LibraryPhoto[] = [];
+    let totalCount = 0;
+    let lastAssetId = 0;
+    let hasNextPage = true;
+    let endCursor: string | undefined;
+
+    while (hasNextPage) {
+      const result = await MediaLibrary.getAssetsAsync({
+        mediaType: 'photo',
+        first: PAGE_SIZE,
+        sortBy: 'creationTime',
+        after: endCursor,
+      });
+
+      // Photos waiting in the "Pending removal" album are not part of the library any more
+      photos.push(...result.assets.filter(asset => !pendingRemoval.isHidden(asset)).map(asset => this.toLibraryPhoto(asset)));
+      onProgress?.(photos.length);
+
+      lastAssetId = result.assets.reduce((latest, asset) => Math.max(latest, Number(asset.id)), lastAssetId);
+      totalCount = result.totalCount;
+      hasNextPage = result.hasNextPage;
+      endCursor = result.endCursor;
+    }
+
+    return { photos, totalCount, lastAssetId };
+  }
+
+  private toLibraryPhoto(asset: MediaLibrary.Asset): LibraryPhoto {
+    return {
+      id: asset.id,
+      uri: asset.uri,
+      filename: asset.filename,
+      creationTime: asset.creationTime,
+      width: asset.width,
+      height: asset.height,
+      modificationTime: asset.modificationTime,
+    };
+  }
+}
+
+export const librarySync = LibrarySync.getInstance();
@@ -0,0 +1,198 @@
+export type ClusterLinkage = 'single' | 'complete';
+
+export interface ClusteringOptions {
+  // 'single' joins any chain of edges; 'complete' only merges two clusters
+  // when every photo of one has an edge to every photo of the other
+  linkage?: ClusterLinkage;
+  // Largest distance allowed between any two photos of a cluster
+  maxDiameter?: number;
+  // Distance for pairs without an edge, used by the diameter check
+  getDistance?: (photoIdA: string, photoIdB: string) => number;
+  // Pairs that must never share a cluster, even through other photos
+  canLink?: (photoIdA: string, photoIdB: string) => boolean;
+}
+
+export interface PhotoCluster {
+  // Smallest photo id in the cluster, stable while its membership is
+  id: string;
+  photoIds: string[];
+  // Mean distance over the edges inside the cluster
+  averageDistance: number;
+  // Largest known distance between two photos of the cluster
+  diameter: number;
+}
+
+/**
+ * Disjoint-set forest with path compression and union by size
+ */
+export class UnionFind {
+  private parent = new Map<string, string>();
+  private size = new Map<string, number>();
+
+  find(id: string): string {
+    if (!this.parent.has(id)) {
+      this.parent.set(id, id);
+      this.size.set(id, 1);
+      return id;
+    }
+
+    let root = id;
+    while (this.parent.get(root) !== root) {
+      root = this.parent.get(root)!;
+    }
+    // Path compression
+    let node = id;
+    while (node !== root) {
+      const next = this.parent.get(node)!;
+      this.parent.set(node, root);
+      node = next;
+    }
+    return root;
+  }
+
+  union(a: string, b: string): string {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA === rootB) return rootA;
+
+    const [large, small] = this.size.get(rootA)! >= this.size.get(rootB)! ? [rootA, rootB] : [rootB, rootA];
+    this.parent.set(small, large);
+    this.size.set(large, this.size.get(large)! + this.size.get(small)!);
+    return large;
+  }
+}
+
+function edgeKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Undirected graph of photo pairs under the match threshold, clustered into
+ * deterministic, non-overlapping groups. Edges can be added and photos removed
+ * incrementally; clusters are recomputed on demand.
+ */
+export class MatchGraph {
+  private edges = new Map<string, { a: string; b: string; distance: number }>();
+  private neighbors = new Map<string, Set<string>>();
+
+  get edgeCount(): number {
+    return this.edges.size;
+  }
+
+  addEdge(photoIdA: string, photoIdB: string, distance: number): void {
+    if (photoIdA === photoIdB) return;
+
+    const key = edgeKey(photoIdA, photoIdB);
+    const existing = this.edges.get(key);
+    if (existing && existing.distance <= distance) return;
+
+    const [a, b] = photoIdA < photoIdB ? [photoIdA, photoIdB] : [photoIdB, photoIdA];
+    this.edges.set(key, { a, b, distance });
+    this.addNeighbor(a, b);
+    this.addNeighbor(b, a);
+  }
+
+  getDistance(photoIdA: string, photoIdB: string): number | undefined {
+    return this.edges.get(edgeKey(photoIdA, photoIdB))?.distance;
+  }
+
+  removePhotos(photoIds: Iterable<string>): void {
+    for (const photoId of photoIds) {
+      const neighbors = this.neighbors.get(photoId);
+      if (!neighbors) continue;
+
+      neighbors.forEach(neighbor => {
+        this.edges.delete(edgeKey(photoId, neighbor));
+        this.neighbors.get(neighbor)?.delete(photoId);
+      });
+      this.neighbors.delete(photoId);
+    }
+  }
+
+  clear(): void {
+    this.edges.clear();
+    this.neighbors.clear();
+  }
+
+  /**
+   * Kruskal-style clustering: edges are merged shortest first (ties broken by
+   * photo id), so the result does not depend on the order edges were added
+   */
+  getClusters(options: ClusteringOptions = {}): PhotoCluster[] {
+    const { linkage = 'single', maxDiameter = Infinity, getDistance, canLink } = options;
+    const sortedEdges = Array.from(this.edges.values()).sort((x, y) =>
+      x.distance - y.distance || x.a.localeCompare(y.a) || x.b.localeCompare(y.b)
+    );
+
+    const unionFind = new UnionFind();
+    const members = new Map<string, string[]>();
+    const membersOf = (root: string) => members.get(root) ?? [root];
+
+    const pairDistance = (a: string, b: string): number =>
+      this.getDistance(a, b) ?? getDistance?.(a, b) ?? Infinity;
+
+    const canMerge = (groupA: string[], groupB: string[]): boolean => {
+      if (linkage === 'single' && maxDiameter === Infinity && !canLink) return true;
+
+      for (const a of groupA) {
+        for (const b of groupB) {
+          if (canLink && !canLink(a, b)) return false;
+          if (linkage === 'complete' && this.getDistance(a, b) === undefined) return false;
+          if (maxDiameter !== Infinity && pairDistance(a, b) > maxDiameter) return false;
+        }
+      }
+      return true;
+    };
+
+    for (const { a, b } of sortedEdges) {
+      const rootA = unionFind.find(a);
+      const rootB = unionFind.find(b);
+      if (rootA === rootB) continue;
+
+      const groupA = membersOf(rootA);
+      const groupB = membersOf(rootB);
+      if (!canMerge(groupA, groupB)) continue;
+
+      const root = unionFind.union(rootA, rootB);
+      members.delete(rootA);
+      members.delete(rootB);
+      members.set(root, [...groupA, ...groupB]);
+    }
+
+    const clusters: PhotoCluster[] = [];
+    members.forEach(photoIds => {
+      const sortedIds = [...photoIds].sort();
+      let totalDistance = 0;
+      let edgeCount = 0;
+      let diameter = 0;
+
+      for (let i = 0; i < sortedIds.length; i++) {
+        for (let j = i + 1; j < sortedIds.length; j++) {
+          const distance = this.getDistance(sortedIds[i], sortedIds[j]);
+          if (distance === undefined) continue;
+          totalDistance += distance;
+          edgeCount++;
+          diameter = Math.max(diameter, distance);
+        }
+      }
+
+      clusters.push({
+        id: sortedIds[0],
+        photoIds: sortedIds,
+        averageDistance: edgeCount > 0 ? totalDistance / edgeCount : 0,
+        diameter,
+      });
+    });
+
+    return clusters.sort((x, y) => x.id.localeCompare(y.id));
+  }
+
+  private addNeighbor(photoId: string, neighbor: string): void {
+    let neighbors = this.neighbors.get(photoId);
+    if (!neighbors) {
+      neighbors = new Set();
+      this.neighbors.set(photoId, neighbors);
+    }
+    neighbors.add(neighbor);
+  }
+}
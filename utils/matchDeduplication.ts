@@ -1,3 +1,10 @@
+import { UnionFind } from './matchClustering';
+import { computeMatchMetrics, MatchMetrics } from './matchMetrics';
+import { hammingDistance } from './pHash';
+import { areHashesCompatible } from './hashFormat';
+import { getDuplicateProbability, getSimilarityScore, MIN_GROUP_PROBABILITY, MIN_PAIR_PROBABILITY } from './similarityModel';
+import type { MatchExclusions } from './exclusionRules';
+
 interface PhotoWithHash {
   id: string;
   uri: string;
@@ -18,8 +25,15 @@ interface MatchResult {
   };
   status: 'pending' | 'approved' | 'rejected';
   hammingDistance: number;
+  // Pairwise distances and medoid of the group
+  metrics?: MatchMetrics;
+  matchType?: 'similar' | 'cropped' | 'exact';
+  // Shooting session the match was found in (session time-window strategy)
+  sessionId?: string;
 }
 
+const DEFAULT_MAX_TIME_SPAN = 24 * 60 * 60 * 1000;
+
 /**
  * Enhanced match deduplication utility that removes:
  * 1. Subset matches (where one group is contained within another)
@@ -33,8 +47,9 @@ export class MatchDeduplicator {
   static deduplicateMatches(matches: MatchResult[]): MatchResult[] {
     if (matches.length <= 1) return matches;
 
-    // Sort matches by confidence (highest first) to prioritize better matches
-    const sortedMatches = [...matches].sort((a, b) => b.confidence - a.confidence);
+    // Sort matches by confidence (highest first) to prioritize better matches,
+    // breaking ties by id so the result does not depend on input order
+    const sortedMatches = [...matches].sort((a, b) => b.confidence - a.confidence || a.id.localeCompare(b.id));
     
     // Step 1: Remove subset matches
     const withoutSubsets = this.removeSubsetMatches(sortedMatches);
@@ -145,6 +160,8 @@ export class MatchDeduplicator {
       let hasSignificantOverlap = false;
       
       for (const existingMatch of filteredMatches) {
+        if (!this.isSameMatchType(currentMatch, existingMatch)) continue;
+
         const overlap = this.calculatePhotoOverlap(currentMatch, existingMatch);
         const timeOverlap = this.calculateTimeOverlap(currentMatch, existingMatch);
         
@@ -176,10 +193,22 @@ export class MatchDeduplicator {
     return intersection.size / union.size;
   }
 
+  /**
+   * Exact and cropped copies are reported separately, so they never absorb or replace similar-photo matches
+   */
+  private static isSameMatchType(matchA: MatchResult, matchB: MatchResult): boolean {
+    return (matchA.matchType ?? 'similar') === (matchB.matchType ?? 'similar');
+  }
+
   /**
    * Calculate time window overlap between two matches
+   * Matches found inside sessions overlap exactly when they share a session
    */
   private static calculateTimeOverlap(matchA: MatchResult, matchB: MatchResult): number {
+    if (matchA.sessionId && matchB.sessionId) {
+      return matchA.sessionId === matchB.sessionId ? 1 : 0;
+    }
+
     const startA = matchA.timeWindow.start;
     const endA = matchA.timeWindow.end;
     const startB = matchB.timeWindow.start;
@@ -197,82 +226,188 @@ export class MatchDeduplicator {
   }
 
   /**
-   * Advanced deduplication with clustering analysis
+   * Advanced deduplication with clustering analysis: matches of the same type
+   * that share a photo, directly or through other matches, are merged into one
    */
   static advancedDeduplication(matches: MatchResult[]): MatchResult[] {
     if (matches.length <= 1) return matches;
 
-    // Group matches by photo clusters
-    const clusters = this.identifyPhotoClusters(matches);
-    
-    // Select best representative match from each cluster
-    const representativeMatches: MatchResult[] = [];
-    
-    for (const cluster of clusters) {
-      if (cluster.length === 1) {
-        representativeMatches.push(cluster[0]);
-      } else {
-        // Select the match with highest confidence and most photos
-        const bestMatch = cluster.reduce((best, current) => {
-          const bestScore = best.confidence * best.photos.length;
-          const currentScore = current.confidence * current.photos.length;
-          return currentScore > bestScore ? current : best;
-        });
-        representativeMatches.push(bestMatch);
-      }
-    }
+    const mergedMatches = this.identifyPhotoClusters(matches).map(cluster => this.mergeCluster(cluster));
     
-    return representativeMatches.sort((a, b) => b.confidence - a.confidence);
+    return mergedMatches.sort((a, b) => b.confidence - a.confidence || a.id.localeCompare(b.id));
   }
 
   /**
-   * Identify clusters of related matches
+   * Identify clusters of related matches as connected components over shared
+   * photos, so the grouping is the same whatever order the matches arrive in
    */
   private static identifyPhotoClusters(matches: MatchResult[]): MatchResult[][] {
-    const clusters: MatchResult[][] = [];
-    const processed = new Set<string>();
-    
+    const unionFind = new UnionFind();
+    const photoKey = (match: MatchResult, photoId: string) => `${match.matchType ?? 'similar'}:${photoId}`;
+
     for (const match of matches) {
-      if (processed.has(match.id)) continue;
-      
-      const cluster = [match];
-      processed.add(match.id);
-      
-      // Find all matches that share photos with this match
-      for (const otherMatch of matches) {
-        if (processed.has(otherMatch.id)) continue;
-        
-        const overlap = this.calculatePhotoOverlap(match, otherMatch);
-        if (overlap > 0.3) { // 30% overlap threshold
-          cluster.push(otherMatch);
-          processed.add(otherMatch.id);
-        }
+      const [first, ...rest] = match.photos;
+      if (!first) continue;
+      for (const photo of rest) {
+        unionFind.union(photoKey(match, first.id), photoKey(match, photo.id));
       }
-      
-      clusters.push(cluster);
     }
-    
-    return clusters;
+
+    const clusters = new Map<string, MatchResult[]>();
+    for (const match of matches) {
+      // Matches without photos have nothing to merge with
+      const root = match.photos.length > 0 ? unionFind.find(photoKey(match, match.photos[0].id)) : `empty:${match.id}`;
+      const cluster = clusters.get(root) ?? [];
+      cluster.push(match);
+      clusters.set(root, cluster);
+    }
+
+    return Array.from(clusters.values());
+  }
+
+  /**
+   * Combine a cluster into a single match over the union of its photos.
+   * Confidence and distance are averaged over the members, weighted by the
+   * number of comparisons each one stands for.
+   */
+  private static mergeCluster(cluster: MatchResult[]): MatchResult {
+    if (cluster.length === 1) return cluster[0];
+
+    const members = [...cluster].sort((a, b) => a.id.localeCompare(b.id));
+    const photosById = new Map<string, PhotoWithHash>();
+    let totalWeight = 0;
+    let weightedConfidence = 0;
+    let weightedDistance = 0;
+
+    for (const match of members) {
+      match.photos.forEach(photo => {
+        if (!photosById.has(photo.id)) photosById.set(photo.id, photo);
+      });
+
+      const weight = Math.max(1, match.photos.length - 1);
+      totalWeight += weight;
+      weightedConfidence += match.confidence * weight;
+      weightedDistance += match.hammingDistance * weight;
+    }
+
+    const photos = Array.from(photosById.values()).sort(
+      (a, b) => a.creationTime - b.creationTime || a.id.localeCompare(b.id)
+    );
+    const [first] = members;
+    const sharedStatus = members.every(match => match.status === first.status) ? first.status : 'pending';
+    const sharedSessionId = members.every(match => match.sessionId === first.sessionId) ? first.sessionId : undefined;
+
+    return {
+      id: first.id,
+      photos,
+      confidence: weightedConfidence / totalWeight,
+      timeWindow: {
+        start: Math.min(...members.map(match => match.timeWindow.start)),
+        end: Math.max(...members.map(match => match.timeWindow.end)),
+      },
+      status: sharedStatus,
+      hammingDistance: weightedDistance / totalWeight,
+      metrics: MatchDeduplicator.mergeMetrics(members, photos),
+      matchType: first.matchType,
+      sessionId: sharedSessionId,
+    };
+  }
+
+  /**
+   * Metrics over the merged photos. Pairs that shared a member match keep that
+   * match's distance; the others are measured from their pHashes. Left out when
+   * a member has no metrics or a pair cannot be measured.
+   */
+  private static mergeMetrics(members: MatchResult[], photos: PhotoWithHash[]): MatchMetrics | undefined {
+    if (!members.every(match => match.metrics)) return undefined;
+
+    const known = new Map<string, number>();
+    for (const match of members) {
+      match.photos.forEach((photoA, i) => {
+        match.photos.forEach((photoB, j) => {
+          if (i < j) known.set(`${photoA.id}|${photoB.id}`, match.metrics!.distances[i][j]);
+        });
+      });
+    }
+
+    const distances: number[][] = photos.map(() => []);
+    for (let i = 0; i < photos.length; i++) {
+      for (let j = i + 1; j < photos.length; j++) {
+        const [a, b] = [photos[i], photos[j]];
+        const distance = known.get(`${a.id}|${b.id}`) ?? known.get(`${b.id}|${a.id}`) ??
+          (a.pHash && b.pHash && areHashesCompatible(a.pHash, b.pHash) ? hammingDistance(a.pHash, b.pHash) : undefined);
+        if (distance === undefined) return undefined;
+        distances[i][j] = distance;
+      }
+    }
+
+    return computeMatchMetrics(photos.map(photo => photo.id), (i, j) => distances[i][j], members[0].metrics!.bits);
+  }
+
+  /**
+   * Remove excluded photos from matches and break up pairs that must never match.
+   * Photos are kept in order, each only if it may match every photo kept before it;
+   * matches left with fewer than two photos are dropped.
+   */
+  static applyExclusions(matches: MatchResult[], exclusions: MatchExclusions): MatchResult[] {
+    return matches.flatMap(match => {
+      const keptIndices: number[] = [];
+      match.photos.forEach((photo, i) => {
+        if (exclusions.isExcluded(photo.id)) return;
+        if (keptIndices.every(k => exclusions.canMatch(match.photos[k].id, photo.id))) {
+          keptIndices.push(i);
+        }
+      });
+
+      if (keptIndices.length === match.photos.length) return [match];
+      if (keptIndices.length < 2) return [];
+
+      const photos = keptIndices.map(i => match.photos[i]);
+      if (!match.metrics) return [{ ...match, photos }];
+
+      const { distances, bits } = match.metrics;
+      const metrics = computeMatchMetrics(
+        photos.map(photo => photo.id),
+        (i, j) => distances[keptIndices[i]][keptIndices[j]],
+        bits
+      );
+      return [{
+        ...match,
+        photos,
+        confidence: match.matchType === 'exact' ? match.confidence : getSimilarityScore(metrics.meanDistance, bits),
+        hammingDistance: metrics.meanDistance,
+        metrics,
+      }];
+    });
   }
 
   /**
    * Validate match quality and remove low-quality duplicates
+   * maxTimeSpan comes from the matching time-window strategy (Infinity disables the check)
    */
-  static validateAndCleanMatches(matches: MatchResult[]): MatchResult[] {
+  static validateAndCleanMatches(matches: MatchResult[], maxTimeSpan: number = DEFAULT_MAX_TIME_SPAN): MatchResult[] {
     return matches.filter(match => {
-      // Remove matches with only 2 photos and low confidence
-      if (match.photos.length === 2 && match.confidence < 70) {
+      // Byte-identical copies are certain matches, whenever they were taken
+      if (match.matchType === 'exact') {
+        return true;
+      }
+
+      // Judge every match on the calibrated model, at the hash size it was measured with
+      const probability = getDuplicateProbability(match.hammingDistance, match.metrics?.bits);
+
+      // Remove pairs that are not more likely duplicates than not
+      if (match.photos.length === 2 && probability < MIN_PAIR_PROBABILITY) {
         return false;
       }
       
-      // Remove matches with very high hamming distance (likely false positives)
-      if (match.hammingDistance > 25) {
+      // Remove groups that are very unlikely duplicates (likely false positives)
+      if (probability < MIN_GROUP_PROBABILITY) {
         return false;
       }
       
-      // Ensure minimum time window makes sense
+      // Ensure the time window makes sense for the matching strategy
       const timeSpan = match.timeWindow.end - match.timeWindow.start;
-      if (timeSpan > 24 * 60 * 60 * 1000) { // More than 24 hours
+      if (timeSpan > maxTimeSpan) {
         return false;
       }
       
@@ -281,18 +416,36 @@ export class MatchDeduplicator {
   }
 }
 
+export interface DeduplicationOptions {
+  // Longest time span a match may cover; defaults to 24 hours
+  maxTimeSpan?: number;
+  // User rules for photos and pairs that must never be matched
+  exclusions?: MatchExclusions;
+}
+
 /**
- * Main function to process matches with comprehensive deduplication
+ * Main function to process matches with comprehensive deduplication.
+ * The scan groups photos with MatchGraph instead; this stays as the library API
+ * for callers that start from a list of pairwise matches.
  */
-export function processMatchesWithDeduplication(rawMatches: MatchResult[]): MatchResult[] {
-  // Step 1: Basic validation and cleaning
-  const validMatches = MatchDeduplicator.validateAndCleanMatches(rawMatches);
+export function processMatchesWithDeduplication(
+  rawMatches: MatchResult[],
+  options: DeduplicationOptions = {}
+): MatchResult[] {
+  const { exclusions } = options;
+
+  // Step 1: Honor the user's exclusion rules
+  const allowedMatches = exclusions ? MatchDeduplicator.applyExclusions(rawMatches, exclusions) : rawMatches;
+
+  // Step 2: Basic validation and cleaning
+  const validMatches = MatchDeduplicator.validateAndCleanMatches(allowedMatches, options.maxTimeSpan);
   
-  // Step 2: Remove subsets and reciprocals
+  // Step 3: Remove subsets and reciprocals
   const deduplicatedMatches = MatchDeduplicator.deduplicateMatches(validMatches);
   
-  // Step 3: Advanced clustering-based deduplication
+  // Step 4: Advanced clustering-based deduplication
   const finalMatches = MatchDeduplicator.advancedDeduplication(deduplicatedMatches);
   
-  return finalMatches;
+  // Merging can bring a never-match pair back together
+  return exclusions ? MatchDeduplicator.applyExclusions(finalMatches, exclusions) : finalMatches;
 }
\ No newline at end of file
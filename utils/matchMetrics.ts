@@ -0,0 +1,91 @@
+import { REFERENCE_HASH_BITS } from './pHash';
+import { getSimilarityScore } from './similarityModel';
+
+/**
+ * Pairwise view of one match group, so outliers can be told apart from the
+ * photos the group is built around
+ */
+export interface MatchMetrics {
+  // Hamming distances between every pair, indexed like the match's photos
+  distances: number[][];
+  // Largest distance between two photos of the group
+  diameter: number;
+  // Mean distance over all pairs
+  meanDistance: number;
+  // Photo with the smallest total distance to the others (ties go to the smallest id)
+  medoidId: string;
+  // Similarity score (0-100, see similarityModel.ts) of each photo to the medoid, keyed by photo id
+  similarityToMedoid: Record<string, number>;
+  // Hash size the distances were measured at
+  bits: number;
+}
+
+/**
+ * Fill the full distance matrix of a group and derive its metrics.
+ * getDistance is called once per unordered pair, with i < j.
+ */
+export function computeMatchMetrics(
+  photoIds: string[],
+  getDistance: (i: number, j: number) => number,
+  bits: number = REFERENCE_HASH_BITS
+): MatchMetrics {
+  const count = photoIds.length;
+  const distances = photoIds.map(() => new Array<number>(count).fill(0));
+  let diameter = 0;
+  let totalDistance = 0;
+
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      const distance = getDistance(i, j);
+      distances[i][j] = distance;
+      distances[j][i] = distance;
+      diameter = Math.max(diameter, distance);
+      totalDistance += distance;
+    }
+  }
+
+  let medoidIndex = 0;
+  let medoidTotal = Infinity;
+  distances.forEach((row, i) => {
+    const total = row.reduce((sum, distance) => sum + distance, 0);
+    if (total < medoidTotal || (total === medoidTotal && photoIds[i] < photoIds[medoidIndex])) {
+      medoidIndex = i;
+      medoidTotal = total;
+    }
+  });
+
+  const similarityToMedoid: Record<string, number> = {};
+  photoIds.forEach((photoId, i) => {
+    similarityToMedoid[photoId] = getSimilarityScore(distances[medoidIndex][i], bits);
+  });
+
+  const pairCount = (count * (count - 1)) / 2;
+  return {
+    distances,
+    diameter,
+    meanDistance: pairCount > 0 ? totalDistance / pairCount : 0,
+    medoidId: photoIds[medoidIndex],
+    similarityToMedoid,
+    bits,
+  };
+}
+
+/**
+ * Photo least similar to the medoid, or null when every photo is equally close
+ */
+export function findOutlier(metrics: MatchMetrics): string | null {
+  let outlierId: string | null = null;
+  let lowest = Infinity;
+  let highest = -Infinity;
+
+  for (const [photoId, similarity] of Object.entries(metrics.similarityToMedoid)) {
+    if (photoId === metrics.medoidId) continue;
+    highest = Math.max(highest, similarity);
+    if (similarity < lowest || (similarity === lowest && outlierId !== null && photoId < outlierId)) {
+      lowest = similarity;
+      outlierId = photoId;
+    }
+  }
+
+  return lowest < highest ? outlierId : null;
+}
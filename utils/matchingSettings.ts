@@ -0,0 +1,64 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_TIME_WINDOW_STRATEGY, TimeWindowStrategy } from './timeWindow';
+
+const MATCHING_SETTINGS_KEY = '@matching_settings';
+
+export interface MatchingSettings {
+  timeWindowStrategy: TimeWindowStrategy;
+}
+
+const DEFAULT_SETTINGS: MatchingSettings = {
+  timeWindowStrategy: DEFAULT_TIME_WINDOW_STRATEGY,
+};
+
+export class MatchingSettingsManager {
+  private static instance: MatchingSettingsManager;
+  private settings: MatchingSettings | null = null;
+
+  private constructor() {}
+
+  static getInstance(): MatchingSettingsManager {
+    if (!MatchingSettingsManager.instance) {
+      MatchingSettingsManager.instance = new MatchingSettingsManager();
+    }
+    return MatchingSettingsManager.instance;
+  }
+
+  async initialize(): Promise<MatchingSettings> {
+    try {
+      const stored = await AsyncStorage.getItem(MATCHING_SETTINGS_KEY);
+      // Merge over the defaults so settings added later get a value
+      this.settings = stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : { ...DEFAULT_SETTINGS };
+    } catch (error) {
+      console.error('Error initializing matching settings:', error);
+      this.settings = { ...DEFAULT_SETTINGS };
+    }
+    return this.settings!;
+  }
+
+  async getCurrentSettings(): Promise<MatchingSettings> {
+    if (!this.settings) {
+      await this.initialize();
+    }
+    return this.settings!;
+  }
+
+  async setTimeWindowStrategy(strategy: TimeWindowStrategy): Promise<MatchingSettings> {
+    const settings = await this.getCurrentSettings();
+    this.settings = { ...settings, timeWindowStrategy: strategy };
+    await this.saveSettings();
+    return this.settings;
+  }
+
+  private async saveSettings(): Promise<void> {
+    try {
+      if (this.settings) {
+        await AsyncStorage.setItem(MATCHING_SETTINGS_KEY, JSON.stringify(this.settings));
+      }
+    } catch (error) {
+      console.error('Error saving matching settings:', error);
+    }
+  }
+}
+
+export const matchingSettings = MatchingSettingsManager.getInstance();
@@ -1,4 +1,19 @@
 import { Platform } from 'react-native';
+import { PHashWorkerPool, pHashWorkerPool } from './pHashWorkerPool';
+import {
+  computeImageHashes,
+  computeRegionalHashes,
+  createPerceptualHash,
+  getHashAlgorithm,
+  HashAlgorithm,
+  HashAlgorithmName,
+  ImageHash,
+  PHashSize,
+  REGION_INPUT_SIZE,
+} from './hashAlgorithms';
+import { resizeGrayscale } from './hashReference';
+import { areHashesCompatible, createIncompatibleHashError, formatHash, getHashHex, parseHash } from './hashFormat';
+import { computeImageQualityMetrics, ImageQualityMetrics, QUALITY_INPUT_SIZE } from './photoQuality';
 
 // Import the native module only for mobile platforms
 let PHashModule: any = null;
@@ -11,15 +26,69 @@ if (Platform.OS === 'android' || Platform.OS === 'ios') {
   }
 }
 
+export interface PHashOptions {
+  signal?: AbortSignal;
+  // Also hash 90/180/270 rotations and mirror images (square algorithms only)
+  includeOrientations?: boolean;
+  // Also hash overlapping tiles for crop-tolerant matching (attached to the pHash).
+  // Tiles are always 64-bit pHashes, so this needs the default hashSize.
+  includeRegions?: boolean;
+  // pHash block size: 8 (64-bit, default), 16 (256-bit) or 32 (1024-bit)
+  hashSize?: PHashSize;
+  // Side of the thumbnail the pHash DCT runs on, 4 * hashSize by default
+  inputSize?: number;
+}
+
+/**
+ * Hash thresholds in this app are tuned for 64-bit hashes
+ */
+export const REFERENCE_HASH_BITS = 64;
+
+/**
+ * Scale a distance threshold tuned for 64-bit hashes to a hash of `bits` bits,
+ * keeping the same fraction of differing bits
+ */
+export function scaleThreshold(threshold: number, bits: number): number {
+  return Math.round(threshold * bits / REFERENCE_HASH_BITS);
+}
+
+/**
+ * The algorithm a name resolves to under the given options: the pHash follows
+ * hashSize/inputSize, everything else comes from the registry
+ */
+export function resolveHashAlgorithm(name: HashAlgorithmName, options: PHashOptions = {}): HashAlgorithm {
+  if (name === 'phash' && (options.hashSize !== undefined || options.inputSize !== undefined)) {
+    return createPerceptualHash(options.hashSize, options.inputSize);
+  }
+  return getHashAlgorithm(name);
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    const error = new Error('pHash calculation was cancelled');
+    error.name = 'AbortError';
+    throw error;
+  }
+}
+
 /**
  * Calculate perceptual hash for an image
- * Uses native implementation on mobile, web fallback for web platform
+ * Uses native implementation on mobile, a Web Worker pool (or main-thread
+ * canvas fallback) on web
  */
-export async function calculatePHash(imageUri: string): Promise<string> {
+export async function calculatePHash(imageUri: string, options: PHashOptions = {}): Promise<string> {
+  throwIfAborted(options.signal);
+  const algorithm = resolveHashAlgorithm('phash', options);
+
   if (Platform.OS === 'android' || Platform.OS === 'ios') {
     if (PHashModule) {
       try {
-        return await PHashModule.calculatePHash(imageUri);
+        const hash = await PHashModule.calculatePHash(
+          imageUri,
+          Math.sqrt(algorithm.bits),
+          algorithm.inputWidth
+        );
+        return formatHash(algorithm, hash);
       } catch (error) {
         console.error('Native pHash calculation failed:', error);
         throw new Error('Failed to calculate perceptual hash using native module');
@@ -29,14 +98,158 @@ export async function calculatePHash(imageUri: string): Promise<string> {
     }
   }
 
+  const [hash] = await calculateImageHashes(imageUri, ['phash'], options);
+  return hash.value;
+}
+
+/**
+ * Calculate several hash algorithms for one image, decoding it only once
+ */
+export async function calculateImageHashes(
+  imageUri: string,
+  algorithmNames: HashAlgorithmName[],
+  options: PHashOptions = {}
+): Promise<ImageHash[]> {
+  throwIfAborted(options.signal);
+  const algorithms = algorithmNames.map(name => resolveHashAlgorithm(name, options));
+  const phash = resolveHashAlgorithm('phash', options);
+  if (options.includeRegions && phash.bits !== getHashAlgorithm('phash').bits) {
+    throw new Error('Regional hashes need the default pHash size');
+  }
+
+  if (Platform.OS === 'android' || Platform.OS === 'ios') {
+    if (PHashModule) {
+      try {
+        const hashes: ImageHash[] = await PHashModule.calculateHashes(
+          imageUri,
+          algorithmNames,
+          !!options.includeOrientations,
+          !!options.includeRegions,
+          Math.sqrt(phash.bits),
+          phash.inputWidth
+        );
+        return hashes.map((hash, i) => formatImageHash(algorithms[i], hash));
+      } catch (error) {
+        console.error('Native hash calculation failed:', error);
+        throw new Error('Failed to calculate image hashes using native module');
+      }
+    } else {
+      throw new Error('Native pHash module not available');
+    }
+  }
+
+  const sizes: [number, number][] = algorithms.map(algorithm => [algorithm.inputWidth, algorithm.inputHeight]);
+  const regionHash = options.includeRegions && algorithmNames.includes('phash');
+  if (regionHash) {
+    sizes.push([REGION_INPUT_SIZE, REGION_INPUT_SIZE]);
+  }
+
+  const buffers = await decodeGrayscale(imageUri, sizes, options.signal);
+  const hashes = computeImageHashes(algorithms, buffers, options.includeOrientations);
+  if (regionHash) {
+    hashes.find(hash => hash.algorithm === 'phash')!.regions = computeRegionalHashes(buffers[algorithms.length]);
+  }
+  return hashes.map((hash, i) => formatImageHash(algorithms[i], hash));
+}
+
+/**
+ * Tag raw hex hashes with the versioned format of the algorithm that produced them.
+ * Regions are default pHashes of tiles, so they share the default pHash format.
+ */
+function formatImageHash(algorithm: HashAlgorithm, hash: ImageHash): ImageHash {
+  const format = (hex: string) => formatHash(algorithm, hex);
+  return {
+    ...hash,
+    bits: algorithm.bits,
+    value: format(hash.value),
+    orientations: hash.orientations?.map(format),
+    regions: hash.regions?.map(hex => formatHash(getHashAlgorithm('phash'), hex)),
+  };
+}
+
+/**
+ * SHA-256 of the image file's bytes as lowercase hex, for exact-duplicate detection
+ * Uses native implementation on mobile, SubtleCrypto on web
+ */
+export async function calculateContentDigest(imageUri: string, options: PHashOptions = {}): Promise<string> {
+  throwIfAborted(options.signal);
+
+  if (Platform.OS === 'android' || Platform.OS === 'ios') {
+    if (PHashModule) {
+      try {
+        return await PHashModule.calculateContentDigest(imageUri);
+      } catch (error) {
+        console.error('Native content digest calculation failed:', error);
+        throw new Error('Failed to calculate content digest using native module');
+      }
+    } else {
+      throw new Error('Native pHash module not available');
+    }
+  }
+
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('SubtleCrypto not available');
+  }
+
+  const response = await fetch(imageUri, { signal: options.signal });
+  if (!response.ok) throw new Error('Failed to load image');
+  const digest = await crypto.subtle.digest('SHA-256', await response.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Sharpness, exposure and file size of an image, for picking the best shot of a group
+ * Uses native implementation on mobile; on web the file size is unknown
+ */
+export async function calculateImageQualityMetrics(
+  imageUri: string,
+  options: PHashOptions = {}
+): Promise<ImageQualityMetrics> {
+  throwIfAborted(options.signal);
+
+  if (Platform.OS === 'android' || Platform.OS === 'ios') {
+    if (PHashModule) {
+      try {
+        return await PHashModule.calculateQualityMetrics(imageUri, QUALITY_INPUT_SIZE);
+      } catch (error) {
+        console.error('Native quality measurement failed:', error);
+        throw new Error('Failed to measure image quality using native module');
+      }
+    } else {
+      throw new Error('Native pHash module not available');
+    }
+  }
+
+  const [thumbnail] = await decodeGrayscale(imageUri, [[QUALITY_INPUT_SIZE, QUALITY_INPUT_SIZE]], options.signal);
+  return computeImageQualityMetrics(thumbnail, QUALITY_INPUT_SIZE, QUALITY_INPUT_SIZE);
+}
+
+/**
+ * Decode and downscale an image to grayscale buffers on web
+ */
+async function decodeGrayscale(
+  imageUri: string,
+  sizes: [number, number][],
+  signal?: AbortSignal
+): Promise<Float64Array[]> {
+  // Decode off the main thread where the browser supports it
+  if (PHashWorkerPool.isSupported()) {
+    try {
+      return await pHashWorkerPool.decode(imageUri, sizes, signal);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') throw error;
+      console.warn('Worker image decoding failed, using main thread:', error);
+    }
+  }
+
   // Web fallback implementation
-  return calculatePHashWeb(imageUri);
+  return decodeGrayscaleWeb(imageUri, sizes);
 }
 
 /**
- * Web-based pHash implementation using Canvas API
+ * Main-thread decoding using the Canvas API
  */
-async function calculatePHashWeb(imageUri: string): Promise<string> {
+async function decodeGrayscaleWeb(imageUri: string, sizes: [number, number][]): Promise<Float64Array[]> {
   try {
     // Create a canvas to process the image
     const canvas = document.createElement('canvas');
@@ -50,36 +263,17 @@ async function calculatePHashWeb(imageUri: string): Promise<string> {
     return new Promise((resolve, reject) => {
       img.onload = () => {
         try {
-          // Resize image to 32x32 for DCT processing
-          const size = 32;
-          canvas.width = size;
-          canvas.height = size;
-          
-          // Draw and resize image
-          ctx.drawImage(img, 0, 0, size, size);
-          
-          // Get image data
-          const imageData = ctx.getImageData(0, 0, size, size);
-          const pixels = imageData.data;
-          
-          // Convert to grayscale
-          const grayscale: number[] = [];
-          for (let i = 0; i < pixels.length; i += 4) {
-            const r = pixels[i];
-            const g = pixels[i + 1];
-            const b = pixels[i + 2];
-            // Use luminance formula for grayscale conversion
-            const gray = 0.299 * r + 0.587 * g + 0.114 * b;
-            grayscale.push(gray);
-          }
-          
-          // Apply DCT (Discrete Cosine Transform)
-          const dctCoefficients = applyDCT(grayscale, size);
-          
-          // Generate hash from DCT coefficients
-          const hash = generateHashFromDCT(dctCoefficients);
-          
-          resolve(hash);
+          // Draw at full size and leave downscaling to the canonical resize
+          const width = img.naturalWidth;
+          const height = img.naturalHeight;
+          canvas.width = width;
+          canvas.height = height;
+          ctx.drawImage(img, 0, 0);
+          const pixels = ctx.getImageData(0, 0, width, height).data;
+
+          resolve(sizes.map(([dstWidth, dstHeight]) =>
+            resizeGrayscale(pixels, width, height, dstWidth, dstHeight, 4)
+          ));
         } catch (error) {
           reject(error);
         }
@@ -89,125 +283,343 @@ async function calculatePHashWeb(imageUri: string): Promise<string> {
       img.src = imageUri;
     });
   } catch (error) {
-    console.error('Error calculating pHash:', error);
+    console.error('Error decoding image:', error);
     throw error;
   }
 }
 
 /**
- * Apply 2D Discrete Cosine Transform
+ * pHash packed into 32-bit words (8 hex digits per word) so distances can be
+ * computed with XOR and popcount instead of per-nibble string parsing
+ */
+export type PackedHash = Uint32Array;
+
+/**
+ * Pack a hex hash string (versioned or legacy) into 32-bit words
  */
-function applyDCT(pixels: number[], size: number): number[][] {
-  const dct: number[][] = [];
-  
-  // Initialize DCT coefficient matrix
-  for (let i = 0; i < size; i++) {
-    dct[i] = new Array(size).fill(0);
+export function packHash(hash: string): PackedHash {
+  const hex = getHashHex(hash);
+  if (!/^[0-9a-fA-F]+$/.test(hex)) {
+    throw new Error(`Invalid hash: ${hash}`);
   }
-  
-  // Apply 2D DCT
-  for (let u = 0; u < size; u++) {
-    for (let v = 0; v < size; v++) {
-      let sum = 0;
-      
-      for (let x = 0; x < size; x++) {
-        for (let y = 0; y < size; y++) {
-          const pixelValue = pixels[x * size + y];
-          const cosU = Math.cos((2 * x + 1) * u * Math.PI / (2 * size));
-          const cosV = Math.cos((2 * y + 1) * v * Math.PI / (2 * size));
-          sum += pixelValue * cosU * cosV;
-        }
-      }
-      
-      // Apply normalization factors
-      const alphaU = u === 0 ? 1 / Math.sqrt(2) : 1;
-      const alphaV = v === 0 ? 1 / Math.sqrt(2) : 1;
-      
-      dct[u][v] = (2 / size) * alphaU * alphaV * sum;
-    }
+
+  const packed = new Uint32Array(Math.ceil(hex.length / 8));
+  for (let i = 0; i < packed.length; i++) {
+    packed[i] = parseInt(hex.substr(i * 8, 8), 16);
   }
-  
-  return dct;
+  return packed;
 }
 
 /**
- * Generate hash from DCT coefficients
+ * Count set bits in a 32-bit integer
  */
-function generateHashFromDCT(dctCoefficients: number[][]): string {
-  // Use top-left 8x8 DCT coefficients (excluding DC component at [0,0])
-  const hashSize = 8;
-  const coefficients: number[] = [];
-  
-  for (let i = 0; i < hashSize; i++) {
-    for (let j = 0; j < hashSize; j++) {
-      if (i === 0 && j === 0) continue; // Skip DC component
-      coefficients.push(dctCoefficients[i][j]);
-    }
+function popcount32(value: number): number {
+  value = value - ((value >>> 1) & 0x55555555);
+  value = (value & 0x33333333) + ((value >>> 2) & 0x33333333);
+  value = (value + (value >>> 4)) & 0x0f0f0f0f;
+  return Math.imul(value, 0x01010101) >>> 24;
+}
+
+/**
+ * Synchronous Hamming distance between two packed hashes
+ */
+export function hammingDistancePacked(hash1: PackedHash, hash2: PackedHash): number {
+  if (hash1.length !== hash2.length) {
+    throw new Error('Hash lengths must be equal');
   }
-  
-  // Calculate median of coefficients
-  const sortedCoefficients = [...coefficients].sort((a, b) => a - b);
-  const median = sortedCoefficients[Math.floor(sortedCoefficients.length / 2)];
-  
-  // Generate binary hash based on median comparison
-  let binaryHash = '';
-  for (const coeff of coefficients) {
-    binaryHash += coeff > median ? '1' : '0';
+
+  let distance = 0;
+  for (let i = 0; i < hash1.length; i++) {
+    distance += popcount32(hash1[i] ^ hash2[i]);
   }
-  
-  // Convert binary to hexadecimal
-  let hexHash = '';
-  for (let i = 0; i < binaryHash.length; i += 4) {
-    const binaryChunk = binaryHash.substr(i, 4);
-    hexHash += parseInt(binaryChunk, 2).toString(16);
+  return distance;
+}
+
+/**
+ * Synchronous Hamming distance between two hex hash strings
+ * Lower distance means more similar images. Throws an IncompatibleHashError
+ * when the hashes differ in format version, algorithm, input size or bit count.
+ */
+export function hammingDistance(hash1: string, hash2: string): number {
+  if (!areHashesCompatible(hash1, hash2)) {
+    throw createIncompatibleHashError(hash1, hash2);
   }
-  
-  return hexHash.toUpperCase();
+  return hammingDistancePacked(packHash(hash1), packHash(hash2));
+}
+
+/**
+ * Smallest distance between a hash and any orientation of another image
+ * (its upright hash plus its rotated/mirrored variants)
+ */
+export function minOrientationDistance(hash: string, uprightHash: string, orientations: string[] = []): number {
+  const packed = packHash(hash);
+  let minDistance = hammingDistancePacked(packed, packHash(uprightHash));
+  for (const variant of orientations) {
+    minDistance = Math.min(minDistance, hammingDistancePacked(packed, packHash(variant)));
+  }
+  return minDistance;
 }
 
 /**
  * Calculate Hamming distance between two pHash values
- * Lower distance means more similar images
+ * Kept async for existing callers; runs in JS without crossing the native bridge.
+ * Rejects with an IncompatibleHashError for hashes of different formats.
  */
 export async function calculateHammingDistance(hash1: string, hash2: string): Promise<number> {
+  return hammingDistance(hash1, hash2);
+}
+
+/**
+ * Calculate distances from one hash to many candidates in a single call.
+ * Uses one native bridge call on mobile, the JS popcount path elsewhere.
+ */
+export async function calculateHammingDistances(hash: string, candidates: string[]): Promise<number[]> {
+  if (candidates.length === 0) return [];
+
+  const incompatible = candidates.find(candidate => !areHashesCompatible(hash, candidate));
+  if (incompatible !== undefined) {
+    throw createIncompatibleHashError(hash, incompatible);
+  }
+
   if (Platform.OS === 'android' || Platform.OS === 'ios') {
-    if (PHashModule) {
+    if (PHashModule?.calculateHammingDistances) {
       try {
-        return await PHashModule.calculateHammingDistance(hash1, hash2);
+        return await PHashModule.calculateHammingDistances(hash, candidates);
       } catch (error) {
-        console.error('Native Hamming distance calculation failed:', error);
+        console.error('Native batched Hamming distance calculation failed:', error);
         // Fall back to JS implementation
       }
     }
   }
 
-  // JavaScript fallback implementation
-  if (hash1.length !== hash2.length) {
-    throw new Error('Hash lengths must be equal');
+  const packed = packHash(hash);
+  return candidates.map(candidate => hammingDistancePacked(packed, packHash(candidate)));
+}
+
+/**
+ * Determine if two images are similar based on their pHash values
+ * Threshold of 10 or less typically indicates similar images for 64-bit hashes,
+ * and the default scales with the hash size
+ */
+export async function areImagesSimilar(
+  hash1: string,
+  hash2: string,
+  threshold: number = scaleThreshold(10, parseHash(hash1).bits)
+): Promise<boolean> {
+  return hammingDistance(hash1, hash2) <= threshold;
+}
+
+export interface RegionalHashes {
+  hash: string;
+  regions: string[];
+}
+
+export interface RegionalMatch {
+  // 'contained': one image matches a tile of the other (a crop of it);
+  // 'partial': enough tiles of one image match tiles of the other
+  kind: 'contained' | 'partial';
+  distance: number;
+  // Fraction of tiles that found a match (1 for contained matches)
+  coverage: number;
+}
+
+/**
+ * Score a crop relationship between two images from their global and tile pHashes.
+ * Returns null when neither image contains the other and too few tiles overlap.
+ */
+export function compareRegionalHashes(
+  a: RegionalHashes,
+  b: RegionalHashes,
+  threshold: number,
+  minCoverage: number = 0.5
+): RegionalMatch | null {
+  const tilesA = a.regions.map(packHash);
+  const tilesB = b.regions.map(packHash);
+  const closest = (packed: PackedHash, tiles: PackedHash[]) =>
+    tiles.reduce((min, tile) => Math.min(min, hammingDistancePacked(packed, tile)), Infinity);
+
+  const containedDistance = Math.min(closest(packHash(a.hash), tilesB), closest(packHash(b.hash), tilesA));
+  if (containedDistance <= threshold) {
+    return { kind: 'contained', distance: containedDistance, coverage: 1 };
   }
-  
-  let distance = 0;
-  
-  for (let i = 0; i < hash1.length; i++) {
-    const int1 = parseInt(hash1[i], 16);
-    const int2 = parseInt(hash2[i], 16);
-    
-    // XOR and count set bits
-    let xor = int1 ^ int2;
-    while (xor !== 0) {
-      distance += xor & 1;
-      xor >>= 1;
+
+  let matchedTiles = 0;
+  let totalDistance = 0;
+  for (const tile of tilesA) {
+    const distance = closest(tile, tilesB);
+    if (distance <= threshold) {
+      matchedTiles++;
+      totalDistance += distance;
     }
   }
-  
-  return distance;
+
+  const coverage = tilesA.length > 0 ? matchedTiles / tilesA.length : 0;
+  if (matchedTiles === 0 || coverage < minCoverage) return null;
+  return { kind: 'partial', distance: totalDistance / matchedTiles, coverage };
+}
+
+export interface HashIndexMatch<T> {
+  id: string;
+  value: T;
+  distance: number;
+  // Index into the probe hashes of the closest match (0 = upright)
+  variant?: number;
+}
+
+interface BKTreeNode<T> {
+  hash: string;
+  packed: PackedHash;
+  entries: Map<string, T>;
+  children: Map<number, BKTreeNode<T>>;
 }
 
 /**
- * Determine if two images are similar based on their pHash values
- * Threshold of 10 or less typically indicates similar images
+ * In-memory BK-tree over pHash values for radius queries.
+ * Hamming distance is a metric, so each query only visits subtrees whose
+ * edge distance lies within [d - radius, d + radius] of the probe.
  */
-export async function areImagesSimilar(hash1: string, hash2: string, threshold: number = 10): Promise<boolean> {
-  const distance = await calculateHammingDistance(hash1, hash2);
-  return distance <= threshold;
-}
\ No newline at end of file
+export class HashIndex<T> {
+  private root: BKTreeNode<T> | null = null;
+  private hashById = new Map<string, string>();
+  private emptyNodeCount = 0;
+  private nodeCount = 0;
+
+  get size(): number {
+    return this.hashById.size;
+  }
+
+  insert(id: string, hash: string, value: T): void {
+    if (this.hashById.has(id)) {
+      this.remove(id);
+    }
+    this.hashById.set(id, hash);
+    const packed = packHash(hash);
+
+    if (!this.root) {
+      this.root = this.createNode(hash, packed);
+      this.root.entries.set(id, value);
+      return;
+    }
+
+    let node = this.root;
+    while (true) {
+      const distance = hammingDistancePacked(packed, node.packed);
+      if (distance === 0) {
+        if (node.entries.size === 0) this.emptyNodeCount--;
+        node.entries.set(id, value);
+        return;
+      }
+
+      const child = node.children.get(distance);
+      if (!child) {
+        const newNode = this.createNode(hash, packed);
+        newNode.entries.set(id, value);
+        node.children.set(distance, newNode);
+        return;
+      }
+      node = child;
+    }
+  }
+
+  /**
+   * Remove an entry. Emptied nodes stay in place to keep the tree valid and
+   * the tree is rebuilt once they make up most of it.
+   */
+  remove(id: string): boolean {
+    const hash = this.hashById.get(id);
+    if (hash === undefined) return false;
+    this.hashById.delete(id);
+
+    const node = this.findNode(hash);
+    if (node) {
+      node.entries.delete(id);
+      if (node.entries.size === 0) this.emptyNodeCount++;
+    }
+
+    if (this.emptyNodeCount > this.nodeCount / 2) {
+      this.rebuild();
+    }
+    return true;
+  }
+
+  queryWithinDistance(hash: string, radius: number): HashIndexMatch<T>[] {
+    const results: HashIndexMatch<T>[] = [];
+    if (!this.root) return results;
+
+    const packed = packHash(hash);
+    const stack: BKTreeNode<T>[] = [this.root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      const distance = hammingDistancePacked(packed, node.packed);
+
+      if (distance <= radius) {
+        node.entries.forEach((value, id) => results.push({ id, value, distance }));
+      }
+
+      node.children.forEach((child, edgeDistance) => {
+        if (edgeDistance >= distance - radius && edgeDistance <= distance + radius) {
+          stack.push(child);
+        }
+      });
+    }
+
+    return results.sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Query with several probe hashes (e.g. every orientation of one image)
+   * and keep the smallest distance per entry
+   */
+  queryAnyWithinDistance(hashes: string[], radius: number): HashIndexMatch<T>[] {
+    const bestById = new Map<string, HashIndexMatch<T>>();
+
+    hashes.forEach((hash, variant) => {
+      for (const match of this.queryWithinDistance(hash, radius)) {
+        const best = bestById.get(match.id);
+        if (!best || match.distance < best.distance) {
+          bestById.set(match.id, { ...match, variant });
+        }
+      }
+    });
+
+    return Array.from(bestById.values()).sort((a, b) => a.distance - b.distance);
+  }
+
+  clear(): void {
+    this.root = null;
+    this.hashById.clear();
+    this.emptyNodeCount = 0;
+    this.nodeCount = 0;
+  }
+
+  private findNode(hash: string): BKTreeNode<T> | null {
+    const packed = packHash(hash);
+    let node = this.root;
+    while (node) {
+      const distance = hammingDistancePacked(packed, node.packed);
+      if (distance === 0) return node;
+      node = node.children.get(distance) ?? null;
+    }
+    return null;
+  }
+
+  private rebuild(): void {
+    const entries: [string, string, T][] = [];
+    const stack = this.root ? [this.root] : [];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      node.entries.forEach((value, id) => entries.push([id, node.hash, value]));
+      node.children.forEach(child => stack.push(child));
+    }
+
+    this.clear();
+    for (const [id, hash, value] of entries) {
+      this.insert(id, hash, value);
+    }
+  }
+
+  private createNode(hash: string, packed: PackedHash): BKTreeNode<T> {
+    this.nodeCount++;
+    return { hash, packed, entries: new Map(), children: new Map() };
+  }
+}
@@ -0,0 +1,211 @@
+import { resizeGrayscale } from './hashReference';
+
+/**
+ * Worker script for web image decoding.
+ * Decodes with createImageBitmap at full size and applies the canonical resize
+ * from utils/hashReference.ts (embedded below) to get the grayscale thumbnails
+ * each hash algorithm needs, so the expensive image work never touches the
+ * main thread. Hashing itself lives in utils/hashAlgorithms.ts.
+ */
+const DECODE_WORKER_SOURCE = `
+const resizeGrayscale = ${resizeGrayscale.toString()};
+
+self.onmessage = async (event) => {
+  const { id, imageUri, sizes } = event.data;
+  try {
+    const response = await fetch(imageUri);
+    if (!response.ok) throw new Error('Failed to load image');
+    const bitmap = await createImageBitmap(await response.blob());
+    const { width, height } = bitmap;
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const pixels = ctx.getImageData(0, 0, width, height).data;
+    const buffers = sizes.map(([dstWidth, dstHeight]) =>
+      resizeGrayscale(pixels, width, height, dstWidth, dstHeight, 4)
+    );
+
+    self.postMessage({ id, buffers }, buffers.map(buffer => buffer.buffer));
+  } catch (error) {
+    self.postMessage({ id, error: error && error.message ? error.message : String(error) });
+  }
+};
+`;
+
+const MAX_POOL_SIZE = 4;
+
+interface DecodeJob {
+  id: number;
+  imageUri: string;
+  sizes: [number, number][];
+  resolve: (buffers: Float64Array[]) => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+interface PooledWorker {
+  worker: Worker;
+  job: DecodeJob | null;
+}
+
+function createAbortError(): Error {
+  const error = new Error('Image decoding was cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Pool of Web Workers that decode images for hashing off the main thread
+ */
+export class PHashWorkerPool {
+  private static instance: PHashWorkerPool;
+  private workers: PooledWorker[] = [];
+  private queue: DecodeJob[] = [];
+  private nextJobId = 0;
+  private workerUrl: string | null = null;
+
+  private constructor() {}
+
+  static getInstance(): PHashWorkerPool {
+    if (!PHashWorkerPool.instance) {
+      PHashWorkerPool.instance = new PHashWorkerPool();
+    }
+    return PHashWorkerPool.instance;
+  }
+
+  static isSupported(): boolean {
+    return (
+      typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined' &&
+      typeof createImageBitmap !== 'undefined' &&
+      typeof Blob !== 'undefined' &&
+      typeof URL !== 'undefined' &&
+      typeof URL.createObjectURL === 'function'
+    );
+  }
+
+  /**
+   * Queue an image to be decoded into one grayscale buffer per [width, height].
+   * Rejects with an AbortError if the signal fires first.
+   */
+  decode(imageUri: string, sizes: [number, number][], signal?: AbortSignal): Promise<Float64Array[]> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const job: DecodeJob = { id: this.nextJobId++, imageUri, sizes, resolve, reject, signal };
+
+      if (signal) {
+        job.onAbort = () => this.cancelJob(job);
+        signal.addEventListener('abort', job.onAbort);
+      }
+
+      this.queue.push(job);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Reject every queued and running job and stop all workers
+   */
+  terminate(): void {
+    const pendingJobs = [...this.queue, ...this.workers.map(w => w.job).filter((job): job is DecodeJob => !!job)];
+    this.queue = [];
+
+    for (const pooled of this.workers) {
+      pooled.worker.terminate();
+    }
+    this.workers = [];
+
+    for (const job of pendingJobs) {
+      this.settle(job);
+      job.reject(createAbortError());
+    }
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const pooled = this.getIdleWorker();
+      if (!pooled) return;
+
+      const job = this.queue.shift()!;
+      pooled.job = job;
+      pooled.worker.postMessage({ id: job.id, imageUri: job.imageUri, sizes: job.sizes });
+    }
+  }
+
+  private getIdleWorker(): PooledWorker | null {
+    const idle = this.workers.find(pooled => !pooled.job);
+    if (idle) return idle;
+
+    if (this.workers.length >= this.getPoolSize()) return null;
+
+    const pooled: PooledWorker = { worker: new Worker(this.getWorkerUrl()), job: null };
+    pooled.worker.onmessage = (event: MessageEvent) => this.handleMessage(pooled, event.data);
+    pooled.worker.onerror = (event: ErrorEvent) => {
+      this.handleMessage(pooled, { id: pooled.job?.id, error: event.message || 'Worker error' });
+    };
+    this.workers.push(pooled);
+    return pooled;
+  }
+
+  private handleMessage(pooled: PooledWorker, data: { id?: number; buffers?: Float64Array[]; error?: string }): void {
+    const job = pooled.job;
+    pooled.job = null;
+
+    // Results for cancelled jobs are dropped; the job was already rejected
+    if (job && job.id === data.id) {
+      this.settle(job);
+      if (data.buffers) {
+        job.resolve(data.buffers);
+      } else {
+        job.reject(new Error(data.error || 'Failed to decode image'));
+      }
+    }
+
+    this.dispatch();
+  }
+
+  private cancelJob(job: DecodeJob): void {
+    const queueIndex = this.queue.indexOf(job);
+    if (queueIndex !== -1) {
+      this.queue.splice(queueIndex, 1);
+    }
+
+    const running = this.workers.find(pooled => pooled.job === job);
+    if (running) {
+      // Let the worker finish its current image; handleMessage will ignore the result
+      running.job = { ...job, id: -1 };
+    }
+
+    this.settle(job);
+    job.reject(createAbortError());
+  }
+
+  private settle(job: DecodeJob): void {
+    if (job.signal && job.onAbort) {
+      job.signal.removeEventListener('abort', job.onAbort);
+    }
+  }
+
+  private getPoolSize(): number {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1));
+  }
+
+  private getWorkerUrl(): string {
+    if (!this.workerUrl) {
+      const blob = new Blob([DECODE_WORKER_SOURCE], { type: 'application/javascript' });
+      this.workerUrl = URL.createObjectURL(blob);
+    }
+    return this.workerUrl;
+  }
+}
+
+export const pHashWorkerPool = PHashWorkerPool.getInstance();
@@ -0,0 +1,305 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as MediaLibrary from 'expo-media-library';
+import { Platform } from 'react-native';
+import { reviewDecisions } from './reviewDecisions';
+
+const PENDING_REMOVAL_KEY = '@pending_removal';
+const PAGE_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const PENDING_REMOVAL_ALBUM = 'Pending removal';
+export const DEFAULT_RETENTION_DAYS = 30;
+
+/**
+ * Library metadata of a photo as it was before it was staged
+ */
+export interface StagedPhoto {
+  id: string;
+  uri: string;
+  filename: string;
+  creationTime: number;
+  width: number;
+  height: number;
+  modificationTime?: number;
+}
+
+export interface PendingRemovalEntry {
+  // Asset id while the photo waits in the album; Android can give a moved asset a new id
+  assetId: string;
+  uri: string;
+  original: StagedPhoto;
+  // Album to move the photo back to on undo. Android only, where an asset lives in exactly one album.
+  originalAlbumId?: string;
+  // Photos removed together are undone together
+  batchId: string;
+  stagedAt: number;
+}
+
+export interface PendingRemovalState {
+  retentionDays: number;
+  // Id of the "Pending removal" album once it exists
+  albumId?: string;
+  entries: PendingRemovalEntry[];
+}
+
+const DEFAULT_STATE: PendingRemovalState = {
+  retentionDays: DEFAULT_RETENTION_DAYS,
+  entries: [],
+};
+
+function createPendingRemovalError(message: string, cause?: unknown): Error {
+  const detail = cause instanceof Error ? `: ${cause.message}` : '';
+  const error = new Error(`${message}${detail}`);
+  error.name = 'PendingRemovalError';
+  return error;
+}
+
+/**
+ * Recoverable deletion. Photos are first moved into an app-managed "Pending removal"
+ * album and recorded in a manifest with their original metadata; they can be restored
+ * until the retention period runs out, and are only deleted from the device when purged.
+ */
+export class PendingRemovalManager {
+  private static instance: PendingRemovalManager;
+  private state: PendingRemovalState | null = null;
+  // Current and original ids of every staged photo
+  private pendingIds = new Set<string>();
+
+  private constructor() {}
+
+  static getInstance(): PendingRemovalManager {
+    if (!PendingRemovalManager.instance) {
+      PendingRemovalManager.instance = new PendingRemovalManager();
+    }
+    return PendingRemovalManager.instance;
+  }
+
+  async initialize(): Promise<PendingRemovalState> {
+    try {
+      const stored = await AsyncStorage.getItem(PENDING_REMOVAL_KEY);
+      this.state = stored ? { ...DEFAULT_STATE, ...JSON.parse(stored) } : { ...DEFAULT_STATE };
+    } catch (error) {
+      console.error('Error initializing pending removal manifest:', error);
+      this.state = { ...DEFAULT_STATE };
+    }
+    this.indexEntries();
+    return this.state!;
+  }
+
+  async getCurrentState(): Promise<PendingRemovalState> {
+    if (!this.state) {
+      await this.initialize();
+    }
+    return this.state!;
+  }
+
+  /**
+   * Whether a library asset is staged for removal and should be hidden from the
+   * library. Also true for anything in the album, whatever id Android gave it.
+   */
+  isHidden(asset: { id: string; albumId?: string }): boolean {
+    if (this.pendingIds.has(asset.id)) return true;
+    const albumId = this.state?.albumId;
+    return !!albumId && asset.albumId === albumId;
+  }
+
+  getExpiresAt(entry: PendingRemovalEntry): number {
+    return entry.stagedAt + (this.state?.retentionDays ?? DEFAULT_RETENTION_DAYS) * DAY_MS;
+  }
+
+  async setRetentionDays(days: number): Promise<PendingRemovalState> {
+    if (!Number.isInteger(days) || days < 1) {
+      throw createPendingRemovalError(`Retention must be a whole number of days, at least 1: ${days}`);
+    }
+    const state = await this.getCurrentState();
+    return this.updateState({ ...state, retentionDays: days });
+  }
+
+  /**
+   * Move photos into the "Pending removal" album. The manifest is written before
+   * anything moves, so an interrupted move can still be reconciled and undone.
+   * Returns the new entries, which share a batch id.
+   */
+  async stagePhotos(photos: StagedPhoto[]): Promise<PendingRemovalEntry[]> {
+    if (photos.length === 0) return [];
+
+    const state = await this.getCurrentState();
+    const stagedAt = Date.now();
+    const batchId = `batch-${stagedAt}-${photos[0].id}`;
+    const originalAlbumIds = Platform.OS === 'android'
+      ? await Promise.all(photos.map(async photo => (await MediaLibrary.getAssetInfoAsync(photo.id)).albumId))
+      : [];
+
+    const entries: PendingRemovalEntry[] = photos.map((photo, i) => ({
+      assetId: photo.id,
+      uri: photo.uri,
+      original: { ...photo },
+      originalAlbumId: originalAlbumIds[i],
+      batchId,
+      stagedAt,
+    }));
+    await this.updateState({ ...state, entries: [...state.entries, ...entries] });
+
+    try {
+      await this.moveToAlbum(photos.map(photo => photo.id));
+    } catch (error) {
+      // Keep only the entries whose photos made it into the album
+      await this.reconcile();
+      throw createPendingRemovalError(`Could not move photos to ${PENDING_REMOVAL_ALBUM}`, error);
+    }
+
+    await this.reconcile();
+    return this.state!.entries.filter(entry => entry.batchId === batchId);
+  }
+
+  /**
+   * Put staged photos back where they were. Returns their original metadata.
+   */
+  async restore(entries: PendingRemovalEntry[]): Promise<StagedPhoto[]> {
+    if (entries.length === 0) return [];
+    const state = await this.getCurrentState();
+
+    try {
+      if (Platform.OS === 'android') {
+        // Removing from an album deletes the asset on Android, so move it back instead
+        const byAlbum = new Map<string, string[]>();
+        for (const entry of entries) {
+          if (!entry.originalAlbumId) {
+            throw createPendingRemovalError(`Original album of ${entry.original.filename} is unknown`);
+          }
+          byAlbum.set(entry.originalAlbumId, [...(byAlbum.get(entry.originalAlbumId) ?? []), entry.assetId]);
+        }
+        for (const [albumId, assetIds] of byAlbum) {
+          await MediaLibrary.addAssetsToAlbumAsync(assetIds, albumId, false);
+        }
+      } else if (state.albumId) {
+        await MediaLibrary.removeAssetsFromAlbumAsync(entries.map(entry => entry.assetId), state.albumId);
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'PendingRemovalError') throw error;
+      throw createPendingRemovalError('Could not restore photos', error);
+    }
+
+    await this.removeEntries(entries);
+    return entries.map(entry => entry.original);
+  }
+
+  async restoreBatch(batchId: string): Promise<StagedPhoto[]> {
+    const state = await this.getCurrentState();
+    return this.restore(state.entries.filter(entry => entry.batchId === batchId));
+  }
+
+  /**
+   * Permanently delete staged photos, along with the review decisions they were
+   * part of. Returns how many were deleted; zero when the user declines the
+   * system confirmation.
+   */
+  async purge(entries: PendingRemovalEntry[]): Promise<number> {
+    if (entries.length === 0) return 0;
+
+    let deleted: boolean;
+    try {
+      deleted = await MediaLibrary.deleteAssetsAsync(entries.map(entry => entry.assetId));
+    } catch (error) {
+      throw createPendingRemovalError('Could not delete photos', error);
+    }
+    if (!deleted) return 0;
+
+    await this.removeEntries(entries);
+    await reviewDecisions.forgetPhotos(entries.map(entry => entry.original.id));
+    return entries.length;
+  }
+
+  /**
+   * Delete the photos whose retention period has run out
+   */
+  async purgeExpired(now: number = Date.now()): Promise<number> {
+    const state = await this.getCurrentState();
+    return this.purge(state.entries.filter(entry => this.getExpiresAt(entry) <= now));
+  }
+
+  /**
+   * Match the manifest against what is actually in the album: follow ids Android
+   * changed on move, and forget photos the user restored or deleted outside the app.
+   */
+  async reconcile(): Promise<PendingRemovalState> {
+    const state = await this.getCurrentState();
+    const album = await MediaLibrary.getAlbumAsync(PENDING_REMOVAL_ALBUM);
+    const assets = album ? await this.getAlbumAssets(album) : [];
+
+    const byId = new Map(assets.map(asset => [asset.id, asset]));
+    const byMetadata = new Map(assets.map(asset => [`${asset.filename}|${asset.creationTime}`, asset]));
+    const entries = state.entries.flatMap(entry => {
+      const asset = byId.get(entry.assetId) ?? byMetadata.get(`${entry.original.filename}|${entry.original.creationTime}`);
+      return asset ? [{ ...entry, assetId: asset.id, uri: asset.uri }] : [];
+    });
+
+    return this.updateState({ ...state, albumId: album?.id, entries });
+  }
+
+  private async moveToAlbum(assetIds: string[]): Promise<void> {
+    const album = await MediaLibrary.getAlbumAsync(PENDING_REMOVAL_ALBUM);
+    if (album) {
+      await MediaLibrary.addAssetsToAlbumAsync(assetIds, album, false);
+      return;
+    }
+
+    // Android cannot create an empty album, so it is created around the first photo
+    const [first, ...rest] = assetIds;
+    const created = await MediaLibrary.createAlbumAsync(PENDING_REMOVAL_ALBUM, first, false);
+    if (rest.length > 0) {
+      await MediaLibrary.addAssetsToAlbumAsync(rest, created, false);
+    }
+  }
+
+  private async getAlbumAssets(album: MediaLibrary.Album): Promise<MediaLibrary.Asset[]> {
+    const assets: MediaLibrary.Asset[] = [];
+    let hasNextPage = true;
+    let endCursor: string | undefined;
+
+    while (hasNextPage) {
+      const result = await MediaLibrary.getAssetsAsync({
+        album,
+        mediaType: 'photo',
+        first: PAGE_SIZE,
+        after: endCursor,
+      });
+      assets.push(...result.assets);
+      hasNextPage = result.hasNextPage;
+      endCursor = result.endCursor;
+    }
+
+    return assets;
+  }
+
+  private async removeEntries(entries: PendingRemovalEntry[]): Promise<void> {
+    const state = await this.getCurrentState();
+    const removed = new Set(entries.map(entry => entry.assetId));
+    await this.updateState({ ...state, entries: state.entries.filter(entry => !removed.has(entry.assetId)) });
+  }
+
+  private async updateState(state: PendingRemovalState): Promise<PendingRemovalState> {
+    this.state = state;
+    this.indexEntries();
+    await this.saveState();
+    return state;
+  }
+
+  private indexEntries(): void {
+    this.pendingIds = new Set(
+      (this.state?.entries ?? []).flatMap(entry => [entry.assetId, entry.original.id])
+    );
+  }
+
+  private async saveState(): Promise<void> {
+    try {
+      if (this.state) {
+        await AsyncStorage.setItem(PENDING_REMOVAL_KEY, JSON.stringify(this.state));
+      }
+    } catch (error) {
+      console.error('Error saving pending removal manifest:', error);
+    }
+  }
+}
+
+export const pendingRemoval = PendingRemovalManager.getInstance();
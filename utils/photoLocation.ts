@@ -0,0 +1,26 @@
+import * as MediaLibrary from 'expo-media-library';
+import { Platform } from 'react-native';
+import { HashablePhoto, hashCache } from './hashCache';
+import type { PhotoLocation } from './sessions';
+
+/**
+ * Get where a photo was taken, asking the media library only if the cache has
+ * no fresh entry. Resolves to null for photos without a location.
+ */
+export async function getOrReadLocation(photo: HashablePhoto): Promise<PhotoLocation | null> {
+  if (Platform.OS === 'web') return null;
+
+  const cached = await hashCache.get(photo);
+  if (cached.location !== undefined) return cached.location;
+
+  try {
+    const info = await MediaLibrary.getAssetInfoAsync(photo.id, { shouldDownloadFromNetwork: false });
+    const location = info.location ? { latitude: info.location.latitude, longitude: info.location.longitude } : null;
+    await hashCache.set(photo, { location });
+    return location;
+  } catch (error) {
+    // Not cached, so the next segmentation tries again
+    console.warn(`Could not read location of ${photo.id}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Side of the grayscale thumbnail image quality is measured on. Large enough
+ * to keep fine detail for the sharpness measure, small enough to decode fast.
+ */
+export const QUALITY_INPUT_SIZE = 256;
+
+// Luminance at or beyond these counts as crushed shadows / blown highlights
+const SHADOW_CLIP_LEVEL = 5;
+const HIGHLIGHT_CLIP_LEVEL = 250;
+
+/**
+ * What a decoded photo says about its own quality
+ */
+export interface ImageQualityMetrics {
+  // Variance of the Laplacian: higher is sharper
+  sharpness: number;
+  // Mean luminance, 0-255
+  meanLuminance: number;
+  // Fraction of pixels clipped to black / white
+  shadowClipping: number;
+  highlightClipping: number;
+  // Size of the file in bytes, when the platform can tell
+  fileSize?: number;
+}
+
+export interface QualityPhoto {
+  id: string;
+  width: number;
+  height: number;
+  isFavorite?: boolean;
+  metrics?: ImageQualityMetrics;
+}
+
+export type QualityFactor = 'favorite' | 'sharpness' | 'exposure' | 'resolution' | 'fileSize';
+
+/**
+ * Weight of each factor in the overall score. The others add up to 1, so a
+ * favorite always outranks a photo that is not.
+ */
+export const QUALITY_WEIGHTS: Record<QualityFactor, number> = {
+  favorite: 1,
+  sharpness: 0.4,
+  exposure: 0.25,
+  resolution: 0.2,
+  fileSize: 0.15,
+};
+
+export const QUALITY_FACTOR_LABELS: Record<QualityFactor, string> = {
+  favorite: 'Marked as favorite',
+  sharpness: 'Sharpest',
+  exposure: 'Best exposed',
+  resolution: 'Highest resolution',
+  fileSize: 'Largest file',
+};
+
+export interface PhotoQualityScore {
+  photoId: string;
+  score: number;
+  // Each factor from 0 to 1, relative to the rest of the group where that makes sense
+  factors: Record<QualityFactor, number>;
+}
+
+export interface QualityRanking {
+  // Best photo of the group, the one to keep
+  keeperId: string;
+  // Best first
+  scores: PhotoQualityScore[];
+  // Factors the keeper is strictly best at; empty when it only won on balance
+  reasons: QualityFactor[];
+}
+
+const FACTORS = Object.keys(QUALITY_WEIGHTS) as QualityFactor[];
+
+/**
+ * Measure sharpness and exposure on a grayscale image (one 0-255 luminance value
+ * per pixel, row-major), usually a QUALITY_INPUT_SIZE thumbnail from the canonical
+ * resize. The Kotlin module (HashReference.qualityMetrics) computes the same values.
+ */
+export function computeImageQualityMetrics(
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number
+): ImageQualityMetrics {
+  let luminanceSum = 0;
+  let shadows = 0;
+  let highlights = 0;
+  for (let i = 0; i < width * height; i++) {
+    luminanceSum += pixels[i];
+    if (pixels[i] <= SHADOW_CLIP_LEVEL) shadows++;
+    if (pixels[i] >= HIGHLIGHT_CLIP_LEVEL) highlights++;
+  }
+
+  // 4-neighbour Laplacian over the interior pixels
+  let sum = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = pixels[i - width] + pixels[i + width] + pixels[i - 1] + pixels[i + 1] - 4 * pixels[i];
+      sum += laplacian;
+      sumOfSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  const mean = count > 0 ? sum / count : 0;
+
+  const pixelCount = Math.max(1, width * height);
+  return {
+    sharpness: count > 0 ? sumOfSquares / count - mean * mean : 0,
+    meanLuminance: luminanceSum / pixelCount,
+    shadowClipping: shadows / pixelCount,
+    highlightClipping: highlights / pixelCount,
+  };
+}
+
+/**
+ * Exposure from 0 to 1: penalizes clipped pixels and a mean far from mid-gray
+ */
+export function getExposureScore(metrics: ImageQualityMetrics): number {
+  const clipping = Math.min(1, metrics.shadowClipping + metrics.highlightClipping);
+  const balance = 1 - Math.abs(metrics.meanLuminance - 127.5) / 127.5;
+  return (1 - clipping) * balance;
+}
+
+/**
+ * Values scaled to the best in the group. A factor some photo lacks is left
+ * out for the whole group, so missing data never decides the ranking.
+ */
+function relativeToBest(values: (number | undefined)[]): number[] {
+  if (values.some(value => value === undefined)) return values.map(() => 0);
+  const best = Math.max(...(values as number[]));
+  return (values as number[]).map(value => (best > 0 ? value / best : 0));
+}
+
+/**
+ * Rank the photos of a match group by quality, best first. Ties keep the
+ * group's order.
+ */
+export function rankPhotosByQuality(photos: QualityPhoto[]): QualityRanking {
+  if (photos.length === 0) {
+    throw new Error('Cannot rank an empty group');
+  }
+
+  const sharpness = relativeToBest(photos.map(photo => photo.metrics?.sharpness));
+  const resolution = relativeToBest(photos.map(photo => photo.width * photo.height));
+  const fileSize = relativeToBest(photos.map(photo => photo.metrics?.fileSize));
+  const hasExposure = photos.every(photo => photo.metrics);
+
+  const scores = photos.map((photo, i): PhotoQualityScore => {
+    const factors: Record<QualityFactor, number> = {
+      favorite: photo.isFavorite ? 1 : 0,
+      sharpness: sharpness[i],
+      exposure: hasExposure ? getExposureScore(photo.metrics!) : 0,
+      resolution: resolution[i],
+      fileSize: fileSize[i],
+    };
+    const score = FACTORS.reduce((total, factor) => total + QUALITY_WEIGHTS[factor] * factors[factor], 0);
+    return { photoId: photo.id, score, factors };
+  });
+
+  const ranked = scores
+    .map((score, index) => ({ score, index }))
+    .sort((a, b) => b.score.score - a.score.score || a.index - b.index)
+    .map(({ score }) => score);
+
+  const [keeper, ...others] = ranked;
+  const reasons = FACTORS.filter(factor =>
+    others.length > 0 && others.every(other => keeper.factors[factor] > other.factors[factor])
+  );
+
+  return { keeperId: keeper.photoId, scores: ranked, reasons };
+}
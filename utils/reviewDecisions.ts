@@ -0,0 +1,157 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const REVIEW_DECISIONS_KEY = '@review_decisions';
+
+export type ReviewStatus = 'approved' | 'rejected';
+
+export interface ReviewDecision {
+  photoIds: string[];
+  status: ReviewStatus;
+  decidedAt: number;
+}
+
+interface ReviewableMatch {
+  photos: { id: string }[];
+  status: 'pending' | ReviewStatus;
+}
+
+/**
+ * Stable key for a group of photos: match ids change between scans, the set of photos does not
+ */
+export function getGroupKey(photoIds: string[]): string {
+  return JSON.stringify([...new Set(photoIds)].sort());
+}
+
+/**
+ * Approve/reject decisions keyed by the photos of the reviewed group, so a rescan
+ * does not ask about the same group again. A rejection ("these are intentionally
+ * different") also covers every smaller group of the same photos.
+ */
+export class ReviewDecisionManager {
+  private static instance: ReviewDecisionManager;
+  private decisions: Record<string, ReviewDecision> | null = null;
+  // Keys of rejected groups by photo id, for finding the rejections covering a group
+  private rejectionsByPhoto = new Map<string, string[]>();
+
+  private constructor() {}
+
+  static getInstance(): ReviewDecisionManager {
+    if (!ReviewDecisionManager.instance) {
+      ReviewDecisionManager.instance = new ReviewDecisionManager();
+    }
+    return ReviewDecisionManager.instance;
+  }
+
+  async initialize(): Promise<Record<string, ReviewDecision>> {
+    try {
+      const stored = await AsyncStorage.getItem(REVIEW_DECISIONS_KEY);
+      this.decisions = stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Error initializing review decisions:', error);
+      this.decisions = {};
+    }
+    this.indexRejections();
+    return this.decisions!;
+  }
+
+  async getCurrentDecisions(): Promise<Record<string, ReviewDecision>> {
+    if (!this.decisions) {
+      await this.initialize();
+    }
+    return this.decisions!;
+  }
+
+  /**
+   * Status the user gave a group, if any. Needs initialize() to have run;
+   * before that every group is undecided.
+   */
+  getStatus(photoIds: string[]): ReviewStatus | undefined {
+    if (!this.decisions) return undefined;
+
+    const decision = this.decisions[getGroupKey(photoIds)];
+    if (decision) return decision.status;
+
+    const candidates = this.rejectionsByPhoto.get(photoIds[0]) ?? [];
+    const covered = candidates.some(key => {
+      const rejected = new Set(this.decisions![key].photoIds);
+      return photoIds.every(id => rejected.has(id));
+    });
+    return covered ? 'rejected' : undefined;
+  }
+
+  /**
+   * Drop rejected matches and restore the status of the ones already reviewed
+   */
+  applyDecisions<T extends ReviewableMatch>(matches: T[]): T[] {
+    return matches.flatMap(match => {
+      const status = this.getStatus(match.photos.map(photo => photo.id));
+      if (status === 'rejected') return [];
+      return [status ? { ...match, status } : match];
+    });
+  }
+
+  async setDecision(photoIds: string[], status: ReviewStatus): Promise<ReviewDecision> {
+    const decisions = await this.getCurrentDecisions();
+    const key = getGroupKey(photoIds);
+    const decision: ReviewDecision = { photoIds: JSON.parse(key), status, decidedAt: Date.now() };
+    this.decisions = { ...decisions, [key]: decision };
+    this.indexRejections();
+    await this.saveDecisions();
+    return decision;
+  }
+
+  /**
+   * Remove deleted photos from the groups they were reviewed in. Groups left
+   * with a single photo have nothing to decide any more and are dropped.
+   */
+  async forgetPhotos(photoIds: string[]): Promise<void> {
+    const decisions = await this.getCurrentDecisions();
+    const removed = new Set(photoIds);
+    const next: Record<string, ReviewDecision> = {};
+    let changed = false;
+
+    Object.entries(decisions).forEach(([key, decision]) => {
+      const remaining = decision.photoIds.filter(id => !removed.has(id));
+      if (remaining.length === decision.photoIds.length) {
+        next[key] = decision;
+        return;
+      }
+      changed = true;
+      if (remaining.length > 1) {
+        next[getGroupKey(remaining)] = { ...decision, photoIds: remaining };
+      }
+    });
+
+    if (!changed) return;
+    this.decisions = next;
+    this.indexRejections();
+    await this.saveDecisions();
+  }
+
+  private indexRejections(): void {
+    this.rejectionsByPhoto.clear();
+    Object.entries(this.decisions ?? {}).forEach(([key, decision]) => {
+      if (decision.status !== 'rejected') return;
+      decision.photoIds.forEach(photoId => {
+        const keys = this.rejectionsByPhoto.get(photoId);
+        if (keys) {
+          keys.push(key);
+        } else {
+          this.rejectionsByPhoto.set(photoId, [key]);
+        }
+      });
+    });
+  }
+
+  private async saveDecisions(): Promise<void> {
+    try {
+      if (this.decisions) {
+        await AsyncStorage.setItem(REVIEW_DECISIONS_KEY, JSON.stringify(this.decisions));
+      }
+    } catch (error) {
+      console.error('Error saving review decisions:', error);
+    }
+  }
+}
+
+export const reviewDecisions = ReviewDecisionManager.getInstance();
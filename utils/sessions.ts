@@ -0,0 +1,231 @@
+export interface PhotoLocation {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * The parts of a photo session segmentation looks at
+ */
+export interface TimelinePhoto {
+  id: string;
+  creationTime: number;
+  location?: PhotoLocation | null;
+}
+
+/**
+ * A run of photos taken close together in time (and place, when known)
+ */
+export interface Session {
+  id: string;
+  start: number;
+  end: number;
+  photoIds: string[];
+  photoCount: number;
+  // Photos in the session that duplicate an earlier photo of the same session
+  duplicateCount: number;
+  // Centroid of the photos that have a location
+  location?: PhotoLocation;
+}
+
+export interface SessionOptions {
+  // A gap longer than this between consecutive photos starts a new session
+  maxGapMs?: number;
+  // Moving further than this from the previous located photo starts a new session
+  maxDistanceMeters?: number;
+}
+
+export const SESSION_GAP_MS = 30 * 60 * 1000;
+export const SESSION_MAX_DISTANCE_METERS = 1000;
+
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * Great-circle distance between two locations
+ */
+function distanceMeters(a: PhotoLocation, b: PhotoLocation): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Segment the timeline into sessions by gap analysis on creationTime,
+ * also splitting when consecutive located photos are far apart
+ */
+export function segmentSessions(photos: TimelinePhoto[], options: SessionOptions = {}): Session[] {
+  const maxGapMs = options.maxGapMs ?? SESSION_GAP_MS;
+  const maxDistanceMeters = options.maxDistanceMeters ?? SESSION_MAX_DISTANCE_METERS;
+
+  const sorted = [...photos].sort((a, b) => a.creationTime - b.creationTime || a.id.localeCompare(b.id));
+  const sessions: Session[] = [];
+  let locations: PhotoLocation[] = [];
+
+  const closeSession = () => {
+    const session = sessions[sessions.length - 1];
+    if (session && locations.length > 0) {
+      session.location = {
+        latitude: locations.reduce((sum, l) => sum + l.latitude, 0) / locations.length,
+        longitude: locations.reduce((sum, l) => sum + l.longitude, 0) / locations.length,
+      };
+    }
+    locations = [];
+  };
+
+  for (const photo of sorted) {
+    const current = sessions[sessions.length - 1];
+    const lastLocation = locations[locations.length - 1];
+    const movedAway = !!photo.location && !!lastLocation &&
+      distanceMeters(photo.location, lastLocation) > maxDistanceMeters;
+
+    if (current && photo.creationTime - current.end <= maxGapMs && !movedAway) {
+      current.end = photo.creationTime;
+      current.photoIds.push(photo.id);
+      current.photoCount++;
+    } else {
+      closeSession();
+      sessions.push({
+        id: `session-${photo.id}`,
+        start: photo.creationTime,
+        end: photo.creationTime,
+        photoIds: [photo.id],
+        photoCount: 1,
+        duplicateCount: 0,
+      });
+    }
+
+    if (photo.location) {
+      locations.push(photo.location);
+    }
+  }
+  closeSession();
+
+  return sessions;
+}
+
+/**
+ * Fill in the locations segmentSessions needs to split sessions by place.
+ * Reading a location is slow, so only the first and last photo of each
+ * time-based session are read, and the rest only when those two are far apart.
+ * A session that leaves and comes back to the same place is not split.
+ */
+export async function resolveSessionLocations<T extends TimelinePhoto>(
+  photos: T[],
+  readLocation: (photo: T) => Promise<PhotoLocation | null>,
+  options: SessionOptions = {}
+): Promise<T[]> {
+  const maxDistanceMeters = options.maxDistanceMeters ?? SESSION_MAX_DISTANCE_METERS;
+  const photosById = new Map(photos.map(photo => [photo.id, photo]));
+  const locations = new Map<string, PhotoLocation | null>();
+
+  const read = async (photoId: string) => {
+    if (!locations.has(photoId)) {
+      locations.set(photoId, await readLocation(photosById.get(photoId)!));
+    }
+    return locations.get(photoId)!;
+  };
+
+  const timeSessions = segmentSessions(photos.map(({ id, creationTime }) => ({ id, creationTime })), options);
+  for (const { photoIds } of timeSessions) {
+    if (photoIds.length < 2) continue;
+
+    const first = await read(photoIds[0]);
+    const last = await read(photoIds[photoIds.length - 1]);
+    if (!first && !last) continue;
+    if (first && last && distanceMeters(first, last) <= maxDistanceMeters) continue;
+
+    for (const photoId of photoIds) {
+      await read(photoId);
+    }
+  }
+
+  return photos.map(photo => (locations.has(photo.id) ? { ...photo, location: locations.get(photo.id) } : photo));
+}
+
+/**
+ * Looks up the session a photo belongs to
+ */
+export class SessionIndex {
+  private sessionByPhotoId = new Map<string, Session>();
+
+  constructor(private sessions: Session[]) {
+    for (const session of sessions) {
+      for (const photoId of session.photoIds) {
+        this.sessionByPhotoId.set(photoId, session);
+      }
+    }
+  }
+
+  /**
+   * Photos that were not segmented fall back to the session covering their creation time
+   */
+  getSession(photo: TimelinePhoto): Session | null {
+    const session = this.sessionByPhotoId.get(photo.id);
+    if (session) return session;
+
+    let low = 0;
+    let high = this.sessions.length - 1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const candidate = this.sessions[mid];
+      if (photo.creationTime < candidate.start) {
+        high = mid - 1;
+      } else if (photo.creationTime > candidate.end) {
+        low = mid + 1;
+      } else {
+        return candidate;
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Fill in duplicateCount from match groups: every photo of a group except the
+ * earliest one in each session counts as a duplicate of that session
+ */
+export function countSessionDuplicates(
+  sessions: Session[],
+  matches: { photos: TimelinePhoto[] }[]
+): Session[] {
+  const index = new SessionIndex(sessions);
+  const duplicatesBySession = new Map<string, Set<string>>();
+
+  for (const match of matches) {
+    const seenSessions = new Set<string>();
+    const photos = [...match.photos].sort((a, b) => a.creationTime - b.creationTime);
+
+    for (const photo of photos) {
+      const session = index.getSession(photo);
+      if (!session) continue;
+
+      if (seenSessions.has(session.id)) {
+        const duplicates = duplicatesBySession.get(session.id) ?? new Set<string>();
+        duplicates.add(photo.id);
+        duplicatesBySession.set(session.id, duplicates);
+      } else {
+        seenSessions.add(session.id);
+      }
+    }
+  }
+
+  return sessions.map(session => ({
+    ...session,
+    duplicateCount: duplicatesBySession.get(session.id)?.size ?? 0,
+  }));
+}
+
+/**
+ * Human-readable session name, e.g. "Saturday afternoon, Mar 2, 2024"
+ */
+export function formatSessionLabel(session: Session): string {
+  const start = new Date(session.start);
+  const hour = start.getHours();
+  const partOfDay = hour < 5 ? 'night' : hour < 12 ? 'morning' : hour < 17 ? 'afternoon' : hour < 21 ? 'evening' : 'night';
+  const weekday = start.toLocaleDateString('en-US', { weekday: 'long' });
+  const date = start.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  return `${weekday} ${partOfDay}, ${date}`;
+}
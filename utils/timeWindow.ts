@@ -0,0 +1,145 @@
+import { segmentSessions, SessionIndex, SESSION_GAP_MS, TimelinePhoto } from './sessions';
+
+export type TimeWindowStrategy = 'burst' | 'session' | 'day' | 'library';
+
+export interface TimeWindow {
+  start: number;
+  end: number;
+  // Set in session mode: photos match only within the same session
+  sessionId?: string;
+}
+
+export interface TimeWindowStrategyInfo {
+  strategy: TimeWindowStrategy;
+  label: string;
+  // Completes "Matches ..." in the UI
+  description: string;
+  // Longest time span a match may cover before validation rejects it
+  maxMatchSpan: number;
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const DAY = 24 * 60 * MINUTE;
+
+// Burst mode: how far apart two shots of the same burst can be
+export const BURST_WINDOW_MS = 30 * SECOND;
+
+export const DEFAULT_TIME_WINDOW_STRATEGY: TimeWindowStrategy = 'session';
+
+export const TIME_WINDOW_STRATEGIES: TimeWindowStrategyInfo[] = [
+  {
+    strategy: 'burst',
+    label: 'Burst',
+    description: 'photos taken within 30 seconds of each other',
+    maxMatchSpan: DAY,
+  },
+  {
+    strategy: 'session',
+    label: 'Session',
+    description: `photos from the same shooting session (no gaps over ${SESSION_GAP_MS / MINUTE} minutes)`,
+    maxMatchSpan: Infinity,
+  },
+  {
+    strategy: 'day',
+    label: 'Day',
+    description: 'photos taken on the same day',
+    maxMatchSpan: DAY,
+  },
+  {
+    strategy: 'library',
+    label: 'All',
+    description: 'photos from anywhere in your library',
+    maxMatchSpan: Infinity,
+  },
+];
+
+export function getTimeWindowStrategyInfo(strategy: TimeWindowStrategy): TimeWindowStrategyInfo {
+  return TIME_WINDOW_STRATEGIES.find(info => info.strategy === strategy) ?? TIME_WINDOW_STRATEGIES[0];
+}
+
+/**
+ * Resolves the window a photo may be matched within
+ */
+export interface TimeWindowResolver {
+  strategy: TimeWindowStrategy;
+  maxMatchSpan: number;
+  getWindow(photo: TimelinePhoto): TimeWindow;
+  isInWindow(window: TimeWindow, photo: TimelinePhoto): boolean;
+}
+
+function isInTimeRange(window: TimeWindow, photo: TimelinePhoto): boolean {
+  return photo.creationTime >= window.start && photo.creationTime <= window.end;
+}
+
+/**
+ * Build a resolver for a strategy. Session and library windows depend on the
+ * whole timeline, so they are computed from every photo in the library.
+ */
+export function createTimeWindowResolver(
+  strategy: TimeWindowStrategy,
+  photos: TimelinePhoto[]
+): TimeWindowResolver {
+  const { maxMatchSpan } = getTimeWindowStrategyInfo(strategy);
+
+  switch (strategy) {
+    case 'burst':
+      return {
+        strategy,
+        maxMatchSpan,
+        getWindow: ({ creationTime }) => ({
+          start: creationTime - BURST_WINDOW_MS,
+          end: creationTime + BURST_WINDOW_MS,
+        }),
+        isInWindow: isInTimeRange,
+      };
+
+    case 'session': {
+      const sessionIndex = new SessionIndex(segmentSessions(photos));
+      return {
+        strategy,
+        maxMatchSpan,
+        getWindow: photo => {
+          const session = sessionIndex.getSession(photo);
+          return session
+            ? { start: session.start, end: session.end, sessionId: session.id }
+            : { start: photo.creationTime, end: photo.creationTime };
+        },
+        isInWindow: (window, photo) =>
+          window.sessionId !== undefined && sessionIndex.getSession(photo)?.id === window.sessionId,
+      };
+    }
+
+    case 'day':
+      return {
+        strategy,
+        maxMatchSpan,
+        getWindow: ({ creationTime }) => {
+          const start = new Date(creationTime);
+          start.setHours(0, 0, 0, 0);
+          const end = new Date(start);
+          end.setDate(end.getDate() + 1);
+          return { start: start.getTime(), end: end.getTime() - 1 };
+        },
+        isInWindow: isInTimeRange,
+      };
+
+    case 'library': {
+      let start = Infinity;
+      let end = -Infinity;
+      for (const photo of photos) {
+        start = Math.min(start, photo.creationTime);
+        end = Math.max(end, photo.creationTime);
+      }
+      return {
+        strategy,
+        maxMatchSpan,
+        getWindow: ({ creationTime }) => ({
+          start: Math.min(start, creationTime),
+          end: Math.max(end, creationTime),
+        }),
+        isInWindow: () => true,
+      };
+    }
+  }
+}